@@ -1,53 +1,179 @@
+import { neon } from "@neondatabase/serverless";
 import { Stripe } from "stripe";
 
+import { getStripeCustomerId } from "@/lib/customer";
+import { isDispatchMode } from "@/lib/dispatch";
+import { validatePromotion } from "@/lib/promo";
+import { verifyQuote } from "@/lib/quote";
+import { validatePickupTime } from "@/lib/schedule";
+import { getUserEmail, normalizeEmail, validateSplit } from "@/lib/split";
+import { stopsToMetadata } from "@/lib/stops";
+import { withAuth } from "@/lib/session";
+
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
-export async function POST(request: Request) {
+
+export const POST = withAuth(async (request, _params, { userId }) => {
   const body = await request.json();
-  const { name, email, amount } = body;
+  const {
+    quote_id,
+    ride,
+    accepted_surge_multiplier,
+    split,
+    scheduled_pickup_at,
+    dispatch_mode,
+  } = body;
 
-  if (!name || !email || !amount) {
+  if (!quote_id) {
     return new Response(JSON.stringify({ error: "Missing required fields" }), {
       status: 400,
     });
   }
 
-  let customer;
-  const doesCustomerExist = await stripe.customers.list({
-    email,
-  });
+  const verified = verifyQuote(quote_id);
+  if ("error" in verified) {
+    return new Response(JSON.stringify({ error: verified.error }), {
+      status: 400,
+    });
+  }
+  const { quote } = verified;
+
+  // The rider has to have seen and agreed to the exact multiplier being charged
+  const surgeMultiplier = quote.breakdown?.surge_multiplier ?? 1;
+  if (surgeMultiplier > 1 && Number(accepted_surge_multiplier) !== surgeMultiplier) {
+    return new Response(
+      JSON.stringify({ error: "Surge pricing must be accepted", surge_multiplier: surgeMultiplier }),
+      { status: 409 },
+    );
+  }
+
+  let scheduledPickupAt: string | null = null;
+  if (scheduled_pickup_at) {
+    const result = validatePickupTime(scheduled_pickup_at);
+    if ("error" in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: 400,
+      });
+    }
+    scheduledPickupAt = result.pickupAt.toISOString();
+  }
 
-  if (doesCustomerExist.data.length > 0) {
-    customer = doesCustomerExist.data[0];
-  } else {
-    const newCustomer = await stripe.customers.create({
-      name,
-      email,
+  const sql = neon(`${process.env.DATABASE_URL}`);
+
+  // The rider pays as their own customer, whatever the request says
+  const [email, customerId] = await Promise.all([
+    getUserEmail(sql, userId),
+    getStripeCustomerId(sql, userId),
+  ]);
+  if (!email || !customerId) {
+    return new Response(JSON.stringify({ error: "User not found" }), {
+      status: 404,
     });
+  }
 
-    customer = newCustomer;
+  // With a split the booker only pays their own share up front
+  const shares = Array.isArray(split) ? split : [];
+  let amount = quote.amount;
+  if (shares.length > 0) {
+    const result = validateSplit(quote.amount, shares, email);
+    if ("error" in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: 400,
+      });
+    }
+    amount = result.bookerShare;
+  }
+
+  // The code may have been used up on another ride since it was applied
+  if (quote.promotion) {
+    const result = await validatePromotion(sql, {
+      code: quote.promotion.code,
+      userId,
+      quote,
+    });
+    if ("error" in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: 422,
+      });
+    }
   }
 
   const ephemeralKey = await stripe.ephemeralKeys.create(
-    { customer: customer.id },
+    { customer: customerId },
     { apiVersion: "2024-06-20" },
   );
 
   const paymentIntent = await stripe.paymentIntents.create({
-    amount: parseInt(amount) * 100,
-    currency: "usd",
-    customer: customer.id,
+    amount,
+    currency: quote.currency,
+    customer: customerId,
+    // Saves the card so a tip can be charged after the ride
+    setup_future_usage: "off_session",
     automatic_payment_methods: {
       enabled: true,
       allow_redirects: "never",
     },
+    // Lets the webhook rebuild the ride if the app never gets to call
+    // /(api)/ride/create, and ties the payment to the quote it was made for
+    metadata: {
+      quote_nonce: quote.nonce,
+      fare_amount: quote.amount,
+      ...(shares.length > 0 && { booker_share: amount }),
+      origin_address: String(ride?.origin_address ?? "Unknown").slice(0, 255),
+      destination_address: String(ride?.destination_address ?? "Unknown").slice(0, 255),
+      origin_latitude: quote.origin_latitude,
+      origin_longitude: quote.origin_longitude,
+      destination_latitude: quote.destination_latitude,
+      destination_longitude: quote.destination_longitude,
+      ...stopsToMetadata(quote.stops ?? []),
+      ride_time: quote.ride_time,
+      scheduled_pickup_at: scheduledPickupAt,
+      surge_multiplier: surgeMultiplier,
+      promotion_id: quote.promotion?.id ?? null,
+      discount_amount: quote.promotion?.discount_amount ?? 0,
+      driver_id: quote.driver_id,
+      dispatch_mode: isDispatchMode(dispatch_mode) ? dispatch_mode : "auto",
+      vehicle_class: quote.breakdown?.vehicle_class ?? null,
+      fare_breakdown: quote.breakdown ? JSON.stringify(quote.breakdown) : null,
+      user_id: userId,
+    },
   });
 
+  // Linked to the ride once it is created, and kept in step with Stripe by
+  // /(api)/(stripe)/pay and the webhook
+  await sql`
+    INSERT INTO payments (
+      stripe_payment_intent_id,
+      stripe_customer_id,
+      amount,
+      currency,
+      status,
+      user_id
+    ) VALUES (
+      ${paymentIntent.id},
+      ${customerId},
+      ${paymentIntent.amount},
+      ${paymentIntent.currency},
+      ${paymentIntent.status},
+      ${userId}
+    )
+    ON CONFLICT (stripe_payment_intent_id) DO NOTHING;
+  `;
+
+  // Invitations go out with the booking and are attached to the ride once
+  // it is created
+  for (const share of shares) {
+    await sql`
+      INSERT INTO ride_participants (booking_payment_intent_id, email, share_amount)
+      VALUES (${paymentIntent.id}, ${normalizeEmail(share.email)}, ${share.share_amount});
+    `;
+  }
+
   return new Response(
     JSON.stringify({
       paymentIntent: paymentIntent,
       ephemeralKey: ephemeralKey,
-      customer: customer.id,
+      customer: customerId,
     }),
   );
-}
+});
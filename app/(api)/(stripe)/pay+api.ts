@@ -1,29 +1,52 @@
+import { neon } from "@neondatabase/serverless";
 import { Stripe } from "stripe";
 
+import { withAuth } from "@/lib/session";
+
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
 
-export async function POST(request: Request) {
+export const POST = withAuth(async (request, _params, { userId }) => {
   try {
     const body = await request.json();
-    const { payment_method_id, payment_intent_id, customer_id, client_secret } =
-      body;
+    const { payment_method_id, payment_intent_id } = body;
 
-    if (!payment_method_id || !payment_intent_id || !customer_id) {
+    if (!payment_method_id || !payment_intent_id) {
       return new Response(
         JSON.stringify({ error: "Missing required fields" }),
         { status: 400 },
       );
     }
 
+    // Only the rider the PaymentIntent was created for can confirm it
+    const paymentIntent = await stripe.paymentIntents.retrieve(payment_intent_id);
+    if (paymentIntent.metadata.user_id !== userId) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+      });
+    }
+
+    // The card is saved to the customer the PaymentIntent was created for
     const paymentMethod = await stripe.paymentMethods.attach(
       payment_method_id,
-      { customer: customer_id },
+      { customer: paymentIntent.customer as string },
     );
 
     const result = await stripe.paymentIntents.confirm(payment_intent_id, {
       payment_method: paymentMethod.id,
     });
 
+    // A refund or dispute recorded by the webhook takes precedence
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    await sql`
+      UPDATE payments
+      SET
+        status = ${result.status},
+        payment_method_id = ${paymentMethod.id},
+        updated_at = NOW()
+      WHERE stripe_payment_intent_id = ${result.id}
+        AND status NOT IN ('refunded', 'partially_refunded', 'refund_failed', 'disputed');
+    `;
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -37,4 +60,4 @@ export async function POST(request: Request) {
       status: 500,
     });
   }
-}
+});
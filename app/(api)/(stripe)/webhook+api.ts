@@ -0,0 +1,384 @@
+import { neon, NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { advanceDispatch } from "@/lib/dispatch";
+import { rejectOverusedPromotion } from "@/lib/promo";
+import { refundRidePayments } from "@/lib/refunds";
+import {
+  linkSplitParticipants,
+  recordSharePayment,
+  syncSplitPaymentStatus,
+} from "@/lib/split";
+import { saveRideStops, stopsFromMetadata } from "@/lib/stops";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+type Sql = NeonQueryFunction<false, false>;
+
+// Refunds and disputes are final as far as a late success event is concerned
+const SETTLED_PAYMENT_STATUSES = [
+  "refunded",
+  "partially_refunded",
+  "refund_failed",
+  "disputed",
+];
+
+// Rides that ended before a driver was on the way, which keep nothing of a
+// payment that only went through afterwards
+const CLOSED_UNPAID_RIDE_STATUSES = ["cancelled_by_rider", "no_driver_found"];
+
+// Charges other than the booking fare say what they are in their metadata
+const PAYMENT_KINDS = ["tip", "split_share", "split_cover"];
+
+const getId = (value: string | { id: string } | null) =>
+  typeof value === "string" ? value : (value?.id ?? null);
+
+const handlePaymentSucceeded = async (
+  sql: Sql,
+  paymentIntent: Stripe.PaymentIntent,
+) => {
+  const { metadata } = paymentIntent;
+  const customerId = getId(paymentIntent.customer);
+  const paymentMethodId = getId(paymentIntent.payment_method);
+
+  // The app may have been killed before it created the ride, so rebuild it
+  // from the details stored on the PaymentIntent when it was created
+  if (metadata.user_id && metadata.driver_id) {
+    await sql`
+      INSERT INTO rides (
+        origin_address,
+        destination_address,
+        origin_latitude,
+        origin_longitude,
+        destination_latitude,
+        destination_longitude,
+        ride_time,
+        fare_price,
+        payment_status,
+        driver_id,
+        user_id,
+        payment_intent_id,
+        surge_multiplier,
+        promotion_id,
+        discount_amount,
+        booker_share_amount,
+        scheduled_pickup_at,
+        status,
+        dispatch_mode,
+        vehicle_class,
+        fare_breakdown
+      ) VALUES (
+        ${metadata.origin_address},
+        ${metadata.destination_address},
+        ${metadata.origin_latitude},
+        ${metadata.origin_longitude},
+        ${metadata.destination_latitude},
+        ${metadata.destination_longitude},
+        ${metadata.ride_time},
+        ${metadata.fare_amount ?? paymentIntent.amount_received},
+        'paid',
+        ${metadata.dispatch_mode === "auto" ? null : metadata.driver_id},
+        ${metadata.user_id},
+        ${paymentIntent.id},
+        ${metadata.surge_multiplier ?? 1},
+        ${metadata.promotion_id || null},
+        ${metadata.discount_amount ?? 0},
+        ${metadata.booker_share ?? null},
+        ${metadata.scheduled_pickup_at || null},
+        ${metadata.scheduled_pickup_at ? "scheduled" : "requested"},
+        ${metadata.dispatch_mode === "auto" ? "auto" : "rider"},
+        ${metadata.vehicle_class || null},
+        ${metadata.fare_breakdown || null}::jsonb
+      )
+      ON CONFLICT (payment_intent_id) DO NOTHING;
+    `;
+  }
+
+  // The ride was closed while its payment was still being confirmed, and
+  // the payment went through anyway
+  const [closedRide] = await sql`
+    SELECT id FROM rides
+    WHERE payment_intent_id = ${paymentIntent.id}
+      AND payment_status IN ('pending', 'failed')
+      AND status = ANY(${CLOSED_UNPAID_RIDE_STATUSES});
+  `;
+
+  // A requested ride waits for its payment before the search for a driver
+  // starts, so its search window starts now
+  const [ride] = await sql`
+    UPDATE rides
+    SET
+      payment_status = 'paid',
+      dispatch_started_at = CASE
+        WHEN status = 'requested' AND payment_status = 'pending' THEN NOW()
+        ELSE dispatch_started_at
+      END,
+      updated_at = NOW()
+    WHERE payment_intent_id = ${paymentIntent.id}
+      AND payment_status <> ALL(${SETTLED_PAYMENT_STATUSES})
+    RETURNING id;
+  `;
+
+  // A rebuilt ride needs its stops as well
+  if (ride && metadata.user_id && metadata.driver_id) {
+    await saveRideStops(sql, ride.id, stopsFromMetadata(metadata));
+  }
+
+  // Split rides stay partially paid until every share is settled
+  if (ride && metadata.booker_share) {
+    await linkSplitParticipants(sql, ride.id, paymentIntent.id);
+    await syncSplitPaymentStatus(sql, ride.id);
+  }
+
+  // A rebuilt ride has not been through the promo check in ride/create
+  if (ride && !(await rejectOverusedPromotion(sql, ride.id))) {
+    await advanceDispatch(sql, ride.id);
+  }
+
+  if (metadata.type === "split_share" && metadata.participant_id) {
+    const recorded = await recordSharePayment(
+      sql,
+      metadata.participant_id,
+      paymentIntent.id,
+    );
+
+    // The booker covered this share, or the ride was called off, while the
+    // participant was paying
+    if (!recorded) {
+      await stripe.refunds.create(
+        { payment_intent: paymentIntent.id, reason: "duplicate" },
+        { idempotencyKey: `split-share-${paymentIntent.id}-refund` },
+      );
+    }
+  }
+
+  if (customerId && metadata.user_id) {
+    await sql`
+      INSERT INTO payments (
+        ride_id,
+        stripe_payment_intent_id,
+        stripe_customer_id,
+        amount,
+        currency,
+        status,
+        payment_method_id,
+        user_id,
+        kind
+      ) VALUES (
+        COALESCE(
+          (SELECT id FROM rides WHERE payment_intent_id = ${paymentIntent.id}),
+          ${metadata.ride_id ?? null}
+        ),
+        ${paymentIntent.id},
+        ${customerId},
+        ${paymentIntent.amount_received},
+        ${paymentIntent.currency},
+        'succeeded',
+        ${paymentMethodId},
+        ${metadata.user_id},
+        ${PAYMENT_KINDS.includes(metadata.type) ? metadata.type : "fare"}
+      )
+      ON CONFLICT (stripe_payment_intent_id) DO UPDATE
+      SET
+        ride_id = COALESCE(payments.ride_id, EXCLUDED.ride_id),
+        amount = EXCLUDED.amount,
+        status = EXCLUDED.status,
+        payment_method_id = EXCLUDED.payment_method_id,
+        updated_at = NOW()
+      WHERE payments.status <> ALL(${SETTLED_PAYMENT_STATUSES});
+    `;
+  }
+
+  // Given back in full once the payment is on record above
+  if (closedRide) {
+    const { paymentStatus } = await refundRidePayments(
+      sql,
+      closedRide.id,
+      "ride_closed",
+    );
+
+    if (paymentStatus) {
+      await sql`
+        UPDATE rides
+        SET payment_status = ${paymentStatus}, updated_at = NOW()
+        WHERE id = ${closedRide.id};
+      `;
+    }
+  }
+};
+
+const handlePaymentFailed = async (
+  sql: Sql,
+  paymentIntent: Stripe.PaymentIntent,
+) => {
+  // A ride that was never paid for is closed rather than left waiting for
+  // a driver. Nothing was charged, so there is nothing to refund
+  const closed = await sql`
+    UPDATE rides
+    SET
+      payment_status = 'failed',
+      status = CASE
+        WHEN status IN ('scheduled', 'requested') THEN 'cancelled_by_rider'
+        ELSE status
+      END,
+      cancelled_at = CASE
+        WHEN status IN ('scheduled', 'requested') THEN NOW()
+        ELSE cancelled_at
+      END,
+      cancellation_reason = CASE
+        WHEN status IN ('scheduled', 'requested') THEN 'Payment failed'
+        ELSE cancellation_reason
+      END,
+      updated_at = NOW()
+    WHERE payment_intent_id = ${paymentIntent.id}
+      AND payment_status = 'pending'
+    RETURNING id;
+  `;
+
+  // Stops the rider retrying the same payment for a ride that is gone
+  if (closed.length > 0) {
+    await stripe.paymentIntents
+      .cancel(paymentIntent.id)
+      .catch((error) => console.error("Error cancelling failed payment:", error));
+  }
+
+  await sql`
+    UPDATE payments
+    SET status = 'failed', updated_at = NOW()
+    WHERE stripe_payment_intent_id = ${paymentIntent.id}
+      AND status NOT IN ('succeeded', 'refunded', 'partially_refunded', 'disputed');
+  `;
+};
+
+const handleChargeRefunded = async (sql: Sql, charge: Stripe.Charge) => {
+  const paymentIntentId = getId(charge.payment_intent);
+  if (!paymentIntentId) return;
+
+  const status = charge.refunded ? "refunded" : "partially_refunded";
+
+  await sql`
+    UPDATE payments
+    SET
+      status = ${status},
+      refunded_amount = ${charge.amount_refunded},
+      updated_at = NOW()
+    WHERE stripe_payment_intent_id = ${paymentIntentId};
+  `;
+
+  // A split ride's refund is spread over several payments, so the ride
+  // shows their total rather than this charge's
+  await sql`
+    UPDATE rides
+    SET
+      payment_status = ${status},
+      refund_amount = GREATEST(
+        ${charge.amount_refunded},
+        (
+          SELECT COALESCE(SUM(refunded_amount), 0) FROM payments
+          WHERE ride_id = rides.id AND kind <> 'tip'
+        )
+      ),
+      updated_at = NOW()
+    WHERE payment_intent_id = ${paymentIntentId};
+  `;
+
+  // A refunded tip comes back out of the driver's earnings
+  await sql`
+    UPDATE driver_earnings
+    SET
+      status = ${charge.refunded ? "reversed" : "partially_reversed"},
+      reversed_amount = LEAST(${charge.amount_refunded}, amount),
+      updated_at = NOW()
+    WHERE stripe_payment_intent_id = ${paymentIntentId};
+  `;
+};
+
+const handleDisputeCreated = async (sql: Sql, dispute: Stripe.Dispute) => {
+  const paymentIntentId = getId(dispute.payment_intent);
+  if (!paymentIntentId) return;
+
+  await sql`
+    UPDATE rides
+    SET payment_status = 'disputed', updated_at = NOW()
+    WHERE payment_intent_id = ${paymentIntentId};
+  `;
+
+  await sql`
+    UPDATE payments
+    SET status = 'disputed', updated_at = NOW()
+    WHERE stripe_payment_intent_id = ${paymentIntentId};
+  `;
+
+  // Stripe takes the disputed amount back straight away, so a disputed tip
+  // is held back from the driver until the dispute is settled
+  await sql`
+    UPDATE driver_earnings
+    SET
+      status = 'disputed',
+      reversed_amount = LEAST(${dispute.amount}, amount),
+      updated_at = NOW()
+    WHERE stripe_payment_intent_id = ${paymentIntentId};
+  `;
+};
+
+export async function POST(request: Request) {
+  const signature = request.headers.get("stripe-signature");
+
+  if (!signature) {
+    return Response.json({ error: "Missing signature" }, { status: 400 });
+  }
+
+  let event: Stripe.Event;
+
+  try {
+    event = await stripe.webhooks.constructEventAsync(
+      await request.text(),
+      signature,
+      process.env.STRIPE_WEBHOOK_SECRET!,
+    );
+  } catch (error) {
+    console.error("Invalid Stripe webhook signature:", error);
+    return Response.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+
+    const [processed] = await sql`
+      SELECT id FROM stripe_events WHERE id = ${event.id};
+    `;
+
+    if (processed) {
+      return Response.json({ received: true, duplicate: true });
+    }
+
+    switch (event.type) {
+      case "payment_intent.succeeded":
+        await handlePaymentSucceeded(sql, event.data.object);
+        break;
+      case "payment_intent.payment_failed":
+        await handlePaymentFailed(sql, event.data.object);
+        break;
+      case "charge.refunded":
+        await handleChargeRefunded(sql, event.data.object);
+        break;
+      case "charge.dispute.created":
+        await handleDisputeCreated(sql, event.data.object);
+        break;
+      default:
+        console.log(`Ignoring Stripe event ${event.type}`);
+    }
+
+    // Recorded only after handling, so a failed attempt is retried by Stripe
+    await sql`
+      INSERT INTO stripe_events (id, type)
+      VALUES (${event.id}, ${event.type})
+      ON CONFLICT (id) DO NOTHING;
+    `;
+
+    return Response.json({ received: true });
+  } catch (error) {
+    console.error("Error handling Stripe webhook:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
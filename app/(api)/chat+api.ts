@@ -0,0 +1,61 @@
+import { neon } from "@neondatabase/serverless";
+
+import { CHAT_LOCK_HOURS } from "@/lib/chat";
+import { withAuth } from "@/lib/session";
+
+const MAX_THREADS = 50;
+
+export const GET = withAuth(async (request, _params, { userId }) => {
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const response = await sql`
+      SELECT
+        threads.*,
+        last_message.body AS last_message,
+        last_message.created_at AS last_message_at,
+        (
+          SELECT COUNT(*)::int FROM messages
+          WHERE messages.ride_id = threads.ride_id
+            AND messages.sender_role <> threads.role
+            AND messages.read_at IS NULL
+        ) AS unread_count
+      FROM (
+        SELECT
+          rides.id AS ride_id,
+          rides.status,
+          rides.origin_address,
+          rides.destination_address,
+          rides.created_at,
+          CASE WHEN rides.user_id = ${userId} THEN 'rider' ELSE 'driver' END AS role,
+          CASE WHEN rides.user_id = ${userId}
+            THEN drivers.first_name || ' ' || drivers.last_name
+            ELSE COALESCE(riders.name, 'Rider')
+          END AS counterpart_name,
+          COALESCE(
+            COALESCE(rides.completed_at, rides.cancelled_at, rides.no_show_at) <
+              NOW() - make_interval(hours => ${CHAT_LOCK_HOURS}),
+            false
+          ) AS locked
+        FROM rides
+        INNER JOIN drivers ON drivers.id = rides.driver_id
+        LEFT JOIN users AS riders ON riders.clerk_id = rides.user_id
+        LEFT JOIN users AS me ON me.clerk_id = ${userId} AND me.role = 'driver'
+        WHERE rides.accepted_at IS NOT NULL
+          AND (rides.user_id = ${userId} OR rides.driver_id = me.driver_id)
+      ) AS threads
+      LEFT JOIN LATERAL (
+        SELECT body, created_at FROM messages
+        WHERE messages.ride_id = threads.ride_id
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+      ) AS last_message ON true
+      ORDER BY COALESCE(last_message.created_at, threads.created_at) DESC
+      LIMIT ${MAX_THREADS};
+    `;
+
+    return Response.json({ data: response });
+  } catch (error) {
+    console.error("Error fetching chat threads:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,138 @@
+import { neon } from "@neondatabase/serverless";
+
+import {
+  CHAT_MAX_MESSAGE_LENGTH,
+  CHAT_PAGE_SIZE,
+  getChatAccess,
+} from "@/lib/chat";
+import { withAuth } from "@/lib/session";
+
+// Newest first. `before` pages back through older messages, `after`
+// fetches what was sent since the newest message the caller has, oldest
+// of those first so a long gap comes in over several polls. Both take a
+// message id and page on (created_at, id), which keeps messages sent in
+// the same instant in a fixed order
+export const GET = withAuth<{ rideId: string }>(async (request, { rideId }, { userId }) => {
+  const { searchParams } = new URL(request.url);
+  const before = parseInt(searchParams.get("before") ?? "", 10);
+  const after = parseInt(searchParams.get("after") ?? "", 10);
+
+  if (!rideId) {
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const access = await getChatAccess(sql, rideId, userId);
+
+    if (!access) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    // One extra row tells us whether there is another page
+    const messages = Number.isFinite(after)
+      ? await sql`
+          SELECT id, ride_id, sender_role, body, created_at, read_at
+          FROM messages
+          WHERE ride_id = ${rideId}
+            AND (created_at, id) > (
+              SELECT created_at, id FROM messages
+              WHERE ride_id = ${rideId} AND id = ${after}
+            )
+          ORDER BY created_at ASC, id ASC
+          LIMIT ${CHAT_PAGE_SIZE + 1};
+        `
+      : Number.isFinite(before)
+        ? await sql`
+            SELECT id, ride_id, sender_role, body, created_at, read_at
+            FROM messages
+            WHERE ride_id = ${rideId}
+              AND (created_at, id) < (
+                SELECT created_at, id FROM messages
+                WHERE ride_id = ${rideId} AND id = ${before}
+              )
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${CHAT_PAGE_SIZE + 1};
+          `
+        : await sql`
+            SELECT id, ride_id, sender_role, body, created_at, read_at
+            FROM messages
+            WHERE ride_id = ${rideId}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${CHAT_PAGE_SIZE + 1};
+          `;
+    const page = messages.slice(0, CHAT_PAGE_SIZE);
+    if (Number.isFinite(after)) page.reverse();
+
+    // Read receipts: the other side reads everything at once, so one id
+    // covers every earlier message the caller sent
+    const [receipt] = await sql`
+      SELECT MAX(id) AS last_read_id
+      FROM messages
+      WHERE ride_id = ${rideId}
+        AND sender_role = ${access.role}
+        AND read_at IS NOT NULL;
+    `;
+
+    return Response.json({
+      data: {
+        role: access.role,
+        locked: access.locked,
+        last_read_id: receipt.last_read_id,
+        messages: page,
+        has_more: messages.length > CHAT_PAGE_SIZE,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching messages:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
+
+export const POST = withAuth<{ rideId: string }>(async (request, { rideId }, { userId }) => {
+  try {
+    const { body } = await request.json();
+    const text = typeof body === "string" ? body.trim() : "";
+
+    if (!rideId || !text) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (text.length > CHAT_MAX_MESSAGE_LENGTH) {
+      return Response.json(
+        {
+          error: `Messages can be at most ${CHAT_MAX_MESSAGE_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const access = await getChatAccess(sql, rideId, userId);
+
+    if (!access) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    if (access.locked) {
+      return Response.json(
+        { error: "This conversation has closed" },
+        { status: 409 },
+      );
+    }
+
+    const [message] = await sql`
+      INSERT INTO messages (ride_id, sender_id, sender_role, body)
+      VALUES (${rideId}, ${userId}, ${access.role}, ${text})
+      RETURNING id, ride_id, sender_role, body, created_at, read_at;
+    `;
+
+    return Response.json({ data: message }, { status: 201 });
+  } catch (error) {
+    console.error("Error sending message:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
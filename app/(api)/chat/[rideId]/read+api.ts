@@ -0,0 +1,39 @@
+import { neon } from "@neondatabase/serverless";
+
+import { countUnreadMessages, getChatAccess } from "@/lib/chat";
+import { withAuth } from "@/lib/session";
+
+// Marks everything the other side has sent as read, and returns what is
+// still unread elsewhere so the tab badge can update straight away
+export const POST = withAuth<{ rideId: string }>(async (request, { rideId }, { userId }) => {
+  try {
+    if (!rideId) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const access = await getChatAccess(sql, rideId, userId);
+
+    if (!access) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    await sql`
+      UPDATE messages
+      SET read_at = NOW()
+      WHERE ride_id = ${rideId}
+        AND sender_role <> ${access.role}
+        AND read_at IS NULL;
+    `;
+
+    const unreadCount = await countUnreadMessages(sql, userId);
+
+    return Response.json({ data: { unread_count: unreadCount } });
+  } catch (error) {
+    console.error("Error marking messages read:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,16 @@
+import { neon } from "@neondatabase/serverless";
+
+import { countUnreadMessages } from "@/lib/chat";
+import { withAuth } from "@/lib/session";
+
+export const GET = withAuth(async (request, _params, { userId }) => {
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const count = await countUnreadMessages(sql, userId);
+
+    return Response.json({ data: { count } });
+  } catch (error) {
+    console.error("Error counting unread messages:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,71 @@
+import { neon } from "@neondatabase/serverless";
+import { Webhook } from "svix";
+
+import { ClerkUser, anonymizeUser, upsertClerkUser } from "@/lib/user";
+
+interface ClerkEvent {
+  type: string;
+  data: unknown;
+}
+
+// Postgres's unique_violation. Retrying such an event fails the same way
+// every time, so it is logged and acknowledged rather than left for Clerk
+// to redeliver
+const UNIQUE_VIOLATION = "23505";
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+
+// Keeps the users table in step with Clerk. Clerk signs its webhooks with
+// Svix; the secret is on the endpoint's page in the Clerk dashboard
+export async function POST(request: Request) {
+  const headers = {
+    "svix-id": request.headers.get("svix-id") ?? "",
+    "svix-timestamp": request.headers.get("svix-timestamp") ?? "",
+    "svix-signature": request.headers.get("svix-signature") ?? "",
+  };
+
+  if (!headers["svix-id"] || !headers["svix-signature"]) {
+    return Response.json({ error: "Missing signature" }, { status: 400 });
+  }
+
+  let event: ClerkEvent;
+
+  try {
+    event = new Webhook(process.env.CLERK_WEBHOOK_SIGNING_SECRET!).verify(
+      await request.text(),
+      headers,
+    ) as ClerkEvent;
+  } catch (error) {
+    console.error("Invalid Clerk webhook signature:", error);
+    return Response.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+
+    switch (event.type) {
+      case "user.created":
+      case "user.updated":
+        await upsertClerkUser(sql, event.data as ClerkUser);
+        break;
+      case "user.deleted": {
+        const { id } = event.data as { id?: string };
+        if (id) await anonymizeUser(sql, id);
+        break;
+      }
+      default:
+        console.log(`Ignoring Clerk event ${event.type}`);
+    }
+
+    return Response.json({ received: true });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      console.error(`Could not apply Clerk event ${event.type}:`, error);
+      return Response.json({ received: true, applied: false });
+    }
+
+    console.error("Error handling Clerk webhook:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
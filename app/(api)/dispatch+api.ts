@@ -0,0 +1,23 @@
+import { neon } from "@neondatabase/serverless";
+
+import { runDispatch } from "@/lib/dispatch";
+
+// Called by a cron job every few seconds so offers that lapse move on to
+// the next driver; guarded by the same secret as the ride scheduler
+export async function POST(request: Request) {
+  const secret = process.env.SCHEDULER_SECRET;
+
+  if (!secret || request.headers.get("x-scheduler-secret") !== secret) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const rides = await runDispatch(sql);
+
+    return Response.json({ data: { rides } });
+  } catch (error) {
+    console.error("Error running dispatch:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -1,13 +1,97 @@
 import { neon } from "@neondatabase/serverless";
 
-export async function GET(request: Request) {
+import { withAuth } from "@/lib/session";
+
+const DEFAULT_RADIUS_KM = 5;
+const MAX_RADIUS_KM = 50;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const KM_PER_DEGREE = 111.32;
+// Matches what the map shows; anything older is where a driver was, not
+// where they are
+const MAX_LOCATION_AGE_SECONDS = 900;
+
+export const GET = withAuth(async (request) => {
+  const { searchParams } = new URL(request.url);
+  const lat = parseFloat(searchParams.get("lat") ?? "");
+  const lng = parseFloat(searchParams.get("lng") ?? "");
+  const radiusParam = searchParams.get("radius_km");
+  const radiusKm = Math.min(
+    radiusParam === null ? DEFAULT_RADIUS_KM : parseFloat(radiusParam),
+    MAX_RADIUS_KM,
+  );
+  const limit = Math.min(
+    parseInt(searchParams.get("limit") ?? "", 10) || DEFAULT_LIMIT,
+    MAX_LIMIT,
+  );
+
+  if (
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lng) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180
+  ) {
+    return Response.json(
+      { error: "Valid lat and lng are required" },
+      { status: 400 },
+    );
+  }
+
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+    return Response.json(
+      { error: "radius_km must be a positive number" },
+      { status: 400 },
+    );
+  }
+
+  // Bounding box so the index can discard far-away drivers before the
+  // haversine distance is computed for each row
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const lngDelta =
+    radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+
   try {
     const sql = neon(`${process.env.DATABASE_URL}`);
-    const response = await sql`SELECT * FROM drivers`;
+    const response = await sql`
+      SELECT * FROM (
+        SELECT
+          id,
+          first_name,
+          last_name,
+          title,
+          vehicle_class,
+          profile_image_url,
+          car_image_url,
+          car_seats,
+          rating::float AS rating,
+          latitude::float AS latitude,
+          longitude::float AS longitude,
+          heading::float AS heading,
+          speed::float AS speed,
+          location_updated_at,
+          EXTRACT(EPOCH FROM (NOW() - location_updated_at))::int AS location_age_seconds,
+          6371 * acos(
+            least(1, greatest(-1,
+              cos(radians(${lat})) * cos(radians(latitude)) *
+              cos(radians(longitude) - radians(${lng})) +
+              sin(radians(${lat})) * sin(radians(latitude))
+            ))
+          ) AS distance_km
+        FROM drivers
+        WHERE
+          is_online = true
+          AND location_updated_at > NOW() - make_interval(secs => ${MAX_LOCATION_AGE_SECONDS})
+          AND latitude BETWEEN ${lat - latDelta} AND ${lat + latDelta}
+          AND longitude BETWEEN ${lng - lngDelta} AND ${lng + lngDelta}
+      ) AS nearby
+      WHERE distance_km <= ${radiusKm}
+      ORDER BY distance_km ASC
+      LIMIT ${limit};
+    `;
 
     return Response.json({ data: response });
   } catch (error) {
     console.error("Error fetching drivers:", error);
     return Response.json({ error: "Internal Server Error" }, { status: 500 });
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,79 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getDriverForUser } from "@/lib/driver";
+import { withAuth } from "@/lib/session";
+
+export const POST = withAuth(async (request, _params, { userId }) => {
+  try {
+    const { latitude, longitude, heading, speed } = await request.json();
+
+    if (latitude === undefined || longitude === undefined) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const lat = Number(latitude);
+    const lng = Number(longitude);
+    const headingDegrees =
+      heading === undefined || heading === null ? null : Number(heading);
+    const speedMps = speed === undefined || speed === null ? null : Number(speed);
+
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      return Response.json({ error: "Invalid coordinates" }, { status: 400 });
+    }
+
+    if (
+      (headingDegrees !== null &&
+        (!Number.isFinite(headingDegrees) ||
+          headingDegrees < 0 ||
+          headingDegrees >= 360)) ||
+      (speedMps !== null && (!Number.isFinite(speedMps) || speedMps < 0))
+    ) {
+      return Response.json(
+        { error: "Invalid heading or speed" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    const response = await sql`
+      UPDATE drivers
+      SET
+        latitude = ${lat},
+        longitude = ${lng},
+        heading = ${headingDegrees},
+        speed = ${speedMps},
+        location_updated_at = NOW()
+      WHERE id = ${driver.id}
+      RETURNING
+        id,
+        latitude::float AS latitude,
+        longitude::float AS longitude,
+        heading::float AS heading,
+        speed::float AS speed,
+        location_updated_at;
+    `;
+
+    if (response.length === 0) {
+      return Response.json({ error: "Driver not found" }, { status: 404 });
+    }
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error updating driver location:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,58 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getDriverForUser } from "@/lib/driver";
+import { expireStaleOffers } from "@/lib/offers";
+import { RATING_WINDOW } from "@/lib/rating";
+import { withAuth } from "@/lib/session";
+
+export const GET = withAuth(async (request, _params, { userId }) => {
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    await expireStaleOffers(sql);
+
+    const response = await sql`
+      SELECT
+        ride_offers.id,
+        ride_offers.ride_id,
+        ride_offers.pickup_distance_km::float AS pickup_distance_km,
+        ride_offers.fare_amount,
+        ride_offers.expires_at,
+        GREATEST(EXTRACT(EPOCH FROM (ride_offers.expires_at - NOW())), 0)::int AS seconds_left,
+        rides.origin_address,
+        rides.destination_address,
+        rides.ride_time,
+        rider_stats.rider_rating,
+        rider_stats.rider_rating_count
+      FROM ride_offers
+      INNER JOIN rides ON rides.id = ride_offers.ride_id
+      -- How drivers have rated this rider recently, so the driver can
+      -- decide whether to take the ride
+      LEFT JOIN LATERAL (
+        SELECT
+          ROUND(AVG(stars), 1)::float AS rider_rating,
+          COUNT(*)::int AS rider_rating_count
+        FROM (
+          SELECT stars FROM ratings
+          WHERE ratings.rider_id = rides.user_id AND ratings.rater_role = 'driver'
+          ORDER BY created_at DESC
+          LIMIT ${RATING_WINDOW}
+        ) AS recent
+      ) AS rider_stats ON true
+      WHERE ride_offers.driver_id = ${driver.id}
+        AND ride_offers.status = 'pending'
+        AND rides.status = 'requested'
+      ORDER BY ride_offers.expires_at ASC;
+    `;
+
+    return Response.json({ data: response });
+  } catch (error) {
+    console.error("Error fetching ride offers:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
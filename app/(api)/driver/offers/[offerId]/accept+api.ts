@@ -0,0 +1,67 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getDriverForUser } from "@/lib/driver";
+import { withAuth } from "@/lib/session";
+
+export const POST = withAuth<{ offerId: string }>(async (request, { offerId }, { userId }) => {
+  try {
+    if (!offerId) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    // Only an offer that is still open can be taken, however late the tap
+    const [offer] = await sql`
+      UPDATE ride_offers
+      SET status = 'accepted', responded_at = NOW()
+      WHERE id = ${offerId}
+        AND driver_id = ${driver.id}
+        AND status = 'pending'
+        AND expires_at > NOW()
+      RETURNING ride_id;
+    `;
+
+    if (!offer) {
+      return Response.json(
+        { error: "This offer is no longer available" },
+        { status: 409 },
+      );
+    }
+
+    const [ride] = await sql`
+      UPDATE rides
+      SET
+        status = 'accepted',
+        driver_id = ${driver.id},
+        accepted_at = NOW(),
+        updated_at = NOW()
+      WHERE id = ${offer.ride_id} AND status = 'requested'
+      RETURNING *;
+    `;
+
+    // The rider cancelled while the offer was open
+    if (!ride) {
+      await sql`
+        UPDATE ride_offers SET status = 'cancelled' WHERE id = ${offerId};
+      `;
+      return Response.json(
+        { error: "This ride has been cancelled" },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({ data: ride });
+  } catch (error) {
+    console.error("Error accepting ride offer:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,45 @@
+import { neon } from "@neondatabase/serverless";
+
+import { advanceDispatch } from "@/lib/dispatch";
+import { getDriverForUser } from "@/lib/driver";
+import { withAuth } from "@/lib/session";
+
+export const POST = withAuth<{ offerId: string }>(async (request, { offerId }, { userId }) => {
+  try {
+    if (!offerId) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    const [offer] = await sql`
+      UPDATE ride_offers
+      SET status = 'declined', responded_at = NOW()
+      WHERE id = ${offerId} AND driver_id = ${driver.id} AND status = 'pending'
+      RETURNING *;
+    `;
+
+    if (!offer) {
+      return Response.json(
+        { error: "This offer is no longer available" },
+        { status: 409 },
+      );
+    }
+
+    // Move straight on to the next driver rather than waiting for the timer
+    await advanceDispatch(sql, offer.ride_id);
+
+    return Response.json({ data: offer });
+  } catch (error) {
+    console.error("Error declining ride offer:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
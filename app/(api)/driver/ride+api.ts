@@ -0,0 +1,45 @@
+import { neon } from "@neondatabase/serverless";
+
+import { DRIVER_ACTIVE_STATUSES, getDriverForUser } from "@/lib/driver";
+import { withAuth } from "@/lib/session";
+
+// The ride the driver is working on right now, if any
+export const GET = withAuth(async (request, _params, { userId }) => {
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    const [ride] = await sql`
+      SELECT
+        rides.id AS ride_id,
+        rides.origin_address,
+        rides.destination_address,
+        rides.origin_latitude::float AS origin_latitude,
+        rides.origin_longitude::float AS origin_longitude,
+        rides.destination_latitude::float AS destination_latitude,
+        rides.destination_longitude::float AS destination_longitude,
+        rides.ride_time,
+        rides.fare_price,
+        rides.status,
+        rides.accepted_at,
+        users.name AS rider_name
+      FROM rides
+      LEFT JOIN users ON users.clerk_id = rides.user_id
+      WHERE rides.driver_id = ${driver.id}
+        AND rides.status = ANY(${DRIVER_ACTIVE_STATUSES})
+      ORDER BY rides.accepted_at DESC
+      LIMIT 1;
+    `;
+
+    return Response.json({
+      data: { driver, ride: ride ?? null },
+    });
+  } catch (error) {
+    console.error("Error fetching driver ride:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
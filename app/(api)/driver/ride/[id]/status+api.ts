@@ -0,0 +1,72 @@
+import { neon } from "@neondatabase/serverless";
+
+import { DRIVER_NEXT_STATUS, getDriverForUser } from "@/lib/driver";
+import { RIDE_STATUS_TIMESTAMP_COLUMNS, isRideStatus } from "@/lib/ride";
+import { withAuth } from "@/lib/session";
+
+// Moves the driver's ride one step along: on the way, arrived, started,
+// completed
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  try {
+    const { status } = await request.json();
+
+    if (!id || !status) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (!isRideStatus(status)) {
+      return Response.json(
+        { error: `Unknown ride status: ${status}` },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    const [ride] = await sql`
+      SELECT status FROM rides WHERE id = ${id} AND driver_id = ${driver.id};
+    `;
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    if (!isRideStatus(ride.status) || DRIVER_NEXT_STATUS[ride.status] !== status) {
+      return Response.json(
+        { error: `Cannot move ride from ${ride.status} to ${status}` },
+        { status: 409 },
+      );
+    }
+
+    // Only applies if nobody changed the ride since it was read above
+    const response = await sql`
+      UPDATE rides
+      SET
+        status = ${status},
+        ${sql.unsafe(RIDE_STATUS_TIMESTAMP_COLUMNS[status])} = NOW(),
+        updated_at = NOW()
+      WHERE id = ${id} AND driver_id = ${driver.id} AND status = ${ride.status}
+      RETURNING *;
+    `;
+
+    if (response.length === 0) {
+      return Response.json(
+        { error: "Ride status changed, please retry" },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error updating ride status:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,52 @@
+import { neon } from "@neondatabase/serverless";
+
+import { advanceDispatch } from "@/lib/dispatch";
+import { getDriverForUser } from "@/lib/driver";
+import { withAuth } from "@/lib/session";
+
+export const POST = withAuth(async (request, _params, { userId }) => {
+  try {
+    const { is_online } = await request.json();
+
+    if (typeof is_online !== "boolean") {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    const [response] = await sql`
+      UPDATE drivers
+      SET is_online = ${is_online}
+      WHERE id = ${driver.id}
+      RETURNING id, is_online;
+    `;
+
+    // Anything still waiting on a driver who has gone offline will not be
+    // answered
+    if (!is_online) {
+      const dropped = await sql`
+        UPDATE ride_offers
+        SET status = 'expired', responded_at = NOW()
+        WHERE driver_id = ${driver.id} AND status = 'pending'
+        RETURNING ride_id;
+      `;
+
+      for (const offer of dropped) {
+        await advanceDispatch(sql, offer.ride_id);
+      }
+    }
+
+    return Response.json({ data: response });
+  } catch (error) {
+    console.error("Error updating driver status:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
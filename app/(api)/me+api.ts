@@ -0,0 +1,47 @@
+import { neon } from "@neondatabase/serverless";
+
+import {
+  anonymizeAccountData,
+  detachPaymentMethods,
+  hasOpenRides,
+} from "@/lib/account";
+import { recordAudit } from "@/lib/audit";
+import { withAuth } from "@/lib/session";
+import { deleteClerkUser } from "@/lib/user";
+
+// Deletes the signed-in user's account. Their data is anonymized and their
+// cards detached before the Clerk user goes, so a failure part way can be
+// retried while they can still sign in
+export const DELETE = withAuth(async (request, _params, { userId }) => {
+  const sql = neon(`${process.env.DATABASE_URL}`);
+
+  try {
+    if (await hasOpenRides(sql, userId)) {
+      return Response.json(
+        { error: "Finish or cancel your upcoming and current rides first" },
+        { status: 409 },
+      );
+    }
+
+    await recordAudit(sql, request, userId, "account.deletion_requested");
+
+    const paymentMethodsDetached = await detachPaymentMethods(sql, userId);
+    const { rides } = await anonymizeAccountData(sql, userId);
+    await deleteClerkUser(userId);
+
+    await recordAudit(sql, request, userId, "account.deleted", {
+      rides_anonymized: rides,
+      payment_methods_detached: paymentMethodsDetached,
+    });
+
+    return Response.json({ data: { deleted: true } });
+  } catch (error) {
+    console.error("Error deleting account:", error);
+    await recordAudit(sql, request, userId, "account.deletion_failed", {
+      error: (error as Error).message,
+    }).catch((auditError) =>
+      console.error("Error recording failed deletion:", auditError),
+    );
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
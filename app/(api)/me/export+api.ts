@@ -0,0 +1,60 @@
+import { neon } from "@neondatabase/serverless";
+
+import { buildAccountCsvBundle, getAccountData } from "@/lib/account";
+import { recordAudit } from "@/lib/audit";
+import { withAuth } from "@/lib/session";
+
+// Everything we hold about the signed-in user, as one JSON file or, with
+// ?format=csv, a zip of CSV files. Opened as a link, so the session token
+// may come as ?token=
+export const GET = withAuth(async (request, _params, { userId }) => {
+  const format = new URL(request.url).searchParams.get("format") ?? "json";
+
+  if (format !== "json" && format !== "csv") {
+    return Response.json(
+      { error: "Format must be json or csv" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const data = await getAccountData(sql, userId);
+
+    if (!data.profile) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await recordAudit(sql, request, userId, "account.exported", {
+      format,
+      rides: data.rides.length,
+      payments: data.payments.length,
+      ratings: data.ratings.length,
+      messages: data.messages.length,
+    });
+
+    const filename = `myride-data-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === "csv") {
+      return new Response(buildAccountCsvBundle(data), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${filename}.zip"`,
+        },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ exported_at: new Date().toISOString(), ...data }, null, 2),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${filename}.json"`,
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error exporting account data:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}, { allowQueryToken: true });
@@ -0,0 +1,74 @@
+import { neon } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { withAuth } from "@/lib/session";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// What Stripe itself recorded for a PaymentIntent, independent of our rows
+const getStripeCharge = async (paymentIntentId: string) => {
+  try {
+    const paymentIntent = await stripe.paymentIntents.retrieve(
+      paymentIntentId,
+      { expand: ["latest_charge"] },
+    );
+    const charge =
+      typeof paymentIntent.latest_charge === "object"
+        ? paymentIntent.latest_charge
+        : null;
+
+    return {
+      status: paymentIntent.status,
+      amount: paymentIntent.amount,
+      amount_received: paymentIntent.amount_received,
+      amount_refunded: charge?.amount_refunded ?? 0,
+      currency: paymentIntent.currency,
+      card_brand: charge?.payment_method_details?.card?.brand ?? null,
+      card_last4: charge?.payment_method_details?.card?.last4 ?? null,
+      disputed: charge?.disputed ?? false,
+      receipt_url: charge?.receipt_url ?? null,
+      created: new Date(paymentIntent.created * 1000).toISOString(),
+    };
+  } catch (error) {
+    console.error(`Error retrieving PaymentIntent ${paymentIntentId}:`, error);
+    return null;
+  }
+};
+
+export const GET = withAuth<{ rideId: string }>(async (request, { rideId }, { userId }) => {
+  if (!rideId)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const payments = await sql`
+      SELECT *
+      FROM payments
+      WHERE ride_id = ${rideId}
+        AND (
+          user_id = ${userId} OR
+          ride_id IN (SELECT id FROM rides WHERE user_id = ${userId})
+        )
+      ORDER BY created_at ASC;
+    `;
+
+    if (payments.length === 0) {
+      return Response.json(
+        { error: "No payments found for this ride" },
+        { status: 404 },
+      );
+    }
+
+    const response = await Promise.all(
+      payments.map(async (payment) => ({
+        ...payment,
+        stripe: await getStripeCharge(payment.stripe_payment_intent_id),
+      })),
+    );
+
+    return Response.json({ data: response });
+  } catch (error) {
+    console.error("Error fetching ride payments:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,49 @@
+import { neon } from "@neondatabase/serverless";
+
+import { validatePromotion } from "@/lib/promo";
+import { signQuote, verifyQuote } from "@/lib/quote";
+import { withAuth } from "@/lib/session";
+
+// Applying a code re-signs the quote with the discount, so the PaymentIntent
+// and the ride pick it up without trusting the client's total
+export const POST = withAuth(async (request, _params, { userId }) => {
+  try {
+    const { code, quote_id } = await request.json();
+
+    if (!code || !quote_id) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const verified = verifyQuote(quote_id);
+    if ("error" in verified) {
+      return Response.json({ error: verified.error }, { status: 400 });
+    }
+    const { quote: baseQuote } = verified;
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const result = await validatePromotion(sql, {
+      code: String(code),
+      userId,
+      quote: baseQuote,
+    });
+    if ("error" in result) {
+      return Response.json({ error: result.error }, { status: 422 });
+    }
+
+    // Always discounted from the undiscounted total, so applying a second
+    // code replaces the first rather than stacking
+    const { quote_id: discountedQuoteId, quote } = signQuote({
+      ...baseQuote,
+      promotion: result.promotion,
+      amount: baseQuote.breakdown.total - result.promotion.discount_amount,
+    });
+
+    return Response.json({ data: { quote_id: discountedQuoteId, ...quote } });
+  } catch (error) {
+    console.error("Error applying promo code:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -1,9 +1,64 @@
 import { neon } from "@neondatabase/serverless";
 
-export async function GET(request: Request, { id }: { id: string }) {
+import {
+  MAX_RIDE_HISTORY_PAGE_SIZE,
+  RIDE_HISTORY_PAGE_SIZE,
+  isRideStatus,
+} from "@/lib/ride";
+import { forbidden, withAuth } from "@/lib/session";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A user's rides, newest first, a page at a time. Pass the returned
+// next_cursor as `cursor` for the next page. Optional filters: from and to
+// (inclusive YYYY-MM-DD booking dates), payment_status, status (comma
+// separated), driver_id and q, which searches both addresses
+export const GET = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
   if (!id)
     return Response.json({ error: "Missing required fields" }, { status: 400 });
 
+  if (id !== userId) return forbidden();
+
+  const { searchParams } = new URL(request.url);
+  const cursor = searchParams.get("cursor");
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const paymentStatus = searchParams.get("payment_status");
+  const driverId = searchParams.get("driver_id");
+  const query = searchParams.get("q")?.trim();
+  const statuses = searchParams.get("status")?.split(",").filter(Boolean);
+  const limit = Math.min(
+    Math.floor(Number(searchParams.get("limit")) || RIDE_HISTORY_PAGE_SIZE),
+    MAX_RIDE_HISTORY_PAGE_SIZE,
+  );
+
+  if (
+    (cursor && !/^\d+$/.test(cursor)) ||
+    (driverId && !/^\d+$/.test(driverId)) ||
+    limit < 1
+  ) {
+    return Response.json(
+      { error: "cursor, driver_id and limit must be positive whole numbers" },
+      { status: 400 },
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return Response.json(
+      { error: "Dates must be in YYYY-MM-DD format" },
+      { status: 400 },
+    );
+  }
+
+  if (statuses && !statuses.every(isRideStatus)) {
+    return Response.json({ error: "Unknown ride status" }, { status: 400 });
+  }
+
+  // Match the search text literally rather than as a LIKE pattern
+  const search = query
+    ? `%${query.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+    : null;
+
   try {
     const sql = neon(`${process.env.DATABASE_URL}`);
     const response = await sql`
@@ -17,10 +72,41 @@ export async function GET(request: Request, { id }: { id: string }) {
             rides.destination_longitude,
             rides.ride_time,
             rides.fare_price,
+            rides.tip_amount,
+            rides.booker_share_amount,
             rides.payment_status,
+            rides.status,
+            rides.dispatch_mode,
             rides.user_id,
+            rides.scheduled_pickup_at,
+            EXISTS (
+                SELECT 1 FROM ratings
+                WHERE ratings.ride_id = rides.id AND ratings.rater_role = 'rider'
+            ) AS has_rated_driver,
             rides.created_at,
-            json_build_object(
+            rides.accepted_at,
+            rides.driver_arriving_at,
+            rides.arrived_at,
+            rides.started_at,
+            rides.completed_at,
+            rides.cancelled_at,
+            rides.no_show_at,
+            COALESCE(
+                (
+                    SELECT json_agg(
+                        json_build_object(
+                            'address', ride_stops.address,
+                            'latitude', ride_stops.latitude::float,
+                            'longitude', ride_stops.longitude::float
+                        )
+                        ORDER BY ride_stops.stop_order
+                    )
+                    FROM ride_stops
+                    WHERE ride_stops.ride_id = rides.id
+                ),
+                '[]'::json
+            ) AS stops,
+            CASE WHEN drivers.id IS NULL THEN NULL ELSE json_build_object(
                 'driver_id', drivers.id,
                 'first_name', drivers.first_name,
                 'last_name', drivers.last_name,
@@ -28,20 +114,42 @@ export async function GET(request: Request, { id }: { id: string }) {
                 'car_image_url', drivers.car_image_url,
                 'car_seats', drivers.car_seats,
                 'rating', drivers.rating
-            ) AS driver 
+            ) END AS driver 
         FROM 
             rides
-        INNER JOIN
+        LEFT JOIN
             drivers ON rides.driver_id = drivers.id
         WHERE 
             rides.user_id = ${id}
+            AND (
+                ${cursor}::int IS NULL
+                OR (rides.created_at, rides.id) < (
+                    SELECT created_at, id FROM rides WHERE id = ${cursor}::int
+                )
+            )
+            AND (${from}::date IS NULL OR rides.created_at >= ${from}::date)
+            AND (${to}::date IS NULL OR rides.created_at < ${to}::date + 1)
+            AND (${paymentStatus}::text IS NULL OR rides.payment_status = ${paymentStatus})
+            AND (${statuses ?? null}::text[] IS NULL OR rides.status = ANY(${statuses ?? null}::text[]))
+            AND (${driverId}::int IS NULL OR rides.driver_id = ${driverId}::int)
+            AND (
+                ${search}::text IS NULL
+                OR rides.origin_address ILIKE ${search}
+                OR rides.destination_address ILIKE ${search}
+            )
         ORDER BY 
-            rides.created_at DESC;
+            rides.created_at DESC, rides.id DESC
+        LIMIT ${limit + 1};
     `;
 
-    return Response.json({ data: response });
+    // One extra row tells us whether there is another page
+    const rides = response.slice(0, limit);
+    const nextCursor =
+      response.length > limit ? String(rides[rides.length - 1].ride_id) : null;
+
+    return Response.json({ data: rides, next_cursor: nextCursor });
   } catch (error) {
     console.error("Error fetching recent rides:", error);
     return Response.json({ error: "Internal Server Error" }, { status: 500 });
   }
-}
\ No newline at end of file
+});
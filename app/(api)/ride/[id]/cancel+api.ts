@@ -0,0 +1,170 @@
+import { neon, NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { calculateCancellationFee } from "@/lib/cancellation";
+import {
+  PaidRide,
+  capOutcomeToPayments,
+  refundRidePayments,
+} from "@/lib/refunds";
+import { canTransitionRide, isRideStatus } from "@/lib/ride";
+import { withAuth } from "@/lib/session";
+import { RideStatus } from "@/types/type";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+interface CancellableRide extends PaidRide {
+  status: RideStatus;
+  fare_price: number;
+  payment_intent_id: string | null;
+  minutes_since_booking: number;
+}
+
+// Only the rider who booked it can see or cancel a ride
+const findRide = async (
+  sql: NeonQueryFunction<false, false>,
+  id: string,
+  userId: string,
+) => {
+  const [ride] = (await sql`
+    SELECT
+      id,
+      status,
+      fare_price,
+      payment_status,
+      payment_intent_id,
+      EXTRACT(EPOCH FROM (NOW() - created_at)) / 60 AS minutes_since_booking
+    FROM rides
+    WHERE id = ${id} AND user_id = ${userId};
+  `) as CancellableRide[];
+
+  return ride;
+};
+
+const getOutcome = (
+  sql: NeonQueryFunction<false, false>,
+  ride: CancellableRide,
+) =>
+  capOutcomeToPayments(
+    sql,
+    ride,
+    calculateCancellationFee({
+      status: ride.status,
+      farePrice: ride.fare_price,
+      minutesSinceBooking: Number(ride.minutes_since_booking),
+    }),
+  );
+
+const canBeCancelled = (status: string) =>
+  isRideStatus(status) && canTransitionRide(status, "cancelled_by_rider");
+
+export const GET = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  if (!id)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const ride = await findRide(sql, id, userId);
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    if (!canBeCancelled(ride.status)) {
+      return Response.json(
+        { error: `A ride that is ${ride.status} cannot be cancelled` },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({
+      data: { fare_price: ride.fare_price, ...(await getOutcome(sql, ride)) },
+    });
+  } catch (error) {
+    console.error("Error previewing ride cancellation:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
+
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  if (!id)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const { reason } = await request.json().catch(() => ({}));
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const ride = await findRide(sql, id, userId);
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    if (!canBeCancelled(ride.status)) {
+      return Response.json(
+        { error: `A ride that is ${ride.status} cannot be cancelled` },
+        { status: 409 },
+      );
+    }
+
+    const outcome = await getOutcome(sql, ride);
+
+    // Claim the cancellation first so two requests cannot both refund
+    const claimed = await sql`
+      UPDATE rides
+      SET
+        status = 'cancelled_by_rider',
+        cancelled_at = NOW(),
+        cancellation_reason = ${reason ?? null},
+        cancellation_fee = ${outcome.cancellation_fee},
+        refund_amount = ${outcome.refund_amount},
+        updated_at = NOW()
+      WHERE id = ${id} AND status = ${ride.status}
+      RETURNING id;
+    `;
+
+    if (claimed.length === 0) {
+      return Response.json(
+        { error: "Ride status changed, please retry" },
+        { status: 409 },
+      );
+    }
+
+    let paymentStatus = ride.payment_status;
+    let refundId: string | null = null;
+
+    // A payment still being confirmed is stopped so it cannot go through
+    // for a cancelled ride. If it already has, the webhook refunds it
+    if (ride.payment_status === "pending" && ride.payment_intent_id) {
+      try {
+        await stripe.paymentIntents.cancel(ride.payment_intent_id);
+        paymentStatus = "failed";
+      } catch (cancelError) {
+        console.error("Error cancelling pending payment:", cancelError);
+      }
+    }
+
+    if (outcome.refund_amount > 0) {
+      ({ paymentStatus, refundId } = await refundRidePayments(
+        sql,
+        id,
+        outcome.rule,
+        outcome.refund_amount,
+      ));
+    }
+
+    const response = await sql`
+      UPDATE rides
+      SET
+        payment_status = ${paymentStatus},
+        stripe_refund_id = ${refundId},
+        updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *;
+    `;
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error cancelling ride:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
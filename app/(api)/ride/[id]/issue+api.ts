@@ -0,0 +1,61 @@
+import { neon } from "@neondatabase/serverless";
+
+import {
+  MAX_RIDE_ISSUE_DETAILS_LENGTH,
+  RIDE_ISSUE_CATEGORIES,
+  isRideIssueCategory,
+} from "@/lib/ride";
+import { withAuth } from "@/lib/session";
+
+// A rider reports a problem with one of their rides for support to follow up
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  try {
+    const { category, details } = await request.json();
+
+    if (!id || !category) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (!isRideIssueCategory(category)) {
+      return Response.json(
+        {
+          error: `Category must be one of: ${Object.keys(RIDE_ISSUE_CATEGORIES).join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const text = typeof details === "string" ? details.trim() : "";
+    if (text.length > MAX_RIDE_ISSUE_DETAILS_LENGTH) {
+      return Response.json(
+        {
+          error: `Details can be at most ${MAX_RIDE_ISSUE_DETAILS_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT id FROM rides WHERE id = ${id} AND user_id = ${userId};
+    `;
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    const [issue] = await sql`
+      INSERT INTO ride_issues (ride_id, user_id, category, details)
+      VALUES (${ride.id}, ${userId}, ${category}, ${text || null})
+      RETURNING *;
+    `;
+
+    return Response.json({ data: issue }, { status: 201 });
+  } catch (error) {
+    console.error("Error reporting ride issue:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,167 @@
+import { neon } from "@neondatabase/serverless";
+
+import {
+  MINIMUM_SHARE,
+  getSplitRemaining,
+  getUserEmail,
+  isSplitOpen,
+  isValidEmail,
+  normalizeEmail,
+} from "@/lib/split";
+import { withAuth } from "@/lib/session";
+
+// Visible to the booker and to anyone invited to share the ride
+export const GET = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  if (!id)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT
+        id,
+        user_id,
+        origin_address,
+        destination_address,
+        fare_price,
+        booker_share_amount,
+        payment_status,
+        status
+      FROM rides
+      WHERE id = ${id} AND booker_share_amount IS NOT NULL;
+    `;
+
+    if (!ride) {
+      return Response.json({ error: "Split ride not found" }, { status: 404 });
+    }
+
+    const participants = await sql`
+      SELECT
+        id,
+        ride_id,
+        email,
+        user_id,
+        share_amount,
+        status,
+        payment_intent_id,
+        invited_at,
+        responded_at,
+        paid_at
+      FROM ride_participants
+      WHERE ride_id = ${id}
+      ORDER BY invited_at ASC, id ASC;
+    `;
+
+    const email = await getUserEmail(sql, userId);
+    const isBooker = ride.user_id === userId;
+    const isParticipant = participants.some(
+      (participant) =>
+        participant.user_id === userId || (email && participant.email === email),
+    );
+
+    if (!isBooker && !isParticipant) {
+      return Response.json({ error: "Split ride not found" }, { status: 404 });
+    }
+
+    return Response.json({
+      data: {
+        ride,
+        participants,
+        remaining: await getSplitRemaining(sql, id),
+        is_booker: isBooker,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching ride participants:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
+
+// Lets the booker hand a declined share, or any unassigned part of the
+// fare, to someone else
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  if (!id)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const { email, share_amount } = await request.json();
+
+    if (!email || share_amount === undefined) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidEmail(email)) {
+      return Response.json({ error: "Invalid email" }, { status: 400 });
+    }
+
+    const shareAmount = Number(share_amount);
+    if (!Number.isInteger(shareAmount) || shareAmount < MINIMUM_SHARE) {
+      return Response.json(
+        { error: "Each share must be at least $0.50" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT
+        rides.id,
+        rides.user_id,
+        rides.status,
+        rides.payment_intent_id,
+        rides.fare_price - rides.booker_share_amount - COALESCE(
+          (SELECT SUM(share_amount) FROM ride_participants
+           WHERE ride_id = rides.id AND status IN ('invited', 'accepted', 'paid')),
+          0
+        ) AS unassigned
+      FROM rides
+      WHERE rides.id = ${id} AND rides.booker_share_amount IS NOT NULL;
+    `;
+
+    if (!ride || ride.user_id !== userId) {
+      return Response.json({ error: "Split ride not found" }, { status: 404 });
+    }
+
+    if (!isSplitOpen(ride.status)) {
+      return Response.json(
+        { error: `A ride that is ${ride.status} cannot be split` },
+        { status: 409 },
+      );
+    }
+
+    if (shareAmount > Number(ride.unassigned)) {
+      return Response.json(
+        { error: "That share is more than is left unassigned" },
+        { status: 409 },
+      );
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    const response = await sql`
+      INSERT INTO ride_participants (ride_id, booking_payment_intent_id, email, share_amount)
+      SELECT ${id}, ${ride.payment_intent_id}, ${normalizedEmail}, ${shareAmount}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM ride_participants
+        WHERE ride_id = ${id}
+          AND email = ${normalizedEmail}
+          AND status IN ('invited', 'accepted', 'paid')
+      )
+      RETURNING *;
+    `;
+
+    if (response.length === 0) {
+      return Response.json(
+        { error: "This person is already sharing the ride" },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({ data: response[0] }, { status: 201 });
+  } catch (error) {
+    console.error("Error inviting ride participant:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,60 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getUserEmail, isSplitOpen } from "@/lib/split";
+import { withAuth } from "@/lib/session";
+
+export const POST = withAuth<{ id: string; participantId: string }>(async (request, { id, participantId }, { userId }) => {
+  try {
+    if (!id || !participantId) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const email = await getUserEmail(sql, userId);
+    const [participant] = await sql`
+      SELECT ride_participants.status, rides.status AS ride_status
+      FROM ride_participants
+      INNER JOIN rides ON rides.id = ride_participants.ride_id
+      WHERE ride_participants.id = ${participantId}
+        AND ride_participants.ride_id = ${id}
+        AND ride_participants.email = ${email};
+    `;
+
+    if (!participant) {
+      return Response.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    if (!isSplitOpen(participant.ride_status)) {
+      return Response.json(
+        { error: `A ride that is ${participant.ride_status} cannot be shared` },
+        { status: 409 },
+      );
+    }
+
+    const response = await sql`
+      UPDATE ride_participants
+      SET
+        status = 'accepted',
+        user_id = ${userId},
+        responded_at = NOW(),
+        updated_at = NOW()
+      WHERE id = ${participantId} AND status = 'invited'
+      RETURNING *;
+    `;
+
+    if (response.length === 0) {
+      return Response.json(
+        { error: `This invitation has already been ${participant.status}` },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error accepting split invitation:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,53 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getUserEmail } from "@/lib/split";
+import { withAuth } from "@/lib/session";
+
+// A declined share goes back to the booker to re-invite or cover
+export const POST = withAuth<{ id: string; participantId: string }>(async (request, { id, participantId }, { userId }) => {
+  try {
+    if (!id || !participantId) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const email = await getUserEmail(sql, userId);
+    const [participant] = await sql`
+      SELECT status
+      FROM ride_participants
+      WHERE id = ${participantId}
+        AND ride_id = ${id}
+        AND email = ${email};
+    `;
+
+    if (!participant) {
+      return Response.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    const response = await sql`
+      UPDATE ride_participants
+      SET
+        status = 'declined',
+        user_id = ${userId},
+        responded_at = NOW(),
+        updated_at = NOW()
+      WHERE id = ${participantId} AND status IN ('invited', 'accepted')
+      RETURNING *;
+    `;
+
+    if (response.length === 0) {
+      return Response.json(
+        { error: `This share has already been ${participant.status}` },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error declining split invitation:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,171 @@
+import { neon } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { getStripeCustomerId } from "@/lib/customer";
+import { getUserEmail, isSplitOpen, recordSharePayment } from "@/lib/split";
+import { withAuth } from "@/lib/session";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Without payment_intent_id this starts a payment for the participant's
+// share on their own Stripe customer, for the app's payment sheet. Called
+// again with the PaymentIntent once the sheet succeeds, it records the
+// payment; the webhook does the same if the app never gets that far
+export const POST = withAuth<{ id: string; participantId: string }>(async (request, { id, participantId }, { userId }) => {
+  try {
+    const { payment_intent_id } = await request.json();
+
+    if (!id || !participantId) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const email = await getUserEmail(sql, userId);
+    const [participant] = await sql`
+      SELECT
+        ride_participants.id,
+        ride_participants.status,
+        ride_participants.share_amount,
+        rides.status AS ride_status
+      FROM ride_participants
+      INNER JOIN rides ON rides.id = ride_participants.ride_id
+      WHERE ride_participants.id = ${participantId}
+        AND ride_participants.ride_id = ${id}
+        AND ride_participants.email = ${email}
+        AND ride_participants.user_id = ${userId};
+    `;
+
+    if (!email || !participant) {
+      return Response.json({ error: "Share not found" }, { status: 404 });
+    }
+
+    if (payment_intent_id) {
+      const paymentIntent =
+        await stripe.paymentIntents.retrieve(payment_intent_id);
+
+      if (paymentIntent.metadata.participant_id !== String(participantId)) {
+        return Response.json(
+          { error: "Payment does not match this share" },
+          { status: 400 },
+        );
+      }
+
+      if (paymentIntent.status !== "succeeded") {
+        return Response.json(
+          { error: `Payment is ${paymentIntent.status}` },
+          { status: 409 },
+        );
+      }
+
+      const recorded = await recordSharePayment(
+        sql,
+        participantId,
+        paymentIntent.id,
+      );
+
+      // The booker covered this share, or the ride was called off, while the
+      // participant was paying
+      if (!recorded) {
+        await stripe.refunds.create(
+          { payment_intent: paymentIntent.id, reason: "duplicate" },
+          { idempotencyKey: `split-share-${paymentIntent.id}-refund` },
+        );
+
+        return Response.json(
+          { error: "This share no longer needed paying, your payment was refunded" },
+          { status: 409 },
+        );
+      }
+
+      await sql`
+        UPDATE payments
+        SET status = ${paymentIntent.status}, updated_at = NOW()
+        WHERE stripe_payment_intent_id = ${paymentIntent.id}
+          AND status NOT IN ('refunded', 'partially_refunded', 'refund_failed', 'disputed');
+      `;
+
+      return Response.json({ data: { status: "paid" } });
+    }
+
+    if (participant.status !== "accepted") {
+      return Response.json(
+        {
+          error:
+            participant.status === "invited"
+              ? "Accept the invitation before paying"
+              : `This share has already been ${participant.status}`,
+        },
+        { status: 409 },
+      );
+    }
+
+    if (!isSplitOpen(participant.ride_status)) {
+      return Response.json(
+        { error: `A ride that is ${participant.ride_status} cannot be paid for` },
+        { status: 409 },
+      );
+    }
+
+    const customerId = await getStripeCustomerId(sql, userId);
+    if (!customerId) {
+      return Response.json({ error: "Share not found" }, { status: 404 });
+    }
+
+    const ephemeralKey = await stripe.ephemeralKeys.create(
+      { customer: customerId },
+      { apiVersion: "2024-06-20" },
+    );
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: participant.share_amount,
+      currency: "usd",
+      customer: customerId,
+      automatic_payment_methods: {
+        enabled: true,
+        allow_redirects: "never",
+      },
+      description: `Share of ride ${id}`,
+      metadata: {
+        type: "split_share",
+        ride_id: String(id),
+        participant_id: String(participantId),
+        user_id: userId,
+      },
+    });
+
+    await sql`
+      INSERT INTO payments (
+        ride_id,
+        stripe_payment_intent_id,
+        stripe_customer_id,
+        amount,
+        currency,
+        status,
+        user_id,
+        kind
+      ) VALUES (
+        ${id},
+        ${paymentIntent.id},
+        ${customerId},
+        ${paymentIntent.amount},
+        ${paymentIntent.currency},
+        ${paymentIntent.status},
+        ${userId},
+        'split_share'
+      )
+      ON CONFLICT (stripe_payment_intent_id) DO NOTHING;
+    `;
+
+    return Response.json({
+      paymentIntent,
+      ephemeralKey,
+      customer: customerId,
+    });
+  } catch (error) {
+    console.error("Error paying split share:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,156 @@
+import { neon } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import {
+  getSplitRemaining,
+  isSplitOpen,
+  syncSplitPaymentStatus,
+} from "@/lib/split";
+import { withAuth } from "@/lib/session";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+const getId = (value: string | { id: string } | null) =>
+  typeof value === "string" ? value : (value?.id ?? null);
+
+// The booker pays whatever the other riders have not, on the card saved
+// with the booking
+export const POST = withAuth<{ id: string }>(async (_request, { id }, { userId }) => {
+  if (!id)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT id, status, user_id, payment_intent_id, payment_status
+      FROM rides
+      WHERE id = ${id} AND booker_share_amount IS NOT NULL;
+    `;
+
+    if (!ride || ride.user_id !== userId) {
+      return Response.json({ error: "Split ride not found" }, { status: 404 });
+    }
+
+    if (!isSplitOpen(ride.status)) {
+      return Response.json(
+        { error: `A ride that is ${ride.status} cannot be covered` },
+        { status: 409 },
+      );
+    }
+
+    if (ride.payment_status !== "partially_paid") {
+      return Response.json(
+        { error: `A ride that is ${ride.payment_status} has nothing to cover` },
+        { status: 409 },
+      );
+    }
+
+    const farePayment = await stripe.paymentIntents.retrieve(
+      ride.payment_intent_id,
+    );
+    const customerId = getId(farePayment.customer);
+    const paymentMethodId = getId(farePayment.payment_method);
+
+    if (!customerId || !paymentMethodId) {
+      return Response.json(
+        { error: "No saved payment method for this ride" },
+        { status: 409 },
+      );
+    }
+
+    // Claim the open shares first so participants can no longer pay them
+    await sql`
+      UPDATE ride_participants
+      SET status = 'covered', updated_at = NOW()
+      WHERE ride_id = ${id} AND status IN ('invited', 'accepted');
+    `;
+
+    const remaining = await getSplitRemaining(sql, id);
+    if (remaining <= 0) {
+      await syncSplitPaymentStatus(sql, id);
+      return Response.json(
+        { error: "This ride is already fully paid" },
+        { status: 409 },
+      );
+    }
+
+    let coverPayment: Stripe.PaymentIntent;
+    try {
+      coverPayment = await stripe.paymentIntents.create(
+        {
+          amount: remaining,
+          currency: farePayment.currency,
+          customer: customerId,
+          payment_method: paymentMethodId,
+          off_session: true,
+          confirm: true,
+          description: `Remaining fare for ride ${id}`,
+          metadata: {
+            type: "split_cover",
+            ride_id: String(id),
+            user_id: userId,
+          },
+        },
+        { idempotencyKey: `ride-${id}-split-cover-${remaining}` },
+      );
+    } catch (stripeError) {
+      console.error("Error covering split fare:", stripeError);
+      await sql`
+        UPDATE ride_participants
+        SET
+          status = CASE WHEN responded_at IS NULL THEN 'invited' ELSE 'accepted' END,
+          updated_at = NOW()
+        WHERE ride_id = ${id} AND status = 'covered';
+      `;
+
+      return Response.json(
+        {
+          error:
+            stripeError instanceof Stripe.errors.StripeCardError
+              ? stripeError.message
+              : "The remaining fare could not be charged",
+        },
+        { status: 402 },
+      );
+    }
+
+    await sql`
+      INSERT INTO payments (
+        ride_id,
+        stripe_payment_intent_id,
+        stripe_customer_id,
+        amount,
+        currency,
+        status,
+        payment_method_id,
+        user_id,
+        kind
+      ) VALUES (
+        ${id},
+        ${coverPayment.id},
+        ${customerId},
+        ${coverPayment.amount},
+        ${coverPayment.currency},
+        ${coverPayment.status},
+        ${paymentMethodId},
+        ${userId},
+        'split_cover'
+      )
+      ON CONFLICT (stripe_payment_intent_id) DO NOTHING;
+    `;
+
+    await sql`
+      UPDATE rides
+      SET booker_share_amount = booker_share_amount + ${remaining}, updated_at = NOW()
+      WHERE id = ${id};
+    `;
+    await syncSplitPaymentStatus(sql, id);
+
+    const response = await sql`SELECT * FROM rides WHERE id = ${id};`;
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error covering split fare:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
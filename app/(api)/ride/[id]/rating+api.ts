@@ -0,0 +1,101 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getDriverForUser } from "@/lib/driver";
+import {
+  MAX_RATING_COMMENT_LENGTH,
+  RATING_TAGS,
+  isValidStars,
+  recomputeDriverRating,
+} from "@/lib/rating";
+import { withAuth } from "@/lib/session";
+
+// The rider rates the driver and the driver rates the rider, once each
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  try {
+    const { stars, tags = [], comment } = await request.json();
+
+    if (!id || stars === undefined) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidStars(stars)) {
+      return Response.json(
+        { error: "Stars must be a whole number from 1 to 5" },
+        { status: 400 },
+      );
+    }
+
+    const text = typeof comment === "string" ? comment.trim() : "";
+    if (text.length > MAX_RATING_COMMENT_LENGTH) {
+      return Response.json(
+        {
+          error: `Comments can be at most ${MAX_RATING_COMMENT_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT id, status, user_id, driver_id FROM rides WHERE id = ${id};
+    `;
+
+    if (!ride || !ride.driver_id) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    let role: "rider" | "driver";
+    if (ride.user_id === userId) {
+      role = "rider";
+    } else {
+      const driver = await getDriverForUser(sql, userId);
+      if (!driver || driver.id !== ride.driver_id) {
+        return Response.json({ error: "Ride not found" }, { status: 404 });
+      }
+      role = "driver";
+    }
+
+    if (ride.status !== "completed") {
+      return Response.json(
+        { error: "Only completed rides can be rated" },
+        { status: 409 },
+      );
+    }
+
+    if (
+      !Array.isArray(tags) ||
+      tags.some((tag) => !RATING_TAGS[role].includes(tag))
+    ) {
+      return Response.json(
+        { error: `Tags must be from: ${RATING_TAGS[role].join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const [rating] = await sql`
+      INSERT INTO ratings (ride_id, rater_role, driver_id, rider_id, stars, tags, comment)
+      VALUES (${ride.id}, ${role}, ${ride.driver_id}, ${ride.user_id}, ${stars}, ${tags}, ${text || null})
+      ON CONFLICT (ride_id, rater_role) DO NOTHING
+      RETURNING *;
+    `;
+
+    if (!rating) {
+      return Response.json(
+        { error: "You have already rated this ride" },
+        { status: 409 },
+      );
+    }
+
+    if (role === "rider") {
+      await recomputeDriverRating(sql, ride.driver_id);
+    }
+
+    return Response.json({ data: rating }, { status: 201 });
+  } catch (error) {
+    console.error("Error rating ride:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
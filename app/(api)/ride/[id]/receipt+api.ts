@@ -0,0 +1,117 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getMailer } from "@/lib/mailer";
+import {
+  getReceipt,
+  renderReceiptHtml,
+  renderReceiptPdf,
+  renderReceiptText,
+} from "@/lib/receipt";
+import { withAuth } from "@/lib/session";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ?format=pdf downloads the receipt, anything else shows it as a web page.
+// Opened as a link, so the session token may come as ?token=
+export const GET = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format");
+
+  if (!id) {
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const receipt = await getReceipt(sql, id, userId);
+
+    if ("error" in receipt) {
+      return Response.json(
+        { error: receipt.error },
+        { status: receipt.status },
+      );
+    }
+
+    if (format === "pdf") {
+      return new Response(await renderReceiptPdf(receipt), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="myride-receipt-${receipt.ride_id}.pdf"`,
+        },
+      });
+    }
+
+    return new Response(renderReceiptHtml(receipt), {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Error fetching receipt:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}, { allowQueryToken: true });
+
+// Emails the receipt, with the PDF attached, to the address given or the
+// one the rider signed up with
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  try {
+    const { email } = await request.json();
+
+    if (!id) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (email !== undefined && !EMAIL_PATTERN.test(String(email))) {
+      return Response.json(
+        { error: "Enter a valid email address" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const receipt = await getReceipt(sql, id, userId);
+
+    if ("error" in receipt) {
+      return Response.json(
+        { error: receipt.error },
+        { status: receipt.status },
+      );
+    }
+
+    let to = email;
+    if (!to) {
+      const [user] = await sql`
+        SELECT email FROM users WHERE clerk_id = ${userId};
+      `;
+      to = user?.email;
+    }
+
+    if (!to) {
+      return Response.json(
+        { error: "No email address on file" },
+        { status: 400 },
+      );
+    }
+
+    await getMailer().send({
+      to,
+      subject: `Your MyRide receipt for ride #${receipt.ride_id}`,
+      html: renderReceiptHtml(receipt),
+      text: renderReceiptText(receipt),
+      attachments: [
+        {
+          filename: `myride-receipt-${receipt.ride_id}.pdf`,
+          contentType: "application/pdf",
+          content: await renderReceiptPdf(receipt),
+        },
+      ],
+    });
+
+    return Response.json({ data: { sent_to: to } });
+  } catch (error) {
+    console.error("Error emailing receipt:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,54 @@
+import { neon } from "@neondatabase/serverless";
+
+import { validatePickupTime } from "@/lib/schedule";
+import { withAuth } from "@/lib/session";
+
+export const PATCH = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  try {
+    const { scheduled_pickup_at } = await request.json();
+
+    if (!id || !scheduled_pickup_at) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const result = validatePickupTime(scheduled_pickup_at);
+    if ("error" in result) {
+      return Response.json({ error: result.error }, { status: 400 });
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+
+    const [ride] = await sql`
+      SELECT status FROM rides WHERE id = ${id} AND user_id = ${userId};
+    `;
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    // Once dispatch has started the pickup time is no longer the rider's to move
+    const response = await sql`
+      UPDATE rides
+      SET
+        scheduled_pickup_at = ${result.pickupAt.toISOString()},
+        updated_at = NOW()
+      WHERE id = ${id} AND status = 'scheduled'
+      RETURNING *;
+    `;
+
+    if (response.length === 0) {
+      return Response.json(
+        { error: `A ride that is ${ride.status} cannot be rescheduled` },
+        { status: 409 },
+      );
+    }
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error rescheduling ride:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,129 @@
+import { neon } from "@neondatabase/serverless";
+
+import { calculateDriverCancellationFee } from "@/lib/cancellation";
+import { getDriverForUser } from "@/lib/driver";
+import {
+  PaidRide,
+  capOutcomeToPayments,
+  refundRidePayments,
+} from "@/lib/refunds";
+import {
+  RIDE_STATUS_TIMESTAMP_COLUMNS,
+  canTransitionRide,
+  isRideStatus,
+} from "@/lib/ride";
+import { withAuth } from "@/lib/session";
+
+// The ways a driver can end a ride before it starts. Riders cancel through
+// /(api)/ride/[id]/cancel, and the steps of a ride go through
+// /(api)/driver/ride/[id]/status
+const DRIVER_END_STATUSES = ["cancelled_by_driver", "no_show"] as const;
+
+type DriverEndStatus = (typeof DRIVER_END_STATUSES)[number];
+
+interface DriverRide extends PaidRide {
+  status: string;
+  fare_price: number;
+}
+
+const isDriverEndStatus = (value: unknown): value is DriverEndStatus =>
+  DRIVER_END_STATUSES.includes(value as DriverEndStatus);
+
+export const PATCH = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  try {
+    const { status, reason } = await request.json();
+
+    if (!id || !status) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    if (!isDriverEndStatus(status)) {
+      return Response.json(
+        { error: `Status must be one of ${DRIVER_END_STATUSES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const driver = await getDriverForUser(sql, userId);
+
+    if (!driver) {
+      return Response.json({ error: "Not a driver" }, { status: 403 });
+    }
+
+    const [ride] = (await sql`
+      SELECT id, status, fare_price, payment_status
+      FROM rides
+      WHERE id = ${id} AND driver_id = ${driver.id};
+    `) as DriverRide[];
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    if (!isRideStatus(ride.status) || !canTransitionRide(ride.status, status)) {
+      return Response.json(
+        { error: `Cannot move ride from ${ride.status} to ${status}` },
+        { status: 409 },
+      );
+    }
+
+    const outcome = await capOutcomeToPayments(
+      sql,
+      ride,
+      calculateDriverCancellationFee({ status, farePrice: ride.fare_price }),
+    );
+
+    // Claimed before refunding, and only if nobody changed the ride since it
+    // was read above, so two requests cannot both refund
+    const claimed = await sql`
+      UPDATE rides
+      SET
+        status = ${status},
+        ${sql.unsafe(RIDE_STATUS_TIMESTAMP_COLUMNS[status])} = NOW(),
+        cancellation_reason = ${reason ?? null},
+        cancellation_fee = ${outcome.cancellation_fee},
+        refund_amount = ${outcome.refund_amount},
+        updated_at = NOW()
+      WHERE id = ${id} AND driver_id = ${driver.id} AND status = ${ride.status}
+      RETURNING id;
+    `;
+
+    if (claimed.length === 0) {
+      return Response.json(
+        { error: "Ride status changed, please retry" },
+        { status: 409 },
+      );
+    }
+
+    let paymentStatus = ride.payment_status;
+    let refundId: string | null = null;
+
+    if (outcome.refund_amount > 0) {
+      ({ paymentStatus, refundId } = await refundRidePayments(
+        sql,
+        id,
+        outcome.rule,
+        outcome.refund_amount,
+      ));
+    }
+
+    const response = await sql`
+      UPDATE rides
+      SET
+        payment_status = ${paymentStatus},
+        stripe_refund_id = ${refundId},
+        updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *;
+    `;
+
+    return Response.json({ data: response[0] });
+  } catch (error) {
+    console.error("Error updating ride status:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,98 @@
+import { neon } from "@neondatabase/serverless";
+
+import { isRideFinished } from "@/lib/ride";
+import { waitForTrackingChange } from "@/lib/tracking";
+import { withAuth } from "@/lib/session";
+
+// Clients that accept text/event-stream get Server-Sent Events until the
+// ride is over. Everyone else, including the app since React Native's fetch
+// cannot read a streamed body, long-polls by passing back the last version.
+// EventSource can't send headers, so the session token may come as ?token=
+export const GET = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  const { searchParams } = new URL(request.url);
+  const since = searchParams.get("since");
+
+  if (!id) {
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+
+    if (!request.headers.get("accept")?.includes("text/event-stream")) {
+      const tracking = await waitForTrackingChange(
+        sql,
+        id,
+        userId,
+        since,
+        request.signal,
+      );
+
+      if (!tracking) {
+        return Response.json({ error: "Ride not found" }, { status: 404 });
+      }
+
+      return Response.json({ data: tracking });
+    }
+
+    // Checked up front so a missing ride is a plain 404 rather than a stream
+    const first = await waitForTrackingChange(sql, id, userId, null);
+
+    if (!first) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        let tracking = first;
+
+        try {
+          controller.enqueue(
+            encoder.encode(`event: update\ndata: ${JSON.stringify(tracking)}\n\n`),
+          );
+
+          while (!isRideFinished(tracking.status) && !request.signal.aborted) {
+            const next = await waitForTrackingChange(
+              sql,
+              id,
+              userId,
+              tracking.version,
+              request.signal,
+            );
+
+            if (!next) break;
+
+            // Nothing changed before the timeout; keeps proxies from
+            // closing an idle connection
+            if (next.version === tracking.version) {
+              controller.enqueue(encoder.encode(": keep-alive\n\n"));
+              continue;
+            }
+
+            tracking = next;
+            controller.enqueue(
+              encoder.encode(`event: update\ndata: ${JSON.stringify(tracking)}\n\n`),
+            );
+          }
+        } catch (error) {
+          console.error("Error streaming ride tracking:", error);
+        }
+
+        // A stream the client already dropped cannot be closed again
+        if (!request.signal.aborted) controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error tracking ride:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}, { allowQueryToken: true });
@@ -0,0 +1,194 @@
+import { neon } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import {
+  TIP_PERCENTAGES,
+  calculatePercentageTip,
+  isValidTipAmount,
+} from "@/lib/tip";
+import { withAuth } from "@/lib/session";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+const getId = (value: string | { id: string } | null) =>
+  typeof value === "string" ? value : (value?.id ?? null);
+
+export const POST = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  if (!id)
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+
+  try {
+    const { percentage, amount } = await request.json();
+
+    if (percentage === undefined && amount === undefined) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT id, status, fare_price, driver_id, user_id, payment_intent_id, tip_amount
+      FROM rides
+      WHERE id = ${id};
+    `;
+
+    if (!ride || ride.user_id !== userId) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    if (ride.status !== "completed") {
+      return Response.json(
+        { error: "Only completed rides can be tipped" },
+        { status: 409 },
+      );
+    }
+
+    if (ride.tip_amount > 0) {
+      return Response.json(
+        { error: "This ride has already been tipped" },
+        { status: 409 },
+      );
+    }
+
+    if (percentage !== undefined && !TIP_PERCENTAGES.includes(percentage)) {
+      return Response.json(
+        { error: `Tip percentage must be one of ${TIP_PERCENTAGES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const tipAmount =
+      percentage !== undefined
+        ? calculatePercentageTip(ride.fare_price, percentage)
+        : Number(amount);
+
+    if (!isValidTipAmount(tipAmount)) {
+      return Response.json({ error: "Invalid tip amount" }, { status: 400 });
+    }
+
+    if (!ride.payment_intent_id) {
+      return Response.json(
+        { error: "No saved payment method for this ride" },
+        { status: 409 },
+      );
+    }
+
+    // The ride's own PaymentIntent saved the card for off-session use
+    const farePayment = await stripe.paymentIntents.retrieve(
+      ride.payment_intent_id,
+    );
+    const customerId = getId(farePayment.customer);
+    const paymentMethodId = getId(farePayment.payment_method);
+
+    if (!customerId || !paymentMethodId) {
+      return Response.json(
+        { error: "No saved payment method for this ride" },
+        { status: 409 },
+      );
+    }
+
+    // Claim the tip first so two requests cannot both charge. Each claim is
+    // a new attempt, so a declined card can be retried under a fresh
+    // idempotency key instead of Stripe replaying the decline
+    const [claimed] = await sql`
+      UPDATE rides
+      SET
+        tip_amount = ${tipAmount},
+        tip_attempts = tip_attempts + 1,
+        updated_at = NOW()
+      WHERE id = ${id} AND tip_amount = 0
+      RETURNING tip_attempts;
+    `;
+
+    if (!claimed) {
+      return Response.json(
+        { error: "This ride has already been tipped" },
+        { status: 409 },
+      );
+    }
+
+    let tipPayment: Stripe.PaymentIntent;
+    try {
+      tipPayment = await stripe.paymentIntents.create(
+        {
+          amount: tipAmount,
+          currency: farePayment.currency,
+          customer: customerId,
+          payment_method: paymentMethodId,
+          off_session: true,
+          confirm: true,
+          description: `Tip for ride ${id}`,
+          metadata: {
+            type: "tip",
+            ride_id: String(id),
+            user_id: userId,
+          },
+        },
+        { idempotencyKey: `ride-${id}-tip-${claimed.tip_attempts}` },
+      );
+    } catch (stripeError) {
+      console.error("Error charging tip:", stripeError);
+      await sql`
+        UPDATE rides SET tip_amount = 0, updated_at = NOW() WHERE id = ${id};
+      `;
+
+      return Response.json(
+        {
+          error:
+            stripeError instanceof Stripe.errors.StripeCardError
+              ? stripeError.message
+              : "The tip could not be charged",
+        },
+        { status: 402 },
+      );
+    }
+
+    await sql`
+      INSERT INTO payments (
+        ride_id,
+        stripe_payment_intent_id,
+        stripe_customer_id,
+        amount,
+        currency,
+        status,
+        payment_method_id,
+        user_id,
+        kind
+      ) VALUES (
+        ${id},
+        ${tipPayment.id},
+        ${customerId},
+        ${tipPayment.amount},
+        ${tipPayment.currency},
+        ${tipPayment.status},
+        ${paymentMethodId},
+        ${userId},
+        'tip'
+      )
+      ON CONFLICT (stripe_payment_intent_id) DO NOTHING;
+    `;
+
+    await sql`
+      INSERT INTO driver_earnings (driver_id, ride_id, kind, amount, stripe_payment_intent_id)
+      VALUES (${ride.driver_id}, ${id}, 'tip', ${tipAmount}, ${tipPayment.id})
+      ON CONFLICT (stripe_payment_intent_id) DO NOTHING;
+    `;
+
+    const response = await sql`
+      UPDATE rides
+      SET
+        tip_payment_intent_id = ${tipPayment.id},
+        tipped_at = NOW(),
+        updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *;
+    `;
+
+    return Response.json({ data: response[0] }, { status: 201 });
+  } catch (error) {
+    console.error("Error tipping ride:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -1,34 +1,37 @@
 import { neon } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
 
-export async function POST(request: Request) {
+import { advanceDispatch, isDispatchMode } from "@/lib/dispatch";
+import { rejectOverusedPromotion } from "@/lib/promo";
+import { verifyQuote } from "@/lib/quote";
+import { linkSplitParticipants } from "@/lib/split";
+import { saveRideStops } from "@/lib/stops";
+import { withAuth } from "@/lib/session";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Payments that can no longer go through without the rider starting again
+const FAILED_PAYMENT_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  "requires_payment_method",
+  "canceled",
+];
+
+export const POST = withAuth(async (request, _params, { userId }) => {
   try {
     const body = await request.json();
     const {
       origin_address,
       destination_address,
-      origin_latitude,
-      origin_longitude,
-      destination_latitude,
-      destination_longitude,
-      ride_time,
-      fare_price,
-      payment_status,
-      driver_id,
-      user_id,
+      quote_id,
+      payment_intent_id,
+      dispatch_mode,
     } = body;
 
     if (
       !origin_address ||
       !destination_address ||
-      !origin_latitude ||
-      !origin_longitude ||
-      !destination_latitude ||
-      !destination_longitude ||
-      !ride_time ||
-      !fare_price ||
-      !payment_status ||
-      !driver_id ||
-      !user_id
+      !quote_id ||
+      !payment_intent_id
     ) {
       return Response.json(
         { error: "Missing required fields" },
@@ -36,6 +39,58 @@ export async function POST(request: Request) {
       );
     }
 
+    // A quote may run out while the rider is on the payment sheet, so an
+    // expired one is still honoured if it was paid for in time
+    const verified = verifyQuote(quote_id, { ignoreExpiry: true });
+    if ("error" in verified) {
+      return Response.json({ error: verified.error }, { status: 400 });
+    }
+    const { quote } = verified;
+
+    // Trust Stripe rather than the client about whether the ride was paid for
+    const paymentIntent = await stripe.paymentIntents.retrieve(payment_intent_id);
+
+    // A split fare charges the booker only their share of the quote
+    const bookerShare = paymentIntent.metadata.booker_share
+      ? Number(paymentIntent.metadata.booker_share)
+      : null;
+
+    if (
+      paymentIntent.metadata.quote_nonce !== quote.nonce ||
+      paymentIntent.metadata.user_id !== userId ||
+      paymentIntent.amount !== (bookerShare ?? quote.amount)
+    ) {
+      return Response.json(
+        { error: "Payment does not match the quote" },
+        { status: 400 },
+      );
+    }
+
+    if (FAILED_PAYMENT_INTENT_STATUSES.includes(paymentIntent.status)) {
+      return Response.json(
+        { error: "Payment has not gone through" },
+        { status: 402 },
+      );
+    }
+
+    // A payment still being confirmed leaves the ride pending, and no driver
+    // is looked for until the webhook reports it succeeded
+    const paymentStatus =
+      paymentIntent.status !== "succeeded"
+        ? "pending"
+        : bookerShare !== null
+          ? "partially_paid"
+          : "paid";
+
+    // The pickup time was checked when the payment was created, and may
+    // have drawn closer than the minimum lead time since
+    const scheduledPickupAt = paymentIntent.metadata.scheduled_pickup_at || null;
+    const dispatchMode = isDispatchMode(paymentIntent.metadata.dispatch_mode)
+      ? paymentIntent.metadata.dispatch_mode
+      : isDispatchMode(dispatch_mode)
+        ? dispatch_mode
+        : "auto";
+
     const sql = neon(`${process.env.DATABASE_URL}`);
 
     const response = await sql`
@@ -50,26 +105,76 @@ export async function POST(request: Request) {
           fare_price, 
           payment_status, 
           driver_id, 
-          user_id
+          user_id,
+          payment_intent_id,
+          surge_multiplier,
+          promotion_id,
+          discount_amount,
+          booker_share_amount,
+          scheduled_pickup_at,
+          status,
+          dispatch_mode,
+          vehicle_class,
+          fare_breakdown
       ) VALUES (
           ${origin_address},
           ${destination_address},
-          ${origin_latitude},
-          ${origin_longitude},
-          ${destination_latitude},
-          ${destination_longitude},
-          ${ride_time},
-          ${fare_price},
-          ${payment_status},
-          ${driver_id},
-          ${user_id}
+          ${quote.origin_latitude},
+          ${quote.origin_longitude},
+          ${quote.destination_latitude},
+          ${quote.destination_longitude},
+          ${quote.ride_time},
+          ${quote.amount},
+          ${paymentStatus},
+          ${dispatchMode === "rider" ? quote.driver_id : null},
+          ${userId},
+          ${payment_intent_id},
+          ${quote.breakdown?.surge_multiplier ?? 1},
+          ${quote.promotion?.id ?? null},
+          ${quote.promotion?.discount_amount ?? 0},
+          ${bookerShare},
+          ${scheduledPickupAt},
+          ${scheduledPickupAt ? "scheduled" : "requested"},
+          ${dispatchMode},
+          ${quote.breakdown?.vehicle_class ?? null},
+          ${quote.breakdown ? JSON.stringify(quote.breakdown) : null}::jsonb
       )
+      ON CONFLICT (payment_intent_id) DO UPDATE
+      SET updated_at = NOW()
       RETURNING *;
     `;
 
+    if (quote.promotion && (await rejectOverusedPromotion(sql, response[0].id))) {
+      return Response.json(
+        { error: "You have already used this promo code, so the ride was refunded" },
+        { status: 409 },
+      );
+    }
+
+    await saveRideStops(sql, response[0].id, quote.stops ?? []);
+
+    await sql`
+      UPDATE payments
+      SET
+        ride_id = ${response[0].id},
+        status = CASE
+          WHEN status IN ('refunded', 'partially_refunded', 'refund_failed', 'disputed')
+            THEN status
+          ELSE ${paymentIntent.status}
+        END,
+        updated_at = NOW()
+      WHERE stripe_payment_intent_id = ${payment_intent_id};
+    `;
+
+    await linkSplitParticipants(sql, response[0].id, payment_intent_id);
+
+    // Automatic rides go to the best driver nearby; rider-chosen rides only
+    // to the driver the rider picked. Unpaid rides wait for the webhook
+    await advanceDispatch(sql, response[0].id);
+
     return Response.json({ data: response[0] }, { status: 201 });
   } catch (error) {
     console.error("Error inserting data into recent_rides:", error);
     return Response.json({ error: "Internal Server Error" }, { status: 500 });
   }
-}
+});
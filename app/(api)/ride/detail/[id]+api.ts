@@ -0,0 +1,122 @@
+import { neon } from "@neondatabase/serverless";
+
+import { fetchRouteGeometry } from "@/lib/map";
+import { withAuth } from "@/lib/session";
+
+// One ride, only for the rider who booked it. The driving route is looked
+// up the first time and kept on the ride, so replays don't ask Geoapify again
+export const GET = withAuth<{ id: string }>(async (request, { id }, { userId }) => {
+  if (!id) {
+    return Response.json({ error: "Missing required fields" }, { status: 400 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [ride] = await sql`
+      SELECT
+          rides.id as ride_id,
+          rides.origin_address,
+          rides.destination_address,
+          rides.origin_latitude::float,
+          rides.origin_longitude::float,
+          rides.destination_latitude::float,
+          rides.destination_longitude::float,
+          rides.ride_time,
+          rides.fare_price,
+          rides.tip_amount,
+          rides.discount_amount,
+          rides.promotion_id,
+          promotions.code AS promotion_code,
+          rides.booker_share_amount,
+          rides.payment_status,
+          rides.status,
+          rides.dispatch_mode,
+          rides.vehicle_class,
+          rides.fare_breakdown,
+          rides.route_polyline,
+          rides.user_id,
+          rides.scheduled_pickup_at,
+          rides.cancellation_reason,
+          rides.cancellation_fee,
+          rides.refund_amount,
+          EXISTS (
+              SELECT 1 FROM ratings
+              WHERE ratings.ride_id = rides.id AND ratings.rater_role = 'rider'
+          ) AS has_rated_driver,
+          rides.created_at,
+          rides.requested_at,
+          rides.accepted_at,
+          rides.driver_arriving_at,
+          rides.arrived_at,
+          rides.started_at,
+          rides.completed_at,
+          rides.cancelled_at,
+          rides.no_show_at,
+          COALESCE(
+              (
+                  SELECT json_agg(
+                      json_build_object(
+                          'address', ride_stops.address,
+                          'latitude', ride_stops.latitude::float,
+                          'longitude', ride_stops.longitude::float
+                      )
+                      ORDER BY ride_stops.stop_order
+                  )
+                  FROM ride_stops
+                  WHERE ride_stops.ride_id = rides.id
+              ),
+              '[]'::json
+          ) AS stops,
+          CASE WHEN drivers.id IS NULL THEN NULL ELSE json_build_object(
+              'driver_id', drivers.id,
+              'first_name', drivers.first_name,
+              'last_name', drivers.last_name,
+              'profile_image_url', drivers.profile_image_url,
+              'car_image_url', drivers.car_image_url,
+              'car_seats', drivers.car_seats,
+              'rating', drivers.rating,
+              'vehicle_class', drivers.vehicle_class
+          ) END AS driver
+      FROM rides
+      LEFT JOIN drivers ON rides.driver_id = drivers.id
+      LEFT JOIN promotions ON rides.promotion_id = promotions.id
+      WHERE rides.id = ${id} AND rides.user_id = ${userId};
+    `;
+
+    if (!ride) {
+      return Response.json({ error: "Ride not found" }, { status: 404 });
+    }
+
+    const { route_polyline, ...detail } = ride;
+    const waypoints = [
+      { latitude: ride.origin_latitude, longitude: ride.origin_longitude },
+      ...ride.stops,
+      { latitude: ride.destination_latitude, longitude: ride.destination_longitude },
+    ];
+
+    let route = route_polyline;
+    if (!route) {
+      route = await fetchRouteGeometry(...waypoints);
+
+      if (route) {
+        await sql`
+          UPDATE rides
+          SET route_polyline = ${JSON.stringify(route)}::jsonb
+          WHERE id = ${ride.ride_id};
+        `;
+      }
+    }
+
+    return Response.json({
+      data: {
+        ...detail,
+        route:
+          route ??
+          waypoints.map(({ latitude, longitude }) => ({ latitude, longitude })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching ride detail:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,41 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getUserEmail } from "@/lib/split";
+import { withAuth } from "@/lib/session";
+
+// Split fare invitations sent to the signed-in user that still need a
+// response or a payment
+export const GET = withAuth(async (_request, _params, { userId }) => {
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const email = await getUserEmail(sql, userId);
+    const response = await sql`
+      SELECT
+        ride_participants.id,
+        ride_participants.ride_id,
+        ride_participants.email,
+        ride_participants.user_id,
+        ride_participants.share_amount,
+        ride_participants.status,
+        ride_participants.payment_intent_id,
+        ride_participants.invited_at,
+        ride_participants.responded_at,
+        ride_participants.paid_at,
+        rides.origin_address,
+        rides.destination_address,
+        rides.fare_price,
+        rides.created_at
+      FROM ride_participants
+      INNER JOIN rides ON rides.id = ride_participants.ride_id
+      WHERE ride_participants.email = ${email}
+        AND ride_participants.status IN ('invited', 'accepted')
+        AND rides.status NOT IN ('cancelled_by_rider', 'cancelled_by_driver', 'no_show')
+      ORDER BY ride_participants.invited_at DESC;
+    `;
+
+    return Response.json({ data: response });
+  } catch (error) {
+    console.error("Error fetching split invitations:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,96 @@
+import { neon } from "@neondatabase/serverless";
+
+import { calculateFare } from "@/lib/fare";
+import { fetchRouteSummary } from "@/lib/map";
+import { signQuote } from "@/lib/quote";
+import { parseStops } from "@/lib/stops";
+import { getSurge } from "@/lib/surge";
+import { withAuth } from "@/lib/session";
+
+export const POST = withAuth(async (request) => {
+  try {
+    const {
+      origin_latitude,
+      origin_longitude,
+      destination_latitude,
+      destination_longitude,
+      driver_id,
+      stops,
+    } = await request.json();
+
+    const coordinates = [
+      origin_latitude,
+      origin_longitude,
+      destination_latitude,
+      destination_longitude,
+    ].map(Number);
+
+    if (!driver_id || coordinates.some((value) => !Number.isFinite(value))) {
+      return Response.json(
+        { error: "Missing required fields" },
+        { status: 400 },
+      );
+    }
+
+    const [originLatitude, originLongitude, destinationLatitude, destinationLongitude] =
+      coordinates;
+
+    const parsed = parseStops(stops);
+    if ("error" in parsed) {
+      return Response.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const [driver] = await sql`
+      SELECT id, vehicle_class, latitude::float AS latitude, longitude::float AS longitude
+      FROM drivers
+      WHERE id = ${driver_id} AND is_online = true;
+    `;
+
+    if (!driver || driver.latitude === null || driver.longitude === null) {
+      return Response.json(
+        { error: "Driver is not available" },
+        { status: 404 },
+      );
+    }
+
+    const origin = { latitude: originLatitude, longitude: originLongitude };
+    const [toPickup, toDestination, surge] = await Promise.all([
+      fetchRouteSummary(
+        { latitude: driver.latitude, longitude: driver.longitude },
+        origin,
+      ),
+      fetchRouteSummary(origin, ...parsed.stops, {
+        latitude: destinationLatitude,
+        longitude: destinationLongitude,
+      }),
+      getSurge(sql, originLatitude, originLongitude),
+    ]);
+
+    const breakdown = calculateFare({
+      vehicleClass: driver.vehicle_class,
+      distanceKm: toDestination.distance / 1000,
+      durationMinutes: toDestination.time / 60,
+      surgeMultiplier: surge.multiplier,
+    });
+
+    const { quote_id, quote } = signQuote({
+      driver_id: driver.id,
+      origin_latitude: originLatitude,
+      origin_longitude: originLongitude,
+      destination_latitude: destinationLatitude,
+      destination_longitude: destinationLongitude,
+      stops: parsed.stops,
+      ride_time: breakdown.duration_minutes,
+      pickup_time: Math.round(toPickup.time / 60),
+      breakdown,
+      amount: breakdown.total,
+      currency: "usd",
+    });
+
+    return Response.json({ data: { quote_id, ...quote } }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating fare quote:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,25 @@
+import { neon } from "@neondatabase/serverless";
+
+import { dispatchDueScheduledRides } from "@/lib/dispatch";
+import { recomputeSurgeCells } from "@/lib/surge";
+
+// Called by a cron job in place of the scheduler, so it is guarded by a
+// shared secret rather than a user session. Also moves surge along
+export async function POST(request: Request) {
+  const secret = process.env.SCHEDULER_SECRET;
+
+  if (!secret || request.headers.get("x-scheduler-secret") !== secret) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const rides = await dispatchDueScheduledRides(sql);
+    await recomputeSurgeCells(sql);
+
+    return Response.json({ data: rides });
+  } catch (error) {
+    console.error("Error dispatching scheduled rides:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
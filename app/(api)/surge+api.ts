@@ -0,0 +1,32 @@
+import { neon } from "@neondatabase/serverless";
+
+import { getSurge } from "@/lib/surge";
+import { withAuth } from "@/lib/session";
+
+export const GET = withAuth(async (request) => {
+  const { searchParams } = new URL(request.url);
+  const lat = parseFloat(searchParams.get("lat") ?? "");
+  const lng = parseFloat(searchParams.get("lng") ?? "");
+
+  if (
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lng) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180
+  ) {
+    return Response.json(
+      { error: "Valid lat and lng are required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const sql = neon(`${process.env.DATABASE_URL}`);
+    const surge = await getSurge(sql, lat, lng);
+
+    return Response.json({ data: surge });
+  } catch (error) {
+    console.error("Error fetching surge multiplier:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
@@ -1,35 +1,55 @@
 import { neon } from "@neondatabase/serverless";
 
-export async function POST(request: Request) {
+import { withAuth } from "@/lib/session";
+import { getClerkUser, upsertClerkUser } from "@/lib/user";
+
+// Lets the app decide which experience to open for a signed-in user
+export const GET = withAuth(async (_request, _params, { userId }) => {
+  try {
+    const sql = neon(process.env.DATABASE_URL!);
+    const [user] = await sql`
+      SELECT id, name, email, clerk_id, role, driver_id
+      FROM users
+      WHERE clerk_id = ${userId};
+    `;
+
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return Response.json({ data: user });
+  } catch (error) {
+    console.error("Error fetching user:", error);
+    return Response.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+});
+
+// Creates the signed-in user's row straight after sign up, in case the Clerk
+// webhook has not yet. Their name and email are read from Clerk, so nobody
+// can claim an address that is not theirs
+export const POST = withAuth(async (_request, _params, { userId }) => {
   try {
     const sql = neon(process.env.DATABASE_URL!);
-    const { name, email, clerkId } = await request.json();
+    const clerkUser = await getClerkUser(userId);
+
+    if (!clerkUser) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // The Clerk webhook may already have created the row
+    const user = await upsertClerkUser(sql, clerkUser);
 
-    if (!name || !email || !clerkId) {
+    if (!user) {
       return Response.json(
-        { error: "Missing required fields" },
+        { error: "This account has no email address" },
         { status: 400 }
       );
     }
 
-    const response = await sql`
-      INSERT INTO users (
-        name, 
-        email, 
-        clerk_id
-      ) 
-      VALUES (
-        ${name}, 
-        ${email},
-        ${clerkId}
-      )
-      RETURNING *;
-    `;
-
-    return Response.json({ data: response[0] }, { status: 201 });
+    return Response.json({ data: user }, { status: 201 });
   } catch (error) {
     console.error("Error creating user:", error);
     return Response.json({ error: "Internal Server Error" }, { status: 500 });
   }
-}
+});
   
\ No newline at end of file
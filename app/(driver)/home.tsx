@@ -0,0 +1,350 @@
+import { useAuth } from "@clerk/clerk-expo";
+import * as Location from "expo-location";
+import { router } from "expo-router";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import CustomButton from "@/components/CustomButton";
+import RideOfferCard from "@/components/RideOfferCard";
+import { icons } from "@/constants";
+import { DRIVER_ACTION_LABELS, DRIVER_NEXT_STATUS } from "@/lib/driver";
+import { formatCents, getFareClass } from "@/lib/fare";
+import { authFetch, useFetch } from "@/lib/fetch";
+import { RIDE_STATUS_LABELS } from "@/lib/ride";
+import { DriverSession, RideOffer } from "@/types/type";
+
+// How often an online driver checks for offers and ride changes
+const POLL_INTERVAL_MS = 5 * 1000;
+// Location reports while online
+const LOCATION_INTERVAL_MS = 10 * 1000;
+const LOCATION_DISTANCE_METERS = 25;
+
+// Uses fetch directly so the server's reason for refusing reaches the driver
+const postJSON = async (url: string, body: Record<string, unknown>) => {
+  const response = await authFetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || "Something went wrong");
+  }
+  return result.data;
+};
+
+const DriverHome = () => {
+  const { signOut } = useAuth();
+
+  const {
+    data: session,
+    error,
+    refetch: refetchSession,
+  } = useFetch<DriverSession>("/(api)/driver/ride");
+  const { data: offers, refetch: refetchOffers } = useFetch<RideOffer[]>(
+    "/(api)/driver/offers",
+  );
+
+  const [updating, setUpdating] = useState(false);
+  const [respondingTo, setRespondingTo] = useState<number | null>(null);
+
+  const driver = session?.driver;
+  const ride = session?.ride ?? null;
+  const isOnline = driver?.is_online ?? false;
+
+  // Offers and ride changes arrive by polling while the driver is online
+  useEffect(() => {
+    if (!isOnline) return;
+
+    const timer = setInterval(() => {
+      refetchSession();
+      refetchOffers();
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isOnline, refetchSession, refetchOffers]);
+
+  // Report the driver's position so riders and dispatch can find them
+  useEffect(() => {
+    if (!isOnline || !driver?.id) return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    const startWatching = async () => {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert(
+          "Location Required",
+          "Riders can only be matched with you while your location is shared.",
+        );
+        return;
+      }
+
+      const watcher = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          timeInterval: LOCATION_INTERVAL_MS,
+          distanceInterval: LOCATION_DISTANCE_METERS,
+        },
+        (location) => {
+          postJSON("/(api)/driver/location", {
+            latitude: location.coords.latitude,
+            longitude: location.coords.longitude,
+            heading:
+              location.coords.heading !== null && location.coords.heading >= 0
+                ? location.coords.heading % 360
+                : null,
+            speed:
+              location.coords.speed !== null && location.coords.speed >= 0
+                ? location.coords.speed
+                : null,
+          }).catch((error) =>
+            console.error("Error reporting driver location:", error),
+          );
+        },
+      );
+
+      if (cancelled) watcher.remove();
+      else subscription = watcher;
+    };
+
+    startWatching();
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [isOnline, driver?.id]);
+
+  const handleToggleOnline = async (value: boolean) => {
+    if (!value && ride) {
+      Alert.alert("Ride in Progress", "Finish your current ride before going offline.");
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      await postJSON("/(api)/driver/status", {
+        is_online: value,
+      });
+      await Promise.all([refetchSession(), refetchOffers()]);
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRespond = async (offer: RideOffer, accept: boolean) => {
+    setRespondingTo(offer.id);
+    try {
+      await postJSON(
+        `/(api)/driver/offers/${offer.id}/${accept ? "accept" : "decline"}`,
+        {},
+      );
+    } catch (error) {
+      Alert.alert("Offer", (error as Error).message);
+    } finally {
+      setRespondingTo(null);
+      await Promise.all([refetchSession(), refetchOffers()]);
+    }
+  };
+
+  const handleAdvanceRide = async () => {
+    if (!ride) return;
+    const nextStatus = DRIVER_NEXT_STATUS[ride.status];
+    if (!nextStatus) return;
+
+    setUpdating(true);
+    try {
+      await postJSON(`/(api)/driver/ride/${ride.ride_id}/status`, {
+        status: nextStatus,
+      });
+      if (nextStatus === "completed") {
+        Alert.alert(
+          "Ride Completed",
+          `You earned ${formatCents(ride.fare_price)} on this ride.`,
+          [
+            { text: "Later", style: "cancel" },
+            {
+              text: "Rate rider",
+              onPress: () =>
+                router.push({
+                  pathname: "/(root)/rate",
+                  params: {
+                    rideId: ride.ride_id,
+                    role: "driver",
+                    name: ride.rider_name ?? "",
+                  },
+                }),
+            },
+          ],
+        );
+      }
+      await refetchSession();
+    } catch (error) {
+      Alert.alert("Error", (error as Error).message);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.replace("/(auth)/sign-in");
+  };
+
+  if (!session) {
+    return (
+      <SafeAreaView className="flex-1 bg-general-500 items-center justify-center">
+        {!error ? (
+          <ActivityIndicator size="large" color="#000" />
+        ) : (
+          <View className="items-center px-5">
+            <Text className="text-lg font-JakartaBold mb-2">
+              Driver profile unavailable
+            </Text>
+            <Text className="text-sm text-gray-500 text-center mb-5">
+              This account is not linked to a driver yet.
+            </Text>
+            <CustomButton title="Sign out" onPress={handleSignOut} />
+          </View>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-general-500">
+      <ScrollView
+        className="px-5"
+        contentContainerStyle={{ paddingBottom: 100 }}
+      >
+        <View className="flex flex-row items-center justify-between my-5">
+          <View>
+            <Text className="text-2xl font-JakartaExtraBold">
+              {driver?.first_name} {driver?.last_name}
+            </Text>
+            {driver && (
+              <Text className="text-sm text-gray-500">
+                {getFareClass(driver.vehicle_class).name}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={handleSignOut}
+            className="justify-center items-center w-10 h-10 rounded-full bg-white"
+          >
+            <Image source={icons.out} className="w-4 h-4" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Online / offline */}
+        <View className="flex-row items-center justify-between bg-white rounded-2xl p-4 mb-5">
+          <View>
+            <Text className="text-lg font-JakartaBold">
+              {isOnline ? "You are online" : "You are offline"}
+            </Text>
+            <Text className="text-sm text-gray-500">
+              {isOnline
+                ? "Waiting for ride requests"
+                : "Go online to receive ride requests"}
+            </Text>
+          </View>
+          <Switch
+            value={isOnline}
+            onValueChange={handleToggleOnline}
+            disabled={updating}
+          />
+        </View>
+
+        {/* Current ride */}
+        {ride && (
+          <View className="bg-white rounded-2xl p-4 mb-5">
+            <View className="flex-row items-center justify-between mb-3">
+              <Text className="text-lg font-JakartaBold">Current ride</Text>
+              <Text className="text-md font-JakartaBold text-blue-500">
+                {RIDE_STATUS_LABELS[ride.status]}
+              </Text>
+            </View>
+            {ride.rider_name && (
+              <Text className="text-md font-JakartaMedium mb-2">
+                Rider: {ride.rider_name}
+              </Text>
+            )}
+            <Text className="text-xs text-gray-500 uppercase">Pickup</Text>
+            <Text className="text-md font-JakartaMedium mb-2" numberOfLines={2}>
+              {ride.origin_address}
+            </Text>
+            <Text className="text-xs text-gray-500 uppercase">Drop-off</Text>
+            <Text className="text-md font-JakartaMedium mb-2" numberOfLines={2}>
+              {ride.destination_address}
+            </Text>
+            <Text className="text-md font-JakartaBold text-green-600 mb-3">
+              {formatCents(ride.fare_price)}
+            </Text>
+            {DRIVER_ACTION_LABELS[ride.status] && (
+              <CustomButton
+                title={updating ? "Updating..." : DRIVER_ACTION_LABELS[ride.status]!}
+                onPress={handleAdvanceRide}
+                disabled={updating}
+              />
+            )}
+            <CustomButton
+              title="Message rider"
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/chat-thread",
+                  params: { rideId: ride.ride_id, name: ride.rider_name ?? "Rider" },
+                })
+              }
+              bgVariant="outline"
+              textVariant="primary"
+              className="mt-3"
+            />
+          </View>
+        )}
+
+        {/* Incoming offers */}
+        {isOnline && !ride && (
+          <>
+            {offers && offers.length > 0 ? (
+              offers.map((offer) => (
+                <RideOfferCard
+                  key={offer.id}
+                  offer={offer}
+                  responding={respondingTo === offer.id}
+                  onAccept={() => handleRespond(offer, true)}
+                  onDecline={() => handleRespond(offer, false)}
+                />
+              ))
+            ) : (
+              <View className="items-center py-10">
+                <ActivityIndicator size="small" color="#0286FF" />
+                <Text className="text-sm text-gray-500 mt-2">
+                  Looking for riders near you...
+                </Text>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default DriverHome;
@@ -1,15 +1,24 @@
+import { useUser } from "@clerk/clerk-expo";
 import { Tabs } from "expo-router";
-import { Image, ImageSourcePropType, View, Platform } from "react-native";
+import { useEffect } from "react";
+import { Image, ImageSourcePropType, View, Platform, Text } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { icons } from "@/constants";
+import { fetchAPI } from "@/lib/fetch";
+import { useChatStore } from "@/store";
+
+// How often the chat badge checks for new messages
+const UNREAD_POLL_INTERVAL_MS = 15 * 1000;
 
 const TabIcon = ({
   source,
   focused,
+  badge,
 }: {
   source: ImageSourcePropType;
   focused: boolean;
+  badge?: number;
 }) => (
   <View
     className={`flex flex-row justify-center items-center rounded-full ${focused ? "bg-general-300" : ""}`}
@@ -23,12 +32,39 @@ const TabIcon = ({
         resizeMode="contain"
         className="w-7 h-7"
       />
+      {!!badge && (
+        <View className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 items-center justify-center">
+          <Text className="text-[10px] text-white font-JakartaBold">
+            {badge > 99 ? "99+" : badge}
+          </Text>
+        </View>
+      )}
     </View>
   </View>
 );
 
 export default function Layout() {
   const insets = useSafeAreaInsets();
+  const { user } = useUser();
+  const { unreadCount, setUnreadCount } = useChatStore();
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const refreshUnread = async () => {
+      try {
+        const response = await fetchAPI("/(api)/chat/unread");
+        setUnreadCount(response.data?.count ?? 0);
+      } catch (error) {
+        console.error("Error fetching unread messages:", error);
+      }
+    };
+
+    refreshUnread();
+    const interval = setInterval(refreshUnread, UNREAD_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [user?.id, setUnreadCount]);
 
   return (
     <Tabs
@@ -81,7 +117,7 @@ export default function Layout() {
           title: "Chat",
           headerShown: false,
           tabBarIcon: ({ focused }) => (
-            <TabIcon source={icons.chat} focused={focused} />
+            <TabIcon source={icons.chat} focused={focused} badge={unreadCount} />
           ),
         }}
       />
@@ -1,28 +1,115 @@
-import { Image, ScrollView, Text, View } from "react-native";
+import { router, useFocusEffect } from "expo-router";
+import { useCallback } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { images } from "@/constants";
+import { formatMessageTime } from "@/lib/chat";
+import { useFetch } from "@/lib/fetch";
+import { ChatThread } from "@/types/type";
 
 const Chat = () => {
+  const {
+    data: threads,
+    loading,
+    refetch,
+  } = useFetch<ChatThread[]>("/(api)/chat");
+
+  // Pick up messages and read receipts from the thread screen
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch]),
+  );
+
   return (
-    <SafeAreaView className="flex-1 bg-white p-5">
-      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
-        <Text className="text-2xl font-JakartaBold">Chat</Text>
-        <View className="flex-1 h-fit flex justify-center items-center">
-          <Image
-            source={images.message}
-            alt="message"
-            className="w-full h-40"
-            resizeMode="contain"
-          />
-          <Text className="text-3xl font-JakartaBold mt-3">
-            No Messages Yet
-          </Text>
-          <Text className="text-base mt-2 text-center px-7">
-            Start a conversation with your friends and family
-          </Text>
-        </View>
-      </ScrollView>
+    <SafeAreaView className="flex-1 bg-white">
+      <FlatList
+        data={threads}
+        keyExtractor={(item) => item.ride_id.toString()}
+        className="px-5"
+        contentContainerStyle={{ flexGrow: 1, paddingBottom: 100 }}
+        ListHeaderComponent={
+          <Text className="text-2xl font-JakartaBold my-5">Chat</Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            onPress={() =>
+              router.push({
+                pathname: "/(root)/chat-thread",
+                params: { rideId: item.ride_id, name: item.counterpart_name },
+              })
+            }
+            className="flex-row items-center py-4 border-b border-gray-100"
+          >
+            <View className="flex-1 mr-3">
+              <View className="flex-row items-center justify-between mb-1">
+                <Text className="text-base font-JakartaBold" numberOfLines={1}>
+                  {item.counterpart_name}
+                </Text>
+                {item.last_message_at && (
+                  <Text className="text-xs text-gray-400">
+                    {formatMessageTime(item.last_message_at)}
+                  </Text>
+                )}
+              </View>
+              <Text className="text-xs text-gray-500 mb-1" numberOfLines={1}>
+                {item.origin_address} → {item.destination_address}
+              </Text>
+              <Text
+                className={`text-sm ${
+                  item.unread_count > 0
+                    ? "font-JakartaBold text-gray-900"
+                    : "font-JakartaRegular text-gray-600"
+                }`}
+                numberOfLines={1}
+              >
+                {item.last_message ?? "No messages yet"}
+              </Text>
+            </View>
+            {item.unread_count > 0 ? (
+              <View className="min-w-[22px] h-[22px] px-1.5 rounded-full bg-blue-500 items-center justify-center">
+                <Text className="text-xs text-white font-JakartaBold">
+                  {item.unread_count}
+                </Text>
+              </View>
+            ) : (
+              item.locked && (
+                <Text className="text-xs text-gray-400 font-JakartaMedium">
+                  Closed
+                </Text>
+              )
+            )}
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator size="small" color="#000" />
+          ) : (
+            <View className="flex-1 justify-center items-center">
+              <Image
+                source={images.message}
+                alt="message"
+                className="w-full h-40"
+                resizeMode="contain"
+              />
+              <Text className="text-3xl font-JakartaBold mt-3">
+                No Messages Yet
+              </Text>
+              <Text className="text-base mt-2 text-center px-7">
+                Once a driver accepts your ride, you can message them here
+              </Text>
+            </View>
+          )
+        }
+      />
     </SafeAreaView>
   );
 };
@@ -22,7 +22,7 @@ export default function Page() {
     data: recentRides,
     loading,
     error,
-  } = useFetch<Ride[]>(`/(api)/ride/${user?.id}`);
+  } = useFetch<Ride[]>(`/(api)/ride/${user?.id}?limit=5`);
   const [locationLoading, setLocationLoading] = useState(true);
   const [locationError, setLocationError] = useState<string | null>(null);
   const appState = useRef(AppState.currentState)
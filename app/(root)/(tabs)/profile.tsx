@@ -1,11 +1,71 @@
-import { useUser } from "@clerk/clerk-expo";
-import { Image, ScrollView, Text, View } from "react-native";
+import { useAuth, useUser } from "@clerk/clerk-expo";
+import { router } from "expo-router";
+import * as WebBrowser from "expo-web-browser";
+import { useState } from "react";
+import { Alert, Image, ScrollView, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
+import CustomButton from "@/components/CustomButton";
 import InputField from "@/components/InputField";
+import { authFetch, getSessionToken } from "@/lib/fetch";
 
 const Profile = () => {
   const { user } = useUser();
+  const { signOut } = useAuth();
+  const [deleting, setDeleting] = useState(false);
+
+  // The browser can't send our Authorization header, so the session token
+  // goes in the link
+  const openExport = async (format: "json" | "csv") =>
+    WebBrowser.openBrowserAsync(
+      `${process.env.EXPO_PUBLIC_SERVER_URL}(api)/me/export?format=${format}&token=${await getSessionToken()}`,
+    );
+
+  const handleExport = () =>
+    Alert.alert(
+      "Export My Data",
+      "Download your profile, rides, payments, ratings and messages.",
+      [
+        { text: "JSON", onPress: () => openExport("json") },
+        { text: "CSV (zip)", onPress: () => openExport("csv") },
+        { text: "Cancel", style: "cancel" },
+      ],
+    );
+
+  // Uses fetch directly so the server's reason for refusing reaches the rider
+  const deleteAccount = async () => {
+    setDeleting(true);
+
+    try {
+      const response = await authFetch("/(api)/me", { method: "DELETE" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        Alert.alert("Account Not Deleted", result.error || "Please try again.");
+        return;
+      }
+
+      // Deleting the Clerk user already ended the session, so a failed sign
+      // out here changes nothing
+      await signOut().catch((error) => console.error("Error signing out:", error));
+      router.replace("/(auth)/welcome");
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      Alert.alert("Error", "Your account could not be deleted. Please try again.");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleDelete = () =>
+    Alert.alert(
+      "Delete Account?",
+      "Your profile, saved cards and ride details will be removed and you will be signed out. Receipts and payment records are kept for accounting. This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: deleteAccount },
+      ],
+    );
 
   return (
     <SafeAreaView className="flex-1">
@@ -62,6 +122,21 @@ const Profile = () => {
             />
           </View>
         </View>
+
+        <CustomButton
+          title="Export My Data"
+          onPress={handleExport}
+          bgVariant="outline"
+          textVariant="primary"
+          className="mt-5"
+        />
+        <CustomButton
+          title={deleting ? "Deleting..." : "Delete Account"}
+          onPress={handleDelete}
+          bgVariant="danger"
+          disabled={deleting}
+          className="mt-3"
+        />
       </ScrollView>
     </SafeAreaView>
   );
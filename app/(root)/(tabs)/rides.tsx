@@ -1,32 +1,224 @@
 import { useUser } from "@clerk/clerk-expo";
-import { ActivityIndicator, FlatList, Image, Text, View } from "react-native";
+import { router, useFocusEffect } from "expo-router";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  RefreshControl,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import RideCard from "@/components/RideCard";
-import { images } from "@/constants";
-import { useFetch } from "@/lib/fetch";
-import { Ride } from "@/types/type";
+import ScheduledRideCard from "@/components/ScheduledRideCard";
+import { icons, images } from "@/constants";
+import { formatCents } from "@/lib/fare";
+import { fetchAPI, useFetch } from "@/lib/fetch";
+import {
+  MAX_RIDE_HISTORY_PAGE_SIZE,
+  RIDE_HISTORY_STATUS_FILTERS,
+  RIDE_STATUS_LABELS,
+  isRideFinished,
+} from "@/lib/ride";
+import { Ride, SplitInvitation } from "@/types/type";
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 400;
+
+const PAYMENT_FILTERS = [
+  { label: "Any payment", value: null },
+  { label: "Paid", value: "paid" },
+  { label: "Pending", value: "pending" },
+  { label: "Refunded", value: "refunded" },
+];
+
+// Booked on or after this many days ago; null is any time
+const DATE_FILTERS = [
+  { label: "Any time", days: null },
+  { label: "Last 7 days", days: 7 },
+  { label: "Last 30 days", days: 30 },
+  { label: "Last 90 days", days: 90 },
+];
+
+const formatDateParam = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().slice(0, 10);
+};
+
+const FilterChip = ({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`px-4 py-1.5 rounded-full mr-2 ${
+      selected ? "bg-blue-600" : "bg-white border border-gray-200"
+    }`}
+  >
+    <Text
+      className={`text-xs font-semibold ${
+        selected ? "text-white" : "text-gray-700"
+      }`}
+    >
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
 
 const Rides = () => {
   const { user } = useUser();
 
-  const {
-    data: recentRides,
-    loading,
-    error,
-  } = useFetch<Ride[]>(`/(api)/ride/${user?.id}`);
+  const [rides, setRides] = useState<Ride[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const [statusFilter, setStatusFilter] = useState(RIDE_HISTORY_STATUS_FILTERS[0]);
+  const [paymentFilter, setPaymentFilter] = useState(PAYMENT_FILTERS[0]);
+  const [dateFilter, setDateFilter] = useState(DATE_FILTERS[0]);
+  const [driverId, setDriverId] = useState<number | null>(null);
+  const [searchText, setSearchText] = useState("");
+  const [search, setSearch] = useState("");
+  // Drivers from every page seen so far, so a driver chip stays available
+  // after filtering down to someone else
+  const [knownDrivers, setKnownDrivers] = useState<
+    Record<number, string>
+  >({});
+  // Only the newest request may update the list
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchText.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const getHistoryUrl = useCallback(
+    (cursor: string | null) => {
+      const params = new URLSearchParams({
+        status: statusFilter.statuses.join(","),
+      });
+      if (paymentFilter.value) params.set("payment_status", paymentFilter.value);
+      if (dateFilter.days) params.set("from", formatDateParam(dateFilter.days));
+      if (driverId) params.set("driver_id", String(driverId));
+      if (search) params.set("q", search);
+      if (cursor) params.set("cursor", cursor);
+
+      return `/(api)/ride/${user?.id}?${params.toString()}`;
+    },
+    [user?.id, statusFilter, paymentFilter, dateFilter, driverId, search],
+  );
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      const id = ++requestId.current;
+
+      try {
+        const result = await fetchAPI(getHistoryUrl(cursor));
+        if (id !== requestId.current) return;
+
+        setRides((current) => (cursor ? [...current, ...result.data] : result.data));
+        setNextCursor(result.next_cursor);
+        setKnownDrivers((current) => {
+          const drivers = { ...current };
+          for (const ride of result.data as Ride[]) {
+            if (ride.driver) {
+              drivers[ride.driver.driver_id] =
+                `${ride.driver.first_name} ${ride.driver.last_name}`;
+            }
+          }
+          return drivers;
+        });
+      } catch (error) {
+        console.error("Error loading ride history:", error);
+      } finally {
+        if (id === requestId.current) {
+          setLoading(false);
+          setRefreshing(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [getHistoryUrl],
+  );
+
+  const { data: upcomingRides, refetch: refetchUpcoming } = useFetch<Ride[]>(
+    `/(api)/ride/${user?.id}?status=scheduled&limit=${MAX_RIDE_HISTORY_PAGE_SIZE}`,
+  );
+
+  const { data: invitations, refetch: refetchInvitations } =
+    useFetch<SplitInvitation[]>("/(api)/ride/invitations");
+
+  // Pick up tips, split payments and status changes made on other screens,
+  // and start over whenever a filter changes
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.id) return;
+
+      loadPage(null);
+      refetchUpcoming();
+      refetchInvitations();
+    }, [user?.id, loadPage, refetchUpcoming, refetchInvitations]),
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadPage(null);
+    refetchUpcoming();
+    refetchInvitations();
+  };
+
+  const handleEndReached = () => {
+    if (!nextCursor || loadingMore || loading) return;
+
+    setLoadingMore(true);
+    loadPage(nextCursor);
+  };
+
+  // Scheduled rides are listed on their own, soonest pickup first
+  const sortedUpcomingRides = [...(upcomingRides ?? [])].sort(
+    (a, b) =>
+      new Date(a.scheduled_pickup_at ?? 0).getTime() -
+      new Date(b.scheduled_pickup_at ?? 0).getTime(),
+  );
+  const activeRide = rides.find((ride) => !isRideFinished(ride.status));
+  const driverChips = Object.entries(knownDrivers).map(([id, name]) => ({
+    id: Number(id),
+    name,
+  }));
 
   return (
     <SafeAreaView className="flex-1 bg-white">
       <FlatList
-        data={recentRides}
+        data={rides}
         renderItem={({ item }) => <RideCard ride={item} />}
-        keyExtractor={(item, index) => index.toString()}
+        keyExtractor={(item) => String(item.ride_id)}
         className="px-5"
         keyboardShouldPersistTaps="handled"
         contentContainerStyle={{
           paddingBottom: 100,
         }}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator size="small" color="#000" className="my-5" />
+          ) : null
+        }
         ListEmptyComponent={() => (
           <View className="flex flex-col items-center justify-center">
             {!loading ? (
@@ -37,7 +229,7 @@ const Rides = () => {
                   alt="No recent rides found"
                   resizeMode="contain"
                 />
-                <Text className="text-sm">No recent rides found</Text>
+                <Text className="text-sm">No rides match these filters</Text>
               </>
             ) : (
               <ActivityIndicator size="small" color="#000" />
@@ -47,6 +239,136 @@ const Rides = () => {
         ListHeaderComponent={
           <>
             <Text className="text-2xl font-JakartaBold my-5">All Rides</Text>
+            {invitations && invitations.length > 0 && (
+              <View className="mb-5">
+                <Text className="text-lg font-JakartaSemiBold mb-3">
+                  Split fare invitations
+                </Text>
+                {invitations.map((invitation) => (
+                  <TouchableOpacity
+                    key={invitation.id}
+                    onPress={() =>
+                      router.push({
+                        pathname: "/(root)/split",
+                        params: { rideId: invitation.ride_id! },
+                      })
+                    }
+                    className="flex flex-row items-center justify-between bg-yellow-50 rounded-lg p-3 mb-2"
+                  >
+                    <Text
+                      className="flex-1 text-md font-JakartaMedium text-gray-700 mr-3"
+                      numberOfLines={1}
+                    >
+                      {invitation.destination_address}
+                    </Text>
+                    <Text className="text-md font-JakartaBold text-yellow-700">
+                      {invitation.status === "invited" ? "Respond" : "Pay"}{" "}
+                      {formatCents(invitation.share_amount)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            {sortedUpcomingRides.length > 0 && (
+              <View className="mb-5">
+                <Text className="text-lg font-JakartaSemiBold mb-3">
+                  Upcoming
+                </Text>
+                {sortedUpcomingRides.map((ride) => (
+                  <ScheduledRideCard
+                    key={ride.ride_id}
+                    ride={ride}
+                    onChanged={handleRefresh}
+                  />
+                ))}
+              </View>
+            )}
+            {activeRide && (
+              <View className="flex flex-row items-center justify-between bg-blue-50 rounded-lg p-3 mb-5">
+                <Text className="text-md font-JakartaMedium text-gray-500">
+                  Current ride
+                </Text>
+                <Text className="text-md font-JakartaBold text-blue-500">
+                  {RIDE_STATUS_LABELS[activeRide.status]}
+                </Text>
+              </View>
+            )}
+
+            <Text className="text-lg font-JakartaSemiBold mb-3">History</Text>
+            <View className="flex flex-row items-center bg-neutral-100 rounded-full px-4 mb-3">
+              <Image source={icons.search} className="w-4 h-4" />
+              <TextInput
+                value={searchText}
+                onChangeText={setSearchText}
+                placeholder="Search pickup or destination"
+                className="flex-1 py-2.5 ml-2 text-sm"
+                returnKeyType="search"
+              />
+            </View>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              className="mb-2"
+            >
+              {RIDE_HISTORY_STATUS_FILTERS.map((filter) => (
+                <FilterChip
+                  key={filter.label}
+                  label={filter.label}
+                  selected={filter === statusFilter}
+                  onPress={() => setStatusFilter(filter)}
+                />
+              ))}
+            </ScrollView>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              className="mb-2"
+            >
+              {PAYMENT_FILTERS.map((filter) => (
+                <FilterChip
+                  key={filter.label}
+                  label={filter.label}
+                  selected={filter === paymentFilter}
+                  onPress={() => setPaymentFilter(filter)}
+                />
+              ))}
+            </ScrollView>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              className="mb-2"
+            >
+              {DATE_FILTERS.map((filter) => (
+                <FilterChip
+                  key={filter.label}
+                  label={filter.label}
+                  selected={filter === dateFilter}
+                  onPress={() => setDateFilter(filter)}
+                />
+              ))}
+            </ScrollView>
+            {driverChips.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                className="mb-2"
+              >
+                <FilterChip
+                  label="Any driver"
+                  selected={driverId === null}
+                  onPress={() => setDriverId(null)}
+                />
+                {driverChips.map((driver) => (
+                  <FilterChip
+                    key={driver.id}
+                    label={driver.name}
+                    selected={driver.id === driverId}
+                    onPress={() => setDriverId(driver.id)}
+                  />
+                ))}
+              </ScrollView>
+            )}
+            <View className="mb-3" />
           </>
         }
       />
@@ -17,6 +17,42 @@ const Layout = () => {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="track-ride"
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="chat-thread"
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="rate"
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="tip"
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="ride/[id]"
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="split"
+        options={{
+          headerShown: false,
+        }}
+      />
     </Stack>
   );
 };
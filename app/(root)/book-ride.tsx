@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from "react";
-import { View, Text, ScrollView, Image, Alert, ActivityIndicator} from "react-native";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { View, Text, ScrollView, Image, Alert, ActivityIndicator, TouchableOpacity, TextInput } from "react-native";
 import { router } from "expo-router";
 import { StripeProvider, useStripe } from "@stripe/stripe-react-native";
 import { useUser } from "@clerk/clerk-expo";
@@ -9,23 +9,159 @@ import RideLayout from "@/components/RideLayout";
 import { icons, images } from "@/constants";
 import { useDriverStore, useLocationStore } from "@/store";
 import CustomButton from "@/components/CustomButton";
-import { fetchAPI } from "@/lib/fetch";
+import FareSummary from "@/components/FareSummary";
+import SplitFareEditor from "@/components/SplitFareEditor";
+import { authFetch, fetchAPI } from "@/lib/fetch";
+import { formatPickupTime } from "@/lib/schedule";
+import { validateSplit } from "@/lib/split";
+import { DispatchMode, SignedFareQuote, SplitShare } from "@/types/type";
+
+// Refresh the quote before paying if it is about to run out
+const QUOTE_REFRESH_MARGIN_MS = 30 * 1000;
 
 const BookRideContent = () => {
   const { user } = useUser();
-  const { userAddress, destinationAddress, userLatitude, userLongitude, destinationLatitude, destinationLongitude } = useLocationStore();
+  const { userAddress, destinationAddress, userLatitude, userLongitude, destinationLatitude, destinationLongitude, stops, clearStops, scheduledPickupAt, setScheduledPickupAt } = useLocationStore();
   const { drivers, selectedDriver } = useDriverStore();
   const { initPaymentSheet, presentPaymentSheet } = useStripe();
   const [loading, setLoading] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [bookedRideId, setBookedRideId] = useState<number | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [quote, setQuote] = useState<SignedFareQuote | null>(null);
+  const [acceptedSurge, setAcceptedSurge] = useState<number | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [splitShares, setSplitShares] = useState<SplitShare[]>([]);
+  const [dispatchMode, setDispatchMode] = useState<DispatchMode>("auto");
+  // Kept out of state so refreshing the quote can re-apply the code without
+  // re-running the quote effect
+  const promoCodeRef = useRef<string | null>(null);
 
   // Get selected driver details
   const driverDetails = drivers?.find(
     (driver) => driver.id === selectedDriver
   );
 
+  // Uses fetch directly so the server's reason for rejecting a code reaches
+  // the rider
+  const applyPromo = useCallback(async (
+    baseQuote: SignedFareQuote,
+    code: string,
+  ): Promise<SignedFareQuote> => {
+    const response = await authFetch("/(api)/promo/apply", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        code,
+        quote_id: baseQuote.quote_id,
+      }),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || "This promo code cannot be applied");
+    }
+    return result.data;
+  }, []);
+
+  // The server sets the price; the estimate from the map is only a preview
+  const requestQuote = useCallback(async (): Promise<SignedFareQuote | null> => {
+    if (
+      !selectedDriver ||
+      !userLatitude ||
+      !userLongitude ||
+      !destinationLatitude ||
+      !destinationLongitude
+    ) {
+      return null;
+    }
+
+    try {
+      const { data } = await fetchAPI("/(api)/ride/quote", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          origin_latitude: userLatitude,
+          origin_longitude: userLongitude,
+          destination_latitude: destinationLatitude,
+          destination_longitude: destinationLongitude,
+          stops,
+          driver_id: selectedDriver,
+        }),
+      });
+
+      if (promoCodeRef.current) {
+        try {
+          const discounted = await applyPromo(data, promoCodeRef.current);
+          setQuote(discounted);
+          return discounted;
+        } catch (error) {
+          promoCodeRef.current = null;
+          setPromoError((error as Error).message);
+        }
+      }
+
+      setQuote(data);
+      return data;
+    } catch (error) {
+      console.error("Error fetching fare quote:", error);
+      return null;
+    }
+  }, [selectedDriver, userLatitude, userLongitude, destinationLatitude, destinationLongitude, stops, applyPromo]);
+
+  useEffect(() => {
+    requestQuote();
+  }, [requestQuote]);
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!quote || !code) return;
+
+    setApplyingPromo(true);
+    setPromoError(null);
+
+    try {
+      const discounted = await applyPromo(quote, code);
+      promoCodeRef.current = discounted.promotion?.code ?? code;
+      setQuote(discounted);
+    } catch (error) {
+      setPromoError((error as Error).message);
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    promoCodeRef.current = null;
+    setPromoInput("");
+    setPromoError(null);
+    requestQuote();
+  };
+
+  const fare = quote ? (quote.amount / 100).toFixed(2) : driverDetails?.price;
+  // With a split the booker is only charged their own share now
+  const splitTotal = splitShares.reduce((sum, share) => sum + share.share_amount, 0);
+  const payAmount =
+    quote && splitShares.length > 0
+      ? ((quote.amount - splitTotal) / 100).toFixed(2)
+      : fare;
+  // The quote is what gets charged; the driver list estimate is only shown
+  // until it arrives
+  const fareBreakdown = quote?.breakdown ?? driverDetails?.fare;
+
+  // Acceptance is for one multiplier; a refreshed quote with a different
+  // surge has to be accepted again
+  const surgeMultiplier = quote?.breakdown.surge_multiplier ?? 1;
+  const surgeAccepted = surgeMultiplier <= 1 || acceptedSurge === surgeMultiplier;
+
   // Handle null addresses with fallback
   const pickupAddress = userAddress || "Pickup location not set";
   const dropoffAddress = destinationAddress || "Destination not set";
@@ -80,24 +216,45 @@ const BookRideContent = () => {
     );
   }
 
-  // Initialize payment sheet with Expo Router API
-  const initializePaymentSheet = async () => {
+  // Initialize payment sheet with Expo Router API, resolving to the PaymentIntent
+  // and the quote it was created for
+  const initializePaymentSheet = async (): Promise<{
+    paymentIntentId: string;
+    quoteId: string;
+  } | null> => {
     try {
-      const amount = driverDetails.price?.toString() || "0";
-      const driverName = user?.fullName || user?.emailAddresses[0]?.emailAddress?.split("@")[0] || "Guest";
       const driverEmail = user?.emailAddresses[0]?.emailAddress || "";
 
-      // Validate minimum amount
-      const numericAmount = parseFloat(amount);
-      if (numericAmount < 0.5) {
+      const activeQuote =
+        quote &&
+        new Date(quote.expires_at).getTime() - Date.now() > QUOTE_REFRESH_MARGIN_MS
+          ? quote
+          : await requestQuote();
+
+      if (!activeQuote) {
+        Alert.alert("Error", "Could not get a price for this ride. Please try again.");
+        return null;
+      }
+
+      const activeSurge = activeQuote.breakdown.surge_multiplier;
+      if (activeSurge > 1 && acceptedSurge !== activeSurge) {
         Alert.alert(
-          "Invalid Amount",
-          `The ride fare ($${amount}) is below Stripe's minimum charge of $0.50. Please contact support.`
+          "Surge Pricing Changed",
+          `Fares are now ${activeSurge}x. Please review and accept the new price.`,
         );
-        return false;
+        return null;
       }
 
-      // Create payment intent using your existing API route
+      if (splitShares.length > 0) {
+        const split = validateSplit(activeQuote.amount, splitShares, driverEmail);
+        if ("error" in split) {
+          Alert.alert("Split Fare", split.error);
+          return null;
+        }
+      }
+
+      // Create payment intent using your existing API route. The ride details
+      // let the server finish the booking even if the app closes mid-payment
       const { paymentIntent, ephemeralKey, customer } = await fetchAPI(
         "/(api)/(stripe)/create",
         {
@@ -106,9 +263,15 @@ const BookRideContent = () => {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            name: driverName,
-            email: driverEmail,
-            amount: amount,
+            quote_id: activeQuote.quote_id,
+            accepted_surge_multiplier: acceptedSurge,
+            split: splitShares,
+            scheduled_pickup_at: scheduledPickupAt,
+            dispatch_mode: dispatchMode,
+            ride: {
+              origin_address: userAddress || "Unknown",
+              destination_address: destinationAddress || "Unknown",
+            },
           }),
         },
       );
@@ -132,14 +295,14 @@ const BookRideContent = () => {
       if (error) {
         console.error("Error initializing payment sheet:", error);
         Alert.alert("Error", error.message);
-        return false;
+        return null;
       }
 
-      return true;
+      return { paymentIntentId: paymentIntent.id, quoteId: activeQuote.quote_id };
     } catch (error) {
       console.error("Error in initializePaymentSheet:", error);
       Alert.alert("Error", "Failed to initialize payment. Please try again.");
-      return false;
+      return null;
     }
   };
 
@@ -148,9 +311,9 @@ const BookRideContent = () => {
     setLoading(true);
 
     try {
-      const initialized = await initializePaymentSheet();
+      const payment = await initializePaymentSheet();
 
-      if (!initialized) {
+      if (!payment) {
         setLoading(false);
         return;
       }
@@ -169,10 +332,7 @@ const BookRideContent = () => {
 
       // Payment successful - create ride in database
       try {
-        const farePrice = driverDetails.price ? parseInt(driverDetails.price.toString()) * 100 : 0;
-        const rideTime = Math.round(driverDetails.time || 0); // Round to integer (e.g., 11)
-        
-        await fetchAPI("/(api)/ride/create", {
+        const { data: ride } = await fetchAPI("/(api)/ride/create", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -180,18 +340,15 @@ const BookRideContent = () => {
           body: JSON.stringify({
             origin_address: userAddress || "Unknown",
             destination_address: destinationAddress || "Unknown",
-            origin_latitude: userLatitude || 0,
-            origin_longitude: userLongitude || 0,
-            destination_latitude: destinationLatitude || 0,
-            destination_longitude: destinationLongitude || 0,
-            ride_time: rideTime, // Send as integer, NOT string
-            fare_price: farePrice,
-            payment_status: "paid",
-            driver_id: driverDetails.id,
-            user_id: user?.id || "",
+            quote_id: payment.quoteId,
+            payment_intent_id: payment.paymentIntentId,
+            scheduled_pickup_at: scheduledPickupAt,
+            dispatch_mode: dispatchMode,
           }),
         });
 
+        setBookedRideId(ride.id);
+
         // Show success modal after 500ms delay
         setTimeout(() => {
           setLoading(false);
@@ -212,6 +369,57 @@ const BookRideContent = () => {
     }
   };
 
+  const cancelRide = async () => {
+    if (!bookedRideId) return;
+    setCancelling(true);
+
+    try {
+      const { data: ride } = await fetchAPI(`/(api)/ride/${bookedRideId}/cancel`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: "Cancelled from booking screen" }),
+      });
+
+      setSuccess(false);
+      setBookedRideId(null);
+      Alert.alert(
+        "Ride Cancelled",
+        ride.refund_amount > 0
+          ? `$${(ride.refund_amount / 100).toFixed(2)} will be refunded to your card.`
+          : "Your ride has been cancelled.",
+      );
+      router.push("/(root)/(tabs)/home");
+    } catch (error) {
+      console.error("Error cancelling ride:", error);
+      Alert.alert("Error", "Could not cancel the ride. Please try again.");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Show the fee the policy would charge before cancelling
+  const handleCancelRide = async () => {
+    if (!bookedRideId) return;
+
+    try {
+      const { data: preview } = await fetchAPI(`/(api)/ride/${bookedRideId}/cancel`);
+      const message =
+        preview.cancellation_fee > 0
+          ? `A cancellation fee of $${(preview.cancellation_fee / 100).toFixed(2)} applies. You will be refunded $${(preview.refund_amount / 100).toFixed(2)}.`
+          : "You can cancel this ride for free.";
+
+      Alert.alert("Cancel Ride?", message, [
+        { text: "Keep Ride", style: "cancel" },
+        { text: "Cancel Ride", style: "destructive", onPress: cancelRide },
+      ]);
+    } catch (error) {
+      console.error("Error previewing cancellation:", error);
+      Alert.alert("Error", "This ride can no longer be cancelled.");
+    }
+  };
+
   return (
     <RideLayout title="Book Ride" snapPoints={["75%","85%", "95%"]}>
       <View className="flex-1">
@@ -270,6 +478,55 @@ const BookRideContent = () => {
           </View>
         </View>
 
+        {/* Driver Matching */}
+        <View
+          className="bg-gray-50 rounded-2xl p-4 mb-4"
+          style={{
+            shadowColor: "#000",
+            shadowOffset: { width: 0, height: 1 },
+            shadowOpacity: 0.05,
+            shadowRadius: 4,
+            elevation: 2,
+          }}
+        >
+          <Text className="text-base font-bold text-gray-900 mb-3">
+            Driver
+          </Text>
+
+          <View className="flex-row flex-wrap">
+            {[
+              { label: "Fastest available", mode: "auto" as const },
+              { label: `Only ${driverDetails.first_name}`, mode: "rider" as const },
+            ].map((option) => (
+              <TouchableOpacity
+                key={option.mode}
+                onPress={() => setDispatchMode(option.mode)}
+                className={`px-4 py-1.5 rounded-full mr-2 mb-2 ${
+                  dispatchMode === option.mode
+                    ? "bg-blue-600"
+                    : "bg-white border border-gray-200"
+                }`}
+              >
+                <Text
+                  className={`text-xs font-semibold ${
+                    dispatchMode === option.mode
+                      ? "text-white"
+                      : "text-gray-700"
+                  }`}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text className="text-xs text-gray-500">
+            {dispatchMode === "auto"
+              ? `We offer your ride to the nearest ${driverDetails.vehicle_class} driver who can pick you up soonest.`
+              : `Your ride is only offered to ${driverDetails.first_name}. If they can't take it, it is cancelled and refunded.`}
+          </Text>
+        </View>
+
         {/* Payment Summary */}
         <View
           className="bg-gray-50 rounded-2xl p-4 mb-4"
@@ -291,29 +548,102 @@ const BookRideContent = () => {
           </View>
 
           {/* Fare Details */}
-          <View className="bg-white rounded-xl p-3 mb-3">
-            <View className="flex-row justify-between items-center mb-2">
-              <Text className="text-sm text-gray-600">Base Fare</Text>
-              <Text className="text-sm text-gray-900">${driverDetails.price}</Text>
-            </View>
-            <View className="flex-row justify-between items-center mb-2">
-              <Text className="text-sm text-gray-600">Service Fee</Text>
-              <Text className="text-sm text-gray-900">$0.00</Text>
-            </View>
-            <View className="h-px bg-gray-200 my-2" />
-            <View className="flex-row justify-between items-center">
-              <Text className="text-base font-bold text-gray-900">Total</Text>
-              <Text className="text-xl font-bold text-green-600">
-                ${driverDetails.price}
-              </Text>
-            </View>
+          <View className="mb-3">
+            {fareBreakdown ? (
+              <FareSummary
+                breakdown={fareBreakdown}
+                promotion={quote?.promotion}
+              />
+            ) : (
+              <View className="bg-white rounded-xl p-3 flex-row justify-between items-center">
+                <Text className="text-base font-bold text-gray-900">Total</Text>
+                <Text className="text-xl font-bold text-green-600">
+                  ${fare}
+                </Text>
+              </View>
+            )}
+          </View>
+
+          {/* Promo Code */}
+          <View className="mb-3">
+            {quote?.promotion ? (
+              <View className="flex-row items-center justify-between bg-green-50 border border-green-200 rounded-xl px-3 py-2.5">
+                <Text className="text-sm font-semibold text-green-700">
+                  {quote.promotion.code} applied
+                </Text>
+                <TouchableOpacity onPress={handleRemovePromo}>
+                  <Text className="text-sm font-semibold text-gray-600">Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View className="flex-row items-center bg-white border border-gray-200 rounded-xl pl-3">
+                <TextInput
+                  value={promoInput}
+                  onChangeText={setPromoInput}
+                  placeholder="Promo code"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  className="flex-1 py-2.5 text-sm text-gray-900"
+                />
+                <TouchableOpacity
+                  onPress={handleApplyPromo}
+                  disabled={!quote || !promoInput.trim() || applyingPromo}
+                  className="px-4 py-2.5"
+                >
+                  {applyingPromo ? (
+                    <ActivityIndicator size="small" color="#3B82F6" />
+                  ) : (
+                    <Text
+                      className={`text-sm font-semibold ${
+                        quote && promoInput.trim() ? "text-blue-600" : "text-gray-400"
+                      }`}
+                    >
+                      Apply
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+            {promoError && (
+              <Text className="text-xs text-red-600 mt-1.5">{promoError}</Text>
+            )}
           </View>
 
+          {/* Surge Acceptance */}
+          {surgeMultiplier > 1 && (
+            <TouchableOpacity
+              onPress={() =>
+                setAcceptedSurge(surgeAccepted ? null : surgeMultiplier)
+              }
+              activeOpacity={0.7}
+              className="flex-row items-center bg-orange-50 border border-orange-200 rounded-xl p-3 mb-3"
+            >
+              <View
+                className={`w-5 h-5 rounded border-2 items-center justify-center mr-3 ${
+                  surgeAccepted ? "bg-orange-500 border-orange-500" : "border-orange-400"
+                }`}
+              >
+                {surgeAccepted && (
+                  <Image
+                    source={icons.checkmark}
+                    className="w-3 h-3"
+                    tintColor="#FFFFFF"
+                  />
+                )}
+              </View>
+              <Text className="flex-1 text-sm text-orange-900">
+                I accept {surgeMultiplier}x surge pricing due to high demand
+              </Text>
+            </TouchableOpacity>
+          )}
+
           {/* Trip Info */}
           <View className="flex-row items-center justify-between py-2.5 border-t border-gray-200">
             <Text className="text-sm text-gray-600">Pickup Time</Text>
             <Text className="text-sm font-semibold text-gray-900">
-              {Math.round(driverDetails.time || 0)} min
+              {scheduledPickupAt
+                ? formatPickupTime(scheduledPickupAt)
+                : `${Math.round(driverDetails.time || 0)} min`}
             </Text>
           </View>
 
@@ -325,6 +655,9 @@ const BookRideContent = () => {
           </View>
         </View>
 
+        {/* Split Fare */}
+        {quote && <SplitFareEditor total={quote.amount} onChange={setSplitShares} />}
+
         {/* Route Summary */}
         <View
           className="bg-gray-50 rounded-2xl p-4 mb-4"
@@ -354,6 +687,24 @@ const BookRideContent = () => {
             </View>
           </View>
 
+          {/* Stops */}
+          {stops.map((stop, index) => (
+            <View key={`stop-${index}`} className="flex-row mb-4">
+              <View className="items-center mr-3">
+                <View className="w-3 h-3 bg-orange-500 rounded-full mt-1" />
+                <View className="w-0.5 flex-1 bg-gray-300 my-1" style={{ minHeight: 24 }} />
+              </View>
+              <View className="flex-1 pt-0.5">
+                <Text className="text-xs font-medium text-gray-500 uppercase mb-1">
+                  Stop {index + 1}
+                </Text>
+                <Text className="text-sm text-gray-900 leading-5" numberOfLines={2}>
+                  {stop.address}
+                </Text>
+              </View>
+            </View>
+          ))}
+
           {/* Destination */}
           <View className="flex-row">
             <View className="items-center mr-3">
@@ -374,10 +725,10 @@ const BookRideContent = () => {
       {/* Fixed Bottom Button */}
       <View className="px-5 pb-14 pt-0">
         <CustomButton
-          title={loading ? "Processing..." : `Pay $${driverDetails.price}`}
+          title={loading ? "Processing..." : `Pay $${payAmount}`}
           onPress={handlePayment}
-          disabled={loading}
-          className={loading ? "bg-gray-400" : "bg-blue-600"}
+          disabled={loading || !surgeAccepted}
+          className={loading || !surgeAccepted ? "bg-gray-400" : "bg-blue-600"}
         />
 
         {loading && (
@@ -418,14 +769,54 @@ const BookRideContent = () => {
             placed. Please proceed with your trip.
           </Text>
 
+          {scheduledPickupAt && (
+            <Text className="text-sm text-general-200 font-JakartaRegular text-center mt-2">
+              Scheduled for {formatPickupTime(scheduledPickupAt)}. You can
+              change or cancel it from your rides.
+            </Text>
+          )}
+
+          {splitShares.length > 0 && (
+            <Text className="text-sm text-general-200 font-JakartaRegular text-center mt-2">
+              Your friends have been invited to pay their share.
+            </Text>
+          )}
+
+          {bookedRideId && !scheduledPickupAt && (
+            <CustomButton
+              title="Track Ride"
+              onPress={() => {
+                setSuccess(false);
+                clearStops();
+                router.replace({
+                  pathname: "/(root)/track-ride",
+                  params: { rideId: bookedRideId },
+                });
+              }}
+              className="mt-5"
+            />
+          )}
+
           <CustomButton
             title="Back Home"
             onPress={() => {
               setSuccess(false);
+              setScheduledPickupAt(null);
+              clearStops();
               router.push("/(root)/(tabs)/home");
             }}
             className="mt-5"
           />
+
+          {bookedRideId && (
+            <CustomButton
+              title={cancelling ? "Cancelling..." : "Cancel Ride"}
+              onPress={handleCancelRide}
+              disabled={cancelling}
+              bgVariant="danger"
+              className="mt-3"
+            />
+          )}
         </View>
       </ReactNativeModal>
     </RideLayout>
@@ -0,0 +1,311 @@
+import { useUser } from "@clerk/clerk-expo";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import {
+  CHAT_MAX_MESSAGE_LENGTH,
+  CHAT_QUICK_REPLIES,
+  formatMessageTime,
+} from "@/lib/chat";
+import { authFetch } from "@/lib/fetch";
+import { useChatStore } from "@/store";
+import { ChatMessage, UserRole } from "@/types/type";
+
+// How often an open thread checks for new messages and read receipts
+const MESSAGE_POLL_INTERVAL_MS = 4000;
+
+// Adds messages to a newest-first list, skipping any we already have
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const known = new Set(current.map((message) => message.id));
+  return [...current, ...incoming.filter((message) => !known.has(message.id))].sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime() ||
+      b.id - a.id
+  );
+};
+
+const Conversation = () => {
+  const { user } = useUser();
+  const { rideId, name } = useLocalSearchParams<{ rideId: string; name: string }>();
+  const { setUnreadCount } = useChatStore();
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [lastReadId, setLastReadId] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+  const newestId = useRef<number | null>(null);
+
+  const markRead = useCallback(async () => {
+    try {
+      const response = await authFetch(`/(api)/chat/${rideId}/read`, {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      if (response.ok) setUnreadCount(result.data.unread_count);
+    } catch (error) {
+      console.error("Error marking messages read:", error);
+    }
+  }, [rideId, setUnreadCount]);
+
+  const fetchMessages = useCallback(
+    async (cursor: string) => {
+      const response = await authFetch(`/(api)/chat/${rideId}${cursor}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Could not load messages");
+      }
+
+      setRole(result.data.role);
+      setLocked(result.data.locked);
+      setLastReadId(result.data.last_read_id);
+      return result.data as { messages: ChatMessage[]; has_more: boolean };
+    },
+    [rideId]
+  );
+
+  // First page, then poll for anything newer
+  useEffect(() => {
+    if (!rideId || !user?.id) return;
+
+    let active = true;
+
+    const load = async () => {
+      try {
+        const page = await fetchMessages("");
+        if (!active) return;
+
+        setMessages(page.messages);
+        setHasMore(page.has_more);
+        newestId.current = page.messages[0]?.id ?? null;
+        markRead();
+      } catch (error) {
+        console.error("Error loading messages:", error);
+        Alert.alert("Error", (error as Error).message);
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const page = await fetchMessages(
+          newestId.current !== null ? `?after=${newestId.current}` : ""
+        );
+        if (!active || page.messages.length === 0) return;
+
+        setMessages((current) => mergeMessages(current, page.messages));
+        newestId.current = page.messages[0].id;
+        markRead();
+      } catch (error) {
+        console.error("Error polling messages:", error);
+      }
+    };
+
+    load();
+    const interval = setInterval(poll, MESSAGE_POLL_INTERVAL_MS);
+
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [rideId, user?.id, fetchMessages, markRead]);
+
+  const loadOlder = async () => {
+    if (!hasMore || loadingOlder || messages.length === 0) return;
+
+    setLoadingOlder(true);
+
+    try {
+      const page = await fetchMessages(`?before=${messages[messages.length - 1].id}`);
+      setMessages((current) => mergeMessages(current, page.messages));
+      setHasMore(page.has_more);
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleSend = async (body: string) => {
+    if (!body.trim() || sending) return;
+
+    setSending(true);
+
+    try {
+      const response = await authFetch(`/(api)/chat/${rideId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ body }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 409) setLocked(true);
+        Alert.alert("Message not sent", result.error || "Please try again.");
+        return;
+      }
+
+      setMessages((current) => mergeMessages(current, [result.data]));
+      newestId.current = Math.max(newestId.current ?? 0, result.data.id);
+      setText("");
+    } catch (error) {
+      console.error("Error sending message:", error);
+      Alert.alert("Error", "Message not sent. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Receipts are shown under the caller's most recent message only
+  const latestOwnId = messages.find((message) => message.sender_role === role)?.id;
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={["top", "bottom"]}>
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        {/* Header */}
+        <View className="border-b border-gray-200 px-5 py-4 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="w-11 h-11 rounded-full bg-gray-100 items-center justify-center"
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color="#1F2937" />
+          </TouchableOpacity>
+          <Text className="text-xl font-bold text-gray-900 flex-1 ml-4" numberOfLines={1}>
+            {name || "Chat"}
+          </Text>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="small" color="#000" />
+          </View>
+        ) : (
+          <FlatList
+            data={messages}
+            inverted
+            keyExtractor={(item) => item.id.toString()}
+            className="flex-1 px-4"
+            onEndReached={loadOlder}
+            onEndReachedThreshold={0.2}
+            ListFooterComponent={
+              loadingOlder ? (
+                <ActivityIndicator size="small" color="#000" className="my-3" />
+              ) : null
+            }
+            ListEmptyComponent={
+              <Text className="text-sm text-gray-400 text-center my-5">
+                No messages yet
+              </Text>
+            }
+            renderItem={({ item }) => {
+              const mine = item.sender_role === role;
+
+              return (
+                <View className={`my-1 max-w-[80%] ${mine ? "self-end items-end" : "self-start items-start"}`}>
+                  <View
+                    className={`px-4 py-2.5 rounded-2xl ${
+                      mine ? "bg-blue-500 rounded-br-sm" : "bg-gray-100 rounded-bl-sm"
+                    }`}
+                  >
+                    <Text className={`text-base ${mine ? "text-white" : "text-gray-900"}`}>
+                      {item.body}
+                    </Text>
+                  </View>
+                  <Text className="text-[10px] text-gray-400 mt-0.5">
+                    {formatMessageTime(item.created_at)}
+                    {item.id === latestOwnId &&
+                      (lastReadId !== null && item.id <= lastReadId ? " · Read" : " · Sent")}
+                  </Text>
+                </View>
+              );
+            }}
+          />
+        )}
+
+        {locked || !role ? (
+          <View className="px-5 py-4 border-t border-gray-200">
+            <Text className="text-sm text-gray-500 text-center">
+              {locked
+                ? "This conversation has closed since the ride ended."
+                : "Messages are unavailable right now."}
+            </Text>
+          </View>
+        ) : (
+          <View className="border-t border-gray-200 pt-2 pb-3">
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled"
+              contentContainerStyle={{ paddingHorizontal: 16 }}
+              className="mb-2"
+            >
+              {CHAT_QUICK_REPLIES[role].map((reply) => (
+                <TouchableOpacity
+                  key={reply}
+                  onPress={() => handleSend(reply)}
+                  disabled={sending}
+                  className="px-3 py-1.5 rounded-full bg-gray-100 mr-2"
+                >
+                  <Text className="text-xs font-JakartaMedium text-gray-700">{reply}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <View className="flex-row items-center px-4">
+              <TextInput
+                value={text}
+                onChangeText={setText}
+                placeholder="Message"
+                maxLength={CHAT_MAX_MESSAGE_LENGTH}
+                multiline
+                className="flex-1 bg-gray-100 rounded-2xl px-4 py-2.5 text-base max-h-24"
+              />
+              <TouchableOpacity
+                onPress={() => handleSend(text)}
+                disabled={sending || !text.trim()}
+                className={`w-11 h-11 rounded-full items-center justify-center ml-2 ${
+                  text.trim() ? "bg-blue-500" : "bg-gray-300"
+                }`}
+              >
+                {sending ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Ionicons name="send" size={18} color="#fff" />
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+export default Conversation;
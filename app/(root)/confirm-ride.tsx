@@ -1,16 +1,26 @@
-import React from "react";
-import { View, Text, ScrollView, Image } from "react-native";
+import React, { useState } from "react";
+import { View, Text, ScrollView, Image, TouchableOpacity } from "react-native";
 import { router } from "expo-router";
 
 import RideLayout from "@/components/RideLayout";
 import { icons } from "@/constants";
 import { formatTime } from "@/lib/utils";
+import { formatPickupTime } from "@/lib/schedule";
 import { useDriverStore, useLocationStore } from "@/store";
 import CustomButton from "@/components/CustomButton";
+import FareSummary from "@/components/FareSummary";
+import PickupTimePicker from "@/components/PickupTimePicker";
 
 const ConfirmRide = () => {
-  const { userAddress, destinationAddress } = useLocationStore();
+  const {
+    userAddress,
+    destinationAddress,
+    stops,
+    scheduledPickupAt,
+    setScheduledPickupAt,
+  } = useLocationStore();
   const { drivers, selectedDriver } = useDriverStore();
+  const [scheduling, setScheduling] = useState(Boolean(scheduledPickupAt));
 
   // Get selected driver details
   const driverDetails = drivers?.find(
@@ -21,6 +31,11 @@ const ConfirmRide = () => {
   const pickupAddress = userAddress || "Pickup location not set";
   const dropoffAddress = destinationAddress || "Destination not set";
 
+  const handlePickupMode = (schedule: boolean) => {
+    setScheduling(schedule);
+    if (!schedule) setScheduledPickupAt(null);
+  };
+
   const handleBookRide = () => {
     router.push("/(root)/book-ride");
   };
@@ -102,7 +117,9 @@ const ConfirmRide = () => {
               <Text className="text-sm text-gray-700">Pickup Time</Text>
             </View>
             <Text className="text-sm font-semibold text-gray-900">
-              {Math.round(driverDetails?.time || 0)} min
+              {scheduledPickupAt
+                ? formatPickupTime(scheduledPickupAt)
+                : `${Math.round(driverDetails?.time || 0)} min`}
             </Text>
           </View>
 
@@ -120,6 +137,84 @@ const ConfirmRide = () => {
           </View>
         </View>
 
+        {/* Pickup Schedule */}
+        <View
+          className="bg-gray-50 rounded-2xl p-4 mb-4"
+          style={{
+            shadowColor: "#000",
+            shadowOffset: { width: 0, height: 1 },
+            shadowOpacity: 0.05,
+            shadowRadius: 4,
+            elevation: 2,
+          }}
+        >
+          <Text className="text-base font-bold text-gray-900 mb-3">
+            When
+          </Text>
+
+          <View className="flex-row mb-3">
+            {[
+              { label: "Ride now", schedule: false },
+              { label: "Schedule", schedule: true },
+            ].map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                onPress={() => handlePickupMode(option.schedule)}
+                className={`px-4 py-1.5 rounded-full mr-2 ${
+                  scheduling === option.schedule
+                    ? "bg-blue-600"
+                    : "bg-white border border-gray-200"
+                }`}
+              >
+                <Text
+                  className={`text-xs font-semibold ${
+                    scheduling === option.schedule
+                      ? "text-white"
+                      : "text-gray-700"
+                  }`}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {scheduling && (
+            <>
+              <PickupTimePicker
+                value={scheduledPickupAt}
+                onChange={setScheduledPickupAt}
+              />
+              <Text className="text-xs text-gray-500 mt-1">
+                Up to 30 days ahead. We start finding your driver shortly
+                before pickup, and you can change or cancel the ride until then.
+              </Text>
+            </>
+          )}
+        </View>
+
+        {/* Fare Breakdown */}
+        {driverDetails?.fare && (
+          <View
+            className="bg-gray-50 rounded-2xl p-4 mb-4"
+            style={{
+              shadowColor: "#000",
+              shadowOffset: { width: 0, height: 1 },
+              shadowOpacity: 0.05,
+              shadowRadius: 4,
+              elevation: 2,
+            }}
+          >
+            <Text className="text-base font-bold text-gray-900 mb-3">
+              Fare Breakdown
+            </Text>
+            <FareSummary breakdown={driverDetails.fare} />
+            <Text className="text-xs text-gray-500 mt-2">
+              Estimate; the final price is confirmed before payment
+            </Text>
+          </View>
+        )}
+
         {/* Route Card */}
         <View
                   className="bg-gray-50 rounded-2xl p-4 mb-4"
@@ -149,6 +244,24 @@ const ConfirmRide = () => {
                     </View>
                   </View>
         
+                  {/* Stops */}
+                  {stops.map((stop, index) => (
+                    <View key={`stop-${index}`} className="flex-row mb-4">
+                      <View className="items-center mr-3">
+                        <View className="w-3 h-3 bg-orange-500 rounded-full mt-1" />
+                        <View className="w-0.5 flex-1 bg-gray-300 my-1" style={{ minHeight: 24 }} />
+                      </View>
+                      <View className="flex-1 pt-0.5">
+                        <Text className="text-xs font-medium text-gray-500 uppercase mb-1">
+                          Stop {index + 1}
+                        </Text>
+                        <Text className="text-sm text-gray-900 leading-5" numberOfLines={2}>
+                          {stop.address}
+                        </Text>
+                      </View>
+                    </View>
+                  ))}
+
                   {/* Destination */}
                   <View className="flex-row">
                     <View className="items-center mr-3">
@@ -180,6 +293,7 @@ const ConfirmRide = () => {
         <CustomButton
           title="Proceed to Payment"
           onPress={handleBookRide}
+          disabled={scheduling && !scheduledPickupAt}
           className="bg-blue-600"
         />
       </View>
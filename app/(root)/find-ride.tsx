@@ -14,10 +14,16 @@ import { router } from "expo-router";
 import { icons } from "@/constants";
 import { useDriverStore } from "@/store";
 import CustomButton from "@/components/CustomButton";
+import FareSummary from "@/components/FareSummary";
+import StopsEditor from "@/components/StopsEditor";
+import { getFareClass } from "@/lib/fare";
+import { FareBreakdown, VehicleClass } from "@/types/type";
 
 interface Driver {
   id: number;
   title: string;
+  vehicle_class: VehicleClass;
+  fare?: FareBreakdown;
   profile_image_url: string;
   car_image_url: string;
   car_seats: number;
@@ -50,6 +56,9 @@ const FindRide = () => {
   // Check if any driver has price/time data
   const hasCalculatedData = driverList.some(d => d.price && d.time);
 
+  // Surge is per area, so every driver's estimate carries the same multiplier
+  const surgeMultiplier = driverList.find(d => d.fare)?.fare?.surge_multiplier ?? 1;
+
   // Handle driver selection
   const handleSelectDriver = (id: number) => {
     setSelectedDriver(id);
@@ -111,6 +120,9 @@ const FindRide = () => {
               <Text className="text-lg font-bold text-gray-900">
                 {item.title}
               </Text>
+              <Text className="text-xs text-gray-500">
+                {getFareClass(item.vehicle_class).name}
+              </Text>
               
               {/* Rating */}
               <View className="flex-row items-center mt-1">
@@ -176,6 +188,13 @@ const FindRide = () => {
             </View>
           )}
 
+          {/* Fare Breakdown */}
+          {isSelected && item.fare && (
+            <View className="mt-3">
+              <FareSummary breakdown={item.fare} />
+            </View>
+          )}
+
           {/* Selection Indicator */}
           {isSelected && (
             <View className="absolute top-4 right-4 bg-blue-500 rounded-full p-1.5">
@@ -216,6 +235,11 @@ const FindRide = () => {
         </Text>
       </View>
 
+      {/* Route and stops */}
+      <View className="bg-white px-5 py-4 border-b border-gray-200 z-10">
+        <StopsEditor />
+      </View>
+
       {/* Warning if no price data */}
       {driverList.length > 0 && !hasCalculatedData && (
         <View className="mx-5 mt-4 bg-yellow-50 border border-yellow-200 rounded-xl p-4">
@@ -233,6 +257,23 @@ const FindRide = () => {
         </View>
       )}
 
+      {/* Surge notice */}
+      {surgeMultiplier > 1 && (
+        <View className="mx-5 mt-4 bg-orange-50 border border-orange-200 rounded-xl p-4">
+          <View className="flex-row items-center">
+            <Text className="text-2xl mr-2">⚡</Text>
+            <View className="flex-1">
+              <Text className="text-sm font-semibold text-orange-900">
+                High demand: {surgeMultiplier}x surge pricing
+              </Text>
+              <Text className="text-xs text-orange-700 mt-1">
+                Fares are higher than usual because there are few drivers nearby.
+              </Text>
+            </View>
+          </View>
+        </View>
+      )}
+
       {/* Drivers List */}
       <FlatList
         data={driverList}
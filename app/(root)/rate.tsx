@@ -0,0 +1,168 @@
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  Image,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import CustomButton from "@/components/CustomButton";
+import { icons } from "@/constants";
+import { authFetch } from "@/lib/fetch";
+import { MAX_RATING_COMMENT_LENGTH, RATING_TAGS } from "@/lib/rating";
+import { UserRole } from "@/types/type";
+
+const STAR_VALUES = [1, 2, 3, 4, 5];
+
+const Rate = () => {
+  // `role` is the side doing the rating: a rider rates their driver
+  const { rideId, role, name } = useLocalSearchParams<{
+    rideId: string;
+    role: UserRole;
+    name: string;
+  }>();
+  const raterRole: UserRole = role === "driver" ? "driver" : "rider";
+
+  const [stars, setStars] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const toggleTag = (tag: string) => {
+    setTags((current) =>
+      current.includes(tag)
+        ? current.filter((item) => item !== tag)
+        : [...current, tag],
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!stars) return;
+
+    setSubmitting(true);
+
+    try {
+      const response = await authFetch(`/(api)/ride/${rideId}/rating`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ stars, tags, comment }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        Alert.alert("Rating Failed", result.error || "Your rating could not be saved.");
+        return;
+      }
+
+      Alert.alert("Thank you!", "Your rating has been saved.", [
+        { text: "OK", onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error("Error rating ride:", error);
+      Alert.alert("Error", "Failed to save your rating. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={["top", "bottom"]}>
+      <ScrollView className="flex-1 px-5 pt-6" keyboardShouldPersistTaps="handled">
+        <Text className="text-2xl font-JakartaBold text-gray-900">
+          Rate {name || (raterRole === "rider" ? "your driver" : "your rider")}
+        </Text>
+        <Text className="text-sm text-gray-600 mt-1">
+          {raterRole === "rider"
+            ? "Your rating counts towards your driver's average."
+            : "Other drivers see this when they are offered this rider's trips."}
+        </Text>
+
+        {/* Stars */}
+        <View className="flex-row justify-center mt-8">
+          {STAR_VALUES.map((value) => (
+            <TouchableOpacity
+              key={value}
+              onPress={() => setStars(value)}
+              activeOpacity={0.7}
+              className="mx-2"
+            >
+              <Image
+                source={icons.star}
+                className="w-10 h-10"
+                style={{ opacity: value <= stars ? 1 : 0.2 }}
+                resizeMode="contain"
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Tags */}
+        <Text className="text-sm font-JakartaSemiBold text-gray-700 mt-8 mb-2">
+          What stood out?
+        </Text>
+        <View className="flex-row flex-wrap">
+          {RATING_TAGS[raterRole].map((tag) => {
+            const isSelected = tags.includes(tag);
+
+            return (
+              <TouchableOpacity
+                key={tag}
+                onPress={() => toggleTag(tag)}
+                className={`px-4 py-1.5 rounded-full mr-2 mb-2 ${
+                  isSelected ? "bg-blue-600" : "bg-white border border-gray-200"
+                }`}
+              >
+                <Text
+                  className={`text-xs font-semibold ${
+                    isSelected ? "text-white" : "text-gray-700"
+                  }`}
+                >
+                  {tag}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Comment */}
+        <Text className="text-sm font-JakartaSemiBold text-gray-700 mt-6 mb-2">
+          Anything else? (optional)
+        </Text>
+        <TextInput
+          value={comment}
+          onChangeText={setComment}
+          placeholder="Write a short review"
+          maxLength={MAX_RATING_COMMENT_LENGTH}
+          multiline
+          textAlignVertical="top"
+          className="bg-neutral-100 rounded-xl px-4 py-3 h-28 text-base"
+        />
+      </ScrollView>
+
+      <View className="px-5 pb-6">
+        <CustomButton
+          title={submitting ? "Saving..." : "Submit Rating"}
+          onPress={handleSubmit}
+          disabled={!stars || submitting}
+          className={!stars || submitting ? "bg-gray-400" : ""}
+        />
+        <CustomButton
+          title="Not Now"
+          onPress={() => router.back()}
+          bgVariant="outline"
+          textVariant="primary"
+          className="mt-3"
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+export default Rate;
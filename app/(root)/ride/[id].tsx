@@ -0,0 +1,367 @@
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import CustomButton from "@/components/CustomButton";
+import FareSummary from "@/components/FareSummary";
+import ReceiptButton from "@/components/ReceiptButton";
+import RideLayout from "@/components/RideLayout";
+import { icons } from "@/constants";
+import { formatCents, getFareClass } from "@/lib/fare";
+import { authFetch, useFetch } from "@/lib/fetch";
+import {
+  MAX_RIDE_ISSUE_DETAILS_LENGTH,
+  RIDE_ISSUE_CATEGORIES,
+  RIDE_STATUS_LABELS,
+  getRideStatusColor,
+  getRideTimeline,
+} from "@/lib/ride";
+import { formatDate } from "@/lib/utils";
+import { useLocationStore } from "@/store";
+import { RideDetail, RideIssueCategory } from "@/types/type";
+
+const formatClock = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const Row = ({ label, value, className }: { label: string; value: string; className?: string }) => (
+  <View className="flex-row justify-between items-center mb-2">
+    <Text className="text-sm text-gray-600">{label}</Text>
+    <Text className={`text-sm font-JakartaMedium text-gray-900 ${className ?? ""}`}>
+      {value}
+    </Text>
+  </View>
+);
+
+const RideDetails = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const {
+    setUserLocation,
+    setDestinationLocation,
+    clearStops,
+    addStop,
+    setScheduledPickupAt,
+  } = useLocationStore();
+
+  const { data: ride, error } = useFetch<RideDetail>(`/(api)/ride/detail/${id}`);
+  const [replayKey, setReplayKey] = useState(0);
+  const [reporting, setReporting] = useState(false);
+  const [issueCategory, setIssueCategory] = useState<RideIssueCategory | null>(null);
+  const [issueDetails, setIssueDetails] = useState("");
+  const [submittingIssue, setSubmittingIssue] = useState(false);
+
+  const handleReportIssue = async () => {
+    if (!ride || !issueCategory) return;
+
+    setSubmittingIssue(true);
+
+    try {
+      const response = await authFetch(`/(api)/ride/${ride.ride_id}/issue`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          category: issueCategory,
+          details: issueDetails,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        Alert.alert("Report Failed", result.error || "Your report could not be sent.");
+        return;
+      }
+
+      setReporting(false);
+      setIssueCategory(null);
+      setIssueDetails("");
+      Alert.alert("Thanks for letting us know", "Our support team will follow up by email.");
+    } catch (error) {
+      console.error("Error reporting ride issue:", error);
+      Alert.alert("Error", "Failed to send your report. Please try again.");
+    } finally {
+      setSubmittingIssue(false);
+    }
+  };
+
+  // Same pickup, stops and destination, priced afresh
+  const handleBookAgain = () => {
+    if (!ride) return;
+
+    setUserLocation({
+      latitude: ride.origin_latitude,
+      longitude: ride.origin_longitude,
+      address: ride.origin_address,
+    });
+    setDestinationLocation({
+      latitude: ride.destination_latitude,
+      longitude: ride.destination_longitude,
+      address: ride.destination_address,
+    });
+    clearStops();
+    ride.stops.forEach(addStop);
+    setScheduledPickupAt(null);
+    router.push("/(root)/find-ride");
+  };
+
+  return (
+    <RideLayout
+      title="Ride Details"
+      snapPoints={["45%", "85%"]}
+      replay={ride}
+      replayKey={replayKey}
+    >
+      {!ride ? (
+        <View className="items-center py-8">
+          {error ? (
+            <Text className="text-base text-red-500 text-center">
+              This ride could not be loaded.
+            </Text>
+          ) : (
+            <ActivityIndicator size="small" color="#0286FF" />
+          )}
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1 px-5"
+          contentContainerStyle={{ paddingBottom: 20 }}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text className="text-xl font-JakartaBold text-gray-900">
+            {formatDate(ride.created_at)}
+          </Text>
+          <Text
+            className={`text-sm font-JakartaMedium mb-4 ${getRideStatusColor(ride.status)}`}
+          >
+            {RIDE_STATUS_LABELS[ride.status]}
+          </Text>
+
+          {/* Driver */}
+          {ride.driver && (
+            <View className="flex-row items-center bg-gray-50 rounded-2xl p-3 mb-4">
+              <Image
+                source={{ uri: ride.driver.profile_image_url }}
+                className="w-12 h-12 rounded-full"
+              />
+              <View className="flex-1 mx-3">
+                <Text className="text-base font-JakartaBold text-gray-900">
+                  {ride.driver.first_name} {ride.driver.last_name}
+                </Text>
+                <View className="flex-row items-center mt-0.5">
+                  <Image source={icons.star} className="w-3.5 h-3.5" />
+                  <Text className="text-xs font-JakartaMedium text-gray-600 ml-1">
+                    {ride.driver.rating} · {getFareClass(ride.driver.vehicle_class).name} ·{" "}
+                    {ride.driver.car_seats} seats
+                  </Text>
+                </View>
+              </View>
+              <Image
+                source={{ uri: ride.driver.car_image_url }}
+                className="w-16 h-12"
+                resizeMode="contain"
+              />
+            </View>
+          )}
+
+          {/* Route */}
+          <View className="bg-gray-50 rounded-2xl p-3 mb-4">
+            <View className="flex-row items-center mb-2">
+              <Image source={icons.to} className="w-5 h-5" />
+              <Text className="text-sm font-JakartaMedium ml-2 flex-1" numberOfLines={1}>
+                {ride.origin_address}
+              </Text>
+            </View>
+            {ride.stops.map((stop, index) => (
+              <Text
+                key={`stop-${index}`}
+                className="text-xs font-JakartaMedium text-gray-500 ml-7 mb-2"
+                numberOfLines={1}
+              >
+                Stop {index + 1}: {stop.address}
+              </Text>
+            ))}
+            <View className="flex-row items-center">
+              <Image source={icons.point} className="w-5 h-5" />
+              <Text className="text-sm font-JakartaMedium ml-2 flex-1" numberOfLines={1}>
+                {ride.destination_address}
+              </Text>
+            </View>
+          </View>
+
+          {/* Timeline */}
+          <Text className="text-sm font-JakartaSemiBold text-gray-700 mb-2">
+            Timeline
+          </Text>
+          <View className="bg-gray-50 rounded-2xl p-3 mb-4">
+            {getRideTimeline(ride).map((entry) => (
+              <Row
+                key={entry.label}
+                label={entry.label}
+                value={formatClock(entry.at)}
+              />
+            ))}
+            {ride.cancellation_reason && (
+              <Text className="text-xs text-gray-500">
+                Reason: {ride.cancellation_reason}
+              </Text>
+            )}
+          </View>
+
+          {/* Fare */}
+          <Text className="text-sm font-JakartaSemiBold text-gray-700 mb-2">
+            Fare
+          </Text>
+          <View className="bg-gray-50 rounded-2xl p-3 mb-4">
+            {ride.fare_breakdown ? (
+              <FareSummary
+                breakdown={ride.fare_breakdown}
+                promotion={
+                  ride.promotion_id && ride.promotion_code
+                    ? {
+                        id: ride.promotion_id,
+                        code: ride.promotion_code,
+                        discount_amount: ride.discount_amount,
+                      }
+                    : undefined
+                }
+              />
+            ) : (
+              <Row label="Fare" value={formatCents(ride.fare_price)} />
+            )}
+            <View className="px-3 pt-2">
+              {ride.tip_amount > 0 && (
+                <Row label="Tip" value={formatCents(ride.tip_amount)} />
+              )}
+              {ride.cancellation_fee !== null && (
+                <Row
+                  label="Cancellation fee"
+                  value={formatCents(ride.cancellation_fee)}
+                />
+              )}
+              {ride.refund_amount !== null && (
+                <Row label="Refunded" value={formatCents(ride.refund_amount)} />
+              )}
+              <Row
+                label="Payment"
+                value={ride.payment_status.replace(/_/g, " ")}
+                className={`capitalize ${
+                  ride.payment_status === "paid" ? "text-green-500" : "text-red-500"
+                }`}
+              />
+            </View>
+          </View>
+
+          {/* Actions */}
+          <CustomButton
+            title="Replay Route"
+            onPress={() => setReplayKey((key) => key + 1)}
+            bgVariant="outline"
+            textVariant="primary"
+            className="mb-3"
+          />
+          {ride.status === "completed" && (
+            <ReceiptButton
+              rideId={ride.ride_id}
+              className="mb-3"
+            />
+          )}
+          {ride.status === "completed" && ride.driver && !ride.has_rated_driver && (
+            <CustomButton
+              title="Rate Driver"
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/rate",
+                  params: {
+                    rideId: ride.ride_id,
+                    role: "rider",
+                    name: ride.driver?.first_name,
+                  },
+                })
+              }
+              bgVariant="outline"
+              textVariant="primary"
+              className="mb-3"
+            />
+          )}
+          {!reporting ? (
+            <CustomButton
+              title="Report an Issue"
+              onPress={() => setReporting(true)}
+              bgVariant="outline"
+              textVariant="primary"
+              className="mb-3"
+            />
+          ) : (
+            <View className="bg-gray-50 rounded-2xl p-3 mb-3">
+              <Text className="text-sm font-JakartaSemiBold text-gray-700 mb-2">
+                What went wrong?
+              </Text>
+              <View className="flex-row flex-wrap">
+                {(Object.keys(RIDE_ISSUE_CATEGORIES) as RideIssueCategory[]).map(
+                  (category) => {
+                    const isSelected = category === issueCategory;
+
+                    return (
+                      <TouchableOpacity
+                        key={category}
+                        onPress={() => setIssueCategory(category)}
+                        className={`px-4 py-1.5 rounded-full mr-2 mb-2 ${
+                          isSelected ? "bg-blue-600" : "bg-white border border-gray-200"
+                        }`}
+                      >
+                        <Text
+                          className={`text-xs font-semibold ${
+                            isSelected ? "text-white" : "text-gray-700"
+                          }`}
+                        >
+                          {RIDE_ISSUE_CATEGORIES[category]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  },
+                )}
+              </View>
+              <TextInput
+                value={issueDetails}
+                onChangeText={setIssueDetails}
+                placeholder="Tell us more (optional)"
+                maxLength={MAX_RIDE_ISSUE_DETAILS_LENGTH}
+                multiline
+                textAlignVertical="top"
+                className="bg-white rounded-xl px-4 py-3 h-24 text-base mt-1 mb-3"
+              />
+              <CustomButton
+                title={submittingIssue ? "Sending..." : "Send Report"}
+                onPress={handleReportIssue}
+                disabled={!issueCategory || submittingIssue}
+                className={!issueCategory || submittingIssue ? "bg-gray-400" : ""}
+              />
+              <CustomButton
+                title="Cancel"
+                onPress={() => setReporting(false)}
+                bgVariant="outline"
+                textVariant="primary"
+                className="mt-3"
+              />
+            </View>
+          )}
+          <CustomButton title="Book Again" onPress={handleBookAgain} />
+        </ScrollView>
+      )}
+    </RideLayout>
+  );
+};
+
+export default RideDetails;
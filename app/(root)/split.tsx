@@ -0,0 +1,339 @@
+import { useUser } from "@clerk/clerk-expo";
+import { StripeProvider, useStripe } from "@stripe/stripe-react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import CustomButton from "@/components/CustomButton";
+import { formatCents } from "@/lib/fare";
+import { authFetch, fetchAPI } from "@/lib/fetch";
+import { normalizeEmail } from "@/lib/split";
+import { RideParticipant, SplitParticipantStatus } from "@/types/type";
+
+interface SplitDetails {
+  ride: {
+    id: number;
+    origin_address: string;
+    destination_address: string;
+    fare_price: number;
+    booker_share_amount: number;
+    payment_status: string;
+  };
+  participants: RideParticipant[];
+  remaining: number;
+  is_booker: boolean;
+}
+
+const STATUS_STYLES: Record<SplitParticipantStatus, string> = {
+  invited: "bg-yellow-100 text-yellow-700",
+  accepted: "bg-blue-100 text-blue-700",
+  declined: "bg-red-100 text-red-700",
+  paid: "bg-green-100 text-green-700",
+  covered: "bg-gray-100 text-gray-700",
+};
+
+// Uses fetch directly so the server's reason for refusing reaches the rider
+const postJSON = async (url: string, body: Record<string, unknown>) => {
+  const response = await authFetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || "Something went wrong");
+  }
+  return result;
+};
+
+const SplitContent = () => {
+  const { user } = useUser();
+  const { rideId } = useLocalSearchParams<{ rideId: string }>();
+  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+  const [details, setDetails] = useState<SplitDetails | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteAmount, setInviteAmount] = useState("");
+
+  const email = user?.emailAddresses[0]?.emailAddress || "";
+
+  const loadDetails = useCallback(async () => {
+    if (!rideId || !user?.id) return;
+
+    try {
+      const { data } = await fetchAPI(`/(api)/ride/${rideId}/participants`);
+      setDetails(data);
+    } catch (error) {
+      console.error("Error fetching split details:", error);
+      Alert.alert("Error", "Could not load this split fare.");
+    }
+  }, [rideId, user?.id]);
+
+  useEffect(() => {
+    loadDetails();
+  }, [loadDetails]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await loadDetails();
+    } catch (error) {
+      Alert.alert("Split Fare", (error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!details) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  const { ride, participants, remaining, is_booker } = details;
+  const myShare = participants.find(
+    (participant) => participant.email === normalizeEmail(email),
+  );
+  const unassigned =
+    ride.fare_price -
+    ride.booker_share_amount -
+    participants
+      .filter((participant) =>
+        ["invited", "accepted", "paid"].includes(participant.status),
+      )
+      .reduce((sum, participant) => sum + participant.share_amount, 0);
+
+  const handleRespond = (response: "accept" | "decline") =>
+    runAction(async () => {
+      await postJSON(
+        `/(api)/ride/${ride.id}/participants/${myShare!.id}/${response}`,
+        {},
+      );
+    });
+
+  const handlePay = () =>
+    runAction(async () => {
+      const payUrl = `/(api)/ride/${ride.id}/participants/${myShare!.id}/pay`;
+      const { paymentIntent, ephemeralKey, customer } = await postJSON(payUrl, {});
+
+      const { error: initError } = await initPaymentSheet({
+        merchantDisplayName: "MyRide",
+        customerId: customer,
+        customerEphemeralKeySecret: ephemeralKey.secret,
+        paymentIntentClientSecret: paymentIntent.client_secret,
+        returnURL: "myapp://split",
+      });
+      if (initError) throw new Error(initError.message);
+
+      const { error } = await presentPaymentSheet();
+      if (error) {
+        if (error.code === "Canceled") return;
+        throw new Error(error.message);
+      }
+
+      await postJSON(payUrl, { payment_intent_id: paymentIntent.id });
+      Alert.alert("Paid", "Thanks, your share has been paid.");
+    });
+
+  const handleInvite = () =>
+    runAction(async () => {
+      await postJSON(`/(api)/ride/${ride.id}/participants`, {
+        email: inviteEmail,
+        share_amount: Math.round(parseFloat(inviteAmount) * 100),
+      });
+      setInviteEmail("");
+      setInviteAmount("");
+    });
+
+  const handleCover = () =>
+    Alert.alert(
+      "Cover the Rest?",
+      `${formatCents(remaining)} will be charged to the card you booked with.`,
+      [
+        { text: "Not Now", style: "cancel" },
+        {
+          text: "Pay",
+          onPress: () =>
+            runAction(async () => {
+              await postJSON(`/(api)/ride/${ride.id}/participants/cover`, {});
+            }),
+        },
+      ],
+    );
+
+  return (
+    <ScrollView
+      className="flex-1 px-5"
+      contentContainerStyle={{ paddingBottom: 40 }}
+    >
+      <Text className="text-2xl font-JakartaBold text-gray-900 mt-6">
+        Split Fare
+      </Text>
+      <Text className="text-sm text-gray-600 mt-1" numberOfLines={1}>
+        {ride.origin_address} → {ride.destination_address}
+      </Text>
+
+      <View className="bg-gray-50 rounded-2xl p-4 mt-5">
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="text-sm text-gray-600">Total fare</Text>
+          <Text className="text-sm text-gray-900">{formatCents(ride.fare_price)}</Text>
+        </View>
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="text-sm text-gray-600">Paid by booker</Text>
+          <Text className="text-sm text-gray-900">
+            {formatCents(ride.booker_share_amount)}
+          </Text>
+        </View>
+        <View className="h-px bg-gray-200 my-2" />
+        <View className="flex-row justify-between items-center">
+          <Text className="text-base font-bold text-gray-900">Still owed</Text>
+          <Text
+            className={`text-xl font-bold ${remaining > 0 ? "text-orange-600" : "text-green-600"}`}
+          >
+            {formatCents(remaining)}
+          </Text>
+        </View>
+      </View>
+
+      {/* Participants */}
+      <Text className="text-base font-bold text-gray-900 mt-6 mb-3">Riders</Text>
+      {participants.map((participant) => (
+        <View
+          key={participant.id}
+          className="flex-row items-center justify-between bg-white border border-gray-200 rounded-xl px-3 py-3 mb-2"
+        >
+          <View className="flex-1 mr-3">
+            <Text className="text-sm text-gray-900" numberOfLines={1}>
+              {participant.email}
+            </Text>
+            <Text className="text-xs text-gray-500 mt-0.5">
+              {formatCents(participant.share_amount)}
+            </Text>
+          </View>
+          <Text
+            className={`text-xs font-semibold capitalize px-2.5 py-1 rounded-full ${STATUS_STYLES[participant.status]}`}
+          >
+            {participant.status}
+          </Text>
+        </View>
+      ))}
+
+      {/* Participant actions */}
+      {!is_booker && myShare?.status === "invited" && (
+        <View className="flex-row mt-4">
+          <CustomButton
+            title="Decline"
+            onPress={() => handleRespond("decline")}
+            disabled={busy}
+            bgVariant="outline"
+            textVariant="primary"
+            className="flex-1 mr-2"
+          />
+          <CustomButton
+            title={`Accept ${formatCents(myShare.share_amount)}`}
+            onPress={() => handleRespond("accept")}
+            disabled={busy}
+            className="flex-1 ml-2"
+          />
+        </View>
+      )}
+      {!is_booker && myShare?.status === "accepted" && (
+        <View className="mt-4">
+          <CustomButton
+            title={busy ? "Processing..." : `Pay ${formatCents(myShare.share_amount)}`}
+            onPress={handlePay}
+            disabled={busy}
+          />
+          <TouchableOpacity
+            onPress={() => handleRespond("decline")}
+            disabled={busy}
+            className="items-center mt-3"
+          >
+            <Text className="text-sm font-semibold text-red-500">
+              Decline my share
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Booker actions */}
+      {is_booker && unassigned > 0 && ride.payment_status === "partially_paid" && (
+        <View className="bg-gray-50 rounded-2xl p-4 mt-4">
+          <Text className="text-sm font-semibold text-gray-900 mb-2">
+            {formatCents(unassigned)} is not assigned to anyone
+          </Text>
+          <TextInput
+            value={inviteEmail}
+            onChangeText={setInviteEmail}
+            placeholder="Friend's email"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="email-address"
+            className="bg-white border border-gray-200 rounded-xl px-3 py-2.5 text-sm mb-2"
+          />
+          <TextInput
+            value={inviteAmount}
+            onChangeText={setInviteAmount}
+            placeholder={(unassigned / 100).toFixed(2)}
+            keyboardType="decimal-pad"
+            className="bg-white border border-gray-200 rounded-xl px-3 py-2.5 text-sm"
+          />
+          <CustomButton
+            title="Invite"
+            onPress={handleInvite}
+            disabled={busy || !inviteEmail || !inviteAmount}
+            className="mt-3"
+          />
+        </View>
+      )}
+      {is_booker && ride.payment_status === "partially_paid" && remaining > 0 && (
+        <CustomButton
+          title={busy ? "Processing..." : `Cover the Rest (${formatCents(remaining)})`}
+          onPress={handleCover}
+          disabled={busy}
+          bgVariant="secondary"
+          className="mt-4"
+        />
+      )}
+
+      <CustomButton
+        title="Done"
+        onPress={() => router.back()}
+        bgVariant="outline"
+        textVariant="primary"
+        className="mt-4"
+      />
+    </ScrollView>
+  );
+};
+
+const Split = () => {
+  return (
+    <StripeProvider
+      publishableKey={process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY!}
+      merchantIdentifier="merchant.com.myride"
+      urlScheme="myapp"
+    >
+      <SafeAreaView className="flex-1 bg-white" edges={["top", "bottom"]}>
+        <SplitContent />
+      </SafeAreaView>
+    </StripeProvider>
+  );
+};
+
+export default Split;
@@ -0,0 +1,166 @@
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import CustomButton from "@/components/CustomButton";
+import { formatCents } from "@/lib/fare";
+import { authFetch } from "@/lib/fetch";
+import {
+  MAXIMUM_TIP,
+  MINIMUM_TIP,
+  TIP_PERCENTAGES,
+  calculatePercentageTip,
+  isValidTipAmount,
+} from "@/lib/tip";
+
+const Tip = () => {
+  const { rideId, fare } = useLocalSearchParams<{ rideId: string; fare: string }>();
+  const farePrice = Number(fare) || 0;
+
+  const [percentage, setPercentage] = useState<number | null>(TIP_PERCENTAGES[1]);
+  const [customAmount, setCustomAmount] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const tipAmount =
+    percentage !== null
+      ? calculatePercentageTip(farePrice, percentage)
+      : Math.round(parseFloat(customAmount) * 100);
+  const isValid = isValidTipAmount(tipAmount);
+
+  const handleSelectPercentage = (value: number) => {
+    setPercentage(value);
+    setCustomAmount("");
+  };
+
+  const handleTip = async () => {
+    if (!isValid) return;
+
+    setSubmitting(true);
+
+    try {
+      const response = await authFetch(`/(api)/ride/${rideId}/tip`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...(percentage !== null ? { percentage } : { amount: tipAmount }),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        Alert.alert("Tip Failed", result.error || "The tip could not be charged.");
+        return;
+      }
+
+      Alert.alert("Thank you!", `Your ${formatCents(tipAmount)} tip was sent to your driver.`, [
+        { text: "OK", onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error("Error tipping ride:", error);
+      Alert.alert("Error", "Failed to send tip. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={["top", "bottom"]}>
+      <View className="flex-1 px-5 pt-6">
+        <Text className="text-2xl font-JakartaBold text-gray-900">
+          Tip your driver
+        </Text>
+        <Text className="text-sm text-gray-600 mt-1">
+          Your fare was {formatCents(farePrice)}. Tips go entirely to your driver.
+        </Text>
+
+        {/* Preset percentages */}
+        <View className="flex-row justify-between mt-8">
+          {TIP_PERCENTAGES.map((value) => {
+            const isSelected = percentage === value;
+
+            return (
+              <TouchableOpacity
+                key={value}
+                onPress={() => handleSelectPercentage(value)}
+                activeOpacity={0.7}
+                className={`flex-1 mx-1 items-center rounded-xl py-4 ${
+                  isSelected
+                    ? "bg-blue-50 border-2 border-blue-500"
+                    : "bg-white border border-gray-200"
+                }`}
+              >
+                <Text className="text-lg font-JakartaBold text-gray-900">
+                  {value}%
+                </Text>
+                <Text className="text-xs text-gray-500 mt-1">
+                  {formatCents(calculatePercentageTip(farePrice, value))}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Custom amount */}
+        <Text className="text-sm font-JakartaSemiBold text-gray-700 mt-8 mb-2">
+          Or enter a custom amount
+        </Text>
+        <View
+          className={`flex-row items-center rounded-xl px-4 ${
+            percentage === null
+              ? "bg-blue-50 border-2 border-blue-500"
+              : "bg-neutral-100 border border-neutral-100"
+          }`}
+        >
+          <Text className="text-lg text-gray-500">$</Text>
+          <TextInput
+            value={customAmount}
+            onChangeText={setCustomAmount}
+            onFocus={() => setPercentage(null)}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+            className="flex-1 py-4 ml-1 text-lg font-JakartaSemiBold"
+          />
+        </View>
+        {percentage === null && customAmount !== "" && !isValid && (
+          <Text className="text-xs text-red-600 mt-1.5">
+            Tips must be between {formatCents(MINIMUM_TIP)} and {formatCents(MAXIMUM_TIP)}
+          </Text>
+        )}
+      </View>
+
+      <View className="px-5 pb-6">
+        {submitting && (
+          <View className="flex-row items-center justify-center mb-2">
+            <ActivityIndicator size="small" color="#3B82F6" />
+            <Text className="text-xs text-gray-600 ml-2">Charging your card...</Text>
+          </View>
+        )}
+        <CustomButton
+          title={isValid ? `Add ${formatCents(tipAmount)} Tip` : "Add Tip"}
+          onPress={handleTip}
+          disabled={!isValid || submitting}
+          className={!isValid || submitting ? "bg-gray-400" : ""}
+        />
+        <CustomButton
+          title="Not Now"
+          onPress={() => router.back()}
+          bgVariant="outline"
+          textVariant="primary"
+          className="mt-3"
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+export default Tip;
@@ -0,0 +1,202 @@
+import { useUser } from "@clerk/clerk-expo";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Image, Text, View } from "react-native";
+
+import CustomButton from "@/components/CustomButton";
+import RideLayout from "@/components/RideLayout";
+import { icons } from "@/constants";
+import { authFetch } from "@/lib/fetch";
+import {
+  RIDE_STATUS_LABELS,
+  getRideStatusColor,
+  isRideFinished,
+} from "@/lib/ride";
+import { RideTracking } from "@/types/type";
+
+// Wait before asking again after a failed request
+const TRACKING_RETRY_MS = 3000;
+
+const getHeadline = (tracking: RideTracking) => {
+  if (tracking.eta_minutes !== null) {
+    return tracking.eta_target === "pickup"
+      ? `Your driver arrives in ${tracking.eta_minutes} min`
+      : `Arriving in ${tracking.eta_minutes} min`;
+  }
+
+  switch (tracking.status) {
+    case "requested":
+      return "Finding a driver...";
+    case "arrived":
+      return "Your driver has arrived";
+    default:
+      return RIDE_STATUS_LABELS[tracking.status];
+  }
+};
+
+const TrackRide = () => {
+  const { user } = useUser();
+  const { rideId } = useLocalSearchParams<{ rideId: string }>();
+  const [tracking, setTracking] = useState<RideTracking | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Long-poll: each request returns as soon as the ride differs from the
+  // version we already have
+  useEffect(() => {
+    if (!rideId || !user?.id) return;
+
+    let active = true;
+
+    const follow = async () => {
+      let version = "";
+
+      while (active) {
+        try {
+          const response = await authFetch(
+            `/(api)/ride/${rideId}/stream?since=${encodeURIComponent(version)}`
+          );
+          const result = await response.json();
+
+          if (!response.ok) {
+            setError(result.error || "This ride could not be tracked.");
+            return;
+          }
+
+          if (!active) return;
+
+          version = result.data.version;
+          setTracking(result.data);
+
+          if (isRideFinished(result.data.status)) return;
+        } catch (error) {
+          console.error("Error tracking ride:", error);
+          await new Promise((resolve) => setTimeout(resolve, TRACKING_RETRY_MS));
+        }
+      }
+    };
+
+    follow();
+
+    return () => {
+      active = false;
+    };
+  }, [rideId, user?.id]);
+
+  return (
+    <RideLayout title="Your Ride" snapPoints={["40%", "65%"]} tracking={tracking}>
+      {!tracking ? (
+        <View className="items-center py-8">
+          {error ? (
+            <Text className="text-base text-red-500 text-center">{error}</Text>
+          ) : (
+            <ActivityIndicator size="small" color="#0286FF" />
+          )}
+        </View>
+      ) : (
+        <View className="px-5">
+          <Text className="text-xl font-JakartaBold text-gray-900 mb-1">
+            {getHeadline(tracking)}
+          </Text>
+          <Text
+            className={`text-sm font-JakartaMedium mb-4 ${getRideStatusColor(tracking.status)}`}
+          >
+            {RIDE_STATUS_LABELS[tracking.status]}
+          </Text>
+
+          {tracking.driver && (
+            <View className="flex-row items-center bg-gray-50 rounded-2xl p-3 mb-4">
+              <Image
+                source={{ uri: tracking.driver.profile_image_url }}
+                className="w-12 h-12 rounded-full"
+              />
+              <View className="flex-1 mx-3">
+                <Text className="text-base font-JakartaBold text-gray-900">
+                  {tracking.driver.first_name} {tracking.driver.last_name}
+                </Text>
+                <View className="flex-row items-center mt-0.5">
+                  <Image source={icons.star} className="w-3.5 h-3.5" />
+                  <Text className="text-xs font-JakartaMedium text-gray-600 ml-1">
+                    {tracking.driver.rating}
+                  </Text>
+                </View>
+              </View>
+              <Image
+                source={{ uri: tracking.driver.car_image_url }}
+                className="w-16 h-12"
+                resizeMode="contain"
+              />
+            </View>
+          )}
+
+          <View className="bg-gray-50 rounded-2xl p-3 mb-4">
+            <View className="flex-row items-center mb-2">
+              <Image source={icons.to} className="w-5 h-5" />
+              <Text className="text-sm font-JakartaMedium ml-2 flex-1" numberOfLines={1}>
+                {tracking.origin_address}
+              </Text>
+            </View>
+            {tracking.stops.map((stop, index) => (
+              <Text
+                key={`stop-${index}`}
+                className="text-xs font-JakartaMedium text-gray-500 ml-7 mb-2"
+                numberOfLines={1}
+              >
+                Stop {index + 1}: {stop.address}
+              </Text>
+            ))}
+            <View className="flex-row items-center">
+              <Image source={icons.point} className="w-5 h-5" />
+              <Text className="text-sm font-JakartaMedium ml-2 flex-1" numberOfLines={1}>
+                {tracking.destination_address}
+              </Text>
+            </View>
+          </View>
+
+          {tracking.driver && (
+            <CustomButton
+              title={`Message ${tracking.driver.first_name}`}
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/chat-thread",
+                  params: {
+                    rideId: tracking.ride_id,
+                    name: `${tracking.driver?.first_name} ${tracking.driver?.last_name}`,
+                  },
+                })
+              }
+              bgVariant="outline"
+              textVariant="primary"
+              className="mb-3"
+            />
+          )}
+
+          {tracking.status === "completed" && tracking.driver && (
+            <CustomButton
+              title={`Rate ${tracking.driver.first_name}`}
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/rate",
+                  params: {
+                    rideId: tracking.ride_id,
+                    role: "rider",
+                    name: tracking.driver?.first_name,
+                  },
+                })
+              }
+              className="mb-3"
+            />
+          )}
+
+          {isRideFinished(tracking.status) && (
+            <CustomButton
+              title="Back Home"
+              onPress={() => router.push("/(root)/(tabs)/home")}
+            />
+          )}
+        </View>
+      )}
+    </RideLayout>
+  );
+};
+
+export default TrackRide;
@@ -38,6 +38,7 @@ export default function RootLayout() {
            <Stack.Screen name="index" options={{ headerShown: false }} />
            <Stack.Screen name="(auth)" options={{ headerShown: false }} />
            <Stack.Screen name="(root)" options={{ headerShown: false }} />
+           <Stack.Screen name="(driver)" options={{ headerShown: false }} />
            
          </Stack>
        
@@ -1,19 +1,41 @@
 import { useAuth } from "@clerk/clerk-expo";
 import { Redirect } from "expo-router";
+import { useEffect, useState } from "react";
+
+import { fetchAPI } from "@/lib/fetch";
+import { UserRole } from "@/types/type";
 
 const Page = () => {
-  const { isSignedIn, isLoaded } = useAuth();
+  const { isSignedIn, isLoaded, userId } = useAuth();
+  const [role, setRole] = useState<UserRole | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    fetchAPI("/(api)/user")
+      .then(({ data }) => setRole(data.role))
+      // Fall back to the rider app if the role cannot be read
+      .catch(() => setRole("rider"));
+  }, [userId]);
 
   // Wait for Clerk to finish loading
   if (!isLoaded) {
     return null;
   }
 
-  if (isSignedIn) {
-    return <Redirect href="/(root)/(tabs)/home" />;
+  if (!isSignedIn) {
+    return <Redirect href="/(auth)/welcome" />;
+  }
+
+  if (!role) {
+    return null;
+  }
+
+  if (role === "driver") {
+    return <Redirect href="/(driver)/home" />;
   }
 
-  return <Redirect href="/(auth)/welcome" />;
+  return <Redirect href="/(root)/(tabs)/home" />;
 };
 
 export default Page;
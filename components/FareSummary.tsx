@@ -0,0 +1,67 @@
+import React from "react";
+import { Text, View } from "react-native";
+
+import { formatCents, getFareClass } from "@/lib/fare";
+import { AppliedPromotion, FareBreakdown } from "@/types/type";
+
+const FareRow = ({ label, amount }: { label: string; amount: number }) => (
+  <View className="flex-row justify-between items-center mb-2">
+    <Text className="text-sm text-gray-600">{label}</Text>
+    <Text className="text-sm text-gray-900">{formatCents(amount)}</Text>
+  </View>
+);
+
+const FareSummary = ({
+  breakdown,
+  promotion,
+}: {
+  breakdown: FareBreakdown;
+  promotion?: AppliedPromotion;
+}) => {
+  return (
+    <View className="bg-white rounded-xl p-3">
+      <Text className="text-xs font-medium text-gray-500 uppercase mb-2">
+        {getFareClass(breakdown.vehicle_class).name}
+      </Text>
+      <FareRow label="Base Fare" amount={breakdown.base_fare} />
+      <FareRow
+        label={`Distance (${breakdown.distance_km} km)`}
+        amount={breakdown.distance_fare}
+      />
+      <FareRow
+        label={`Time (${breakdown.duration_minutes} min)`}
+        amount={breakdown.time_fare}
+      />
+      {breakdown.minimum_fare_adjustment > 0 && (
+        <FareRow
+          label="Minimum Fare Adjustment"
+          amount={breakdown.minimum_fare_adjustment}
+        />
+      )}
+      {breakdown.surge_multiplier > 1 && (
+        <FareRow
+          label={`Surge (${breakdown.surge_multiplier}x)`}
+          amount={breakdown.surge_amount}
+        />
+      )}
+      <FareRow label="Booking Fee" amount={breakdown.booking_fee} />
+      {promotion && (
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="text-sm text-green-700">Promo ({promotion.code})</Text>
+          <Text className="text-sm text-green-700">
+            -{formatCents(promotion.discount_amount)}
+          </Text>
+        </View>
+      )}
+      <View className="h-px bg-gray-200 my-2" />
+      <View className="flex-row justify-between items-center">
+        <Text className="text-base font-bold text-gray-900">Total</Text>
+        <Text className="text-xl font-bold text-green-600">
+          {formatCents(breakdown.total - (promotion?.discount_amount ?? 0))}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+export default FareSummary;
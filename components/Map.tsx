@@ -1,78 +1,61 @@
 import { View, Text, ActivityIndicator } from 'react-native';
 import React, { useEffect, useState, useRef } from "react";
-import MapView, { Marker, PROVIDER_GOOGLE, Polyline } from "react-native-maps";
+import MapView, {
+  AnimatedRegion,
+  Marker,
+  MarkerAnimated,
+  PROVIDER_GOOGLE,
+  Polyline,
+} from "react-native-maps";
 import { useDriverStore, useLocationStore } from "@/store";
 import {
+  calculateDistance,
   calculateDriverTimes,
   calculateRegion,
+  formatLocationAge,
+  formatWaypoints,
   generateMarkersFromData,
 } from "@/lib/map";
-import { Driver, MarkerData } from "@/types/type";
+import { fetchAPI } from "@/lib/fetch";
+import { Driver, MarkerData, RideDetail, RideTracking } from "@/types/type";
 import { icons } from "@/constants";
 
-const drivers: Driver[] = [
-  {
-    id: 1,
-    first_name: "James",
-    last_name: "Wilson",
-    profile_image_url: "https://randomuser.me/api/portraits/men/1.jpg",
-    car_image_url: "https://images.pexels.com/photos/170811/pexels-photo-170811.jpeg",
-    car_seats: 4,
-    rating: 4.8
-  },
-  {
-    id: 2,
-    first_name: "David",
-    last_name: "Brown",
-    profile_image_url: "https://randomuser.me/api/portraits/men/40.jpg",
-    car_image_url: "https://images.pexels.com/photos/210019/pexels-photo-210019.jpeg",
-    car_seats: 4,
-    rating: 4.6
-  },
-  {
-    id: 3,
-    first_name: "Ben",
-    last_name: "Sam",
-    profile_image_url: "https://randomuser.me/api/portraits/men/30.jpg",
-    car_image_url: "https://images.unsplash.com/photo-1583121274602-3e2820c69888?w=400",
-    car_seats: 4,
-    rating: 4.9
-  },
-  {
-    id: 4,
-    first_name: "Mathew",
-    last_name: "Sani",
-    profile_image_url: "https://randomuser.me/api/portraits/men/20.jpg",
-    car_image_url: "https://images.pexels.com/photos/1402787/pexels-photo-1402787.jpeg",
-    car_seats: 4,
-    rating: 4.7
-  },
-  {
-    id: 5,
-    first_name: "James",
-    last_name: "Davis",
-    profile_image_url: "https://randomuser.me/api/portraits/men/50.jpg",
-    car_image_url: "https://images.unsplash.com/photo-1552519507-da3b142c6e3d?w=400",
-    car_seats: 3,
-    rating: 4.85
-  }
-];
-
 // Get Geoapify API key from environment variables
 const GEOAPIFY_API_KEY = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY || "";
 
+// How far around the rider to look for online drivers
+const DRIVER_SEARCH_RADIUS_KM = 5;
+const DRIVER_SEARCH_LIMIT = 10;
+// A tracked driver's marker glides to each new position over this long
+const DRIVER_ANIMATION_MS = 1000;
+// The tracked route is only fetched again once the driver has moved this far
+const ROUTE_REFRESH_DISTANCE_KM = 0.1;
+// A replayed ride travels its whole route in this many steps over this long
+const REPLAY_DURATION_MS = 6000;
+const REPLAY_STEPS = 60;
+
 interface RouteCoordinate {
   latitude: number;
   longitude: number;
 }
 
-const Map = () => {
+interface MapProps {
+  // When set, the map follows this ride's driver instead of the booking
+  tracking?: RideTracking | null;
+  // When set, the map shows this past ride's route and plays it back
+  replay?: RideDetail | null;
+  // Change to play the replay again
+  replayKey?: number;
+}
+
+const Map = ({ tracking, replay, replayKey }: MapProps) => {
   const mapRef = useRef<MapView>(null);
   const {
     userLatitude,
     userLongitude,
     destinationLatitude,
-    destinationLongitude,  
+    destinationLongitude,
+    stops,
   } = useLocationStore();
   const { selectedDriver, setDrivers } = useDriverStore();
   const [markers, setMarkers] = useState<MarkerData[]>([]);
@@ -81,32 +64,94 @@ const Map = () => {
   const [routeDistance, setRouteDistance] = useState<string>('');
   const [routeDuration, setRouteDuration] = useState<string>('');
   const [isLoadingRoute, setIsLoadingRoute] = useState(false);
+  const driverCoordinate = useRef(
+    new AnimatedRegion({ latitude: 0, longitude: 0, latitudeDelta: 0, longitudeDelta: 0 })
+  );
+  const driverPlaced = useRef(false);
+  const [routeAnchor, setRouteAnchor] = useState<RouteCoordinate | null>(null);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+
+  const isTracking = !!tracking;
+  // A tracked or replayed ride brings its own route; otherwise the map
+  // shows the booking
+  const ride = tracking ?? replay;
+  const showsRide = !!ride;
+  const originLatitude = ride ? ride.origin_latitude : userLatitude;
+  const originLongitude = ride ? ride.origin_longitude : userLongitude;
+  const routeDestinationLatitude = ride ? ride.destination_latitude : destinationLatitude;
+  const routeDestinationLongitude = ride ? ride.destination_longitude : destinationLongitude;
+  const routeStops = ride ? ride.stops : stops;
+  const driverLatitude = tracking?.driver?.latitude ?? null;
+  const driverLongitude = tracking?.driver?.longitude ?? null;
 
   const region = calculateRegion({
-    userLatitude,
-    userLongitude,
-    destinationLatitude,
-    destinationLongitude,
+    userLatitude: originLatitude,
+    userLongitude: originLongitude,
+    destinationLatitude: routeDestinationLatitude,
+    destinationLongitude: routeDestinationLongitude,
+    stops: routeStops,
   });
 
+  // A tracked driver is routed from where they are to wherever they are
+  // heading next; a booking from the rider through every stop
+  let routeWaypoints: RouteCoordinate[] = [];
+  if (tracking) {
+    if (routeAnchor && tracking.eta_target === "pickup") {
+      routeWaypoints = [
+        routeAnchor,
+        { latitude: tracking.origin_latitude, longitude: tracking.origin_longitude },
+      ];
+    } else if (routeAnchor && tracking.eta_target === "destination") {
+      routeWaypoints = [
+        routeAnchor,
+        ...tracking.stops,
+        { latitude: tracking.destination_latitude, longitude: tracking.destination_longitude },
+      ];
+    }
+  } else if (!replay && userLatitude && userLongitude && destinationLatitude && destinationLongitude) {
+    routeWaypoints = [
+      { latitude: userLatitude, longitude: userLongitude },
+      ...stops,
+      { latitude: destinationLatitude, longitude: destinationLongitude },
+    ];
+  }
+  const waypointsKey = formatWaypoints(routeWaypoints);
+
   // Generate initial markers and calculate times when destination is set
   useEffect(() => {
     const setupDrivers = async () => {
-      if (!Array.isArray(drivers)) return;
-      if (!userLatitude || !userLongitude) return;
-
-      // Generate markers with random positions near user
-      const newMarkers = generateMarkersFromData({
-        data: drivers,
-        userLatitude,
-        userLongitude,
-      });
+      if (showsRide || !userLatitude || !userLongitude) return;
+
+      // Fetch online drivers near the user, nearest first
+      let drivers: Driver[] = [];
+      try {
+        const response = await fetchAPI(
+          `/(api)/driver?lat=${userLatitude}&lng=${userLongitude}&radius_km=${DRIVER_SEARCH_RADIUS_KM}&limit=${DRIVER_SEARCH_LIMIT}`
+        );
+        drivers = response.data ?? [];
+      } catch (error) {
+        console.error("Error fetching nearby drivers:", error);
+      }
+
+      // Generate map markers for the nearby drivers
+      const newMarkers = generateMarkersFromData({ data: drivers });
       
       setMarkers(newMarkers);
 
       // If destination is set, calculate driver times and prices
       if (destinationLatitude && destinationLongitude) {
         console.log("Calculating driver times and prices...");
+
+        // Estimates include the current surge so they match the quote
+        let surgeMultiplier = 1;
+        try {
+          const response = await fetchAPI(
+            `/(api)/surge?lat=${userLatitude}&lng=${userLongitude}`
+          );
+          surgeMultiplier = response.data?.multiplier ?? 1;
+        } catch (error) {
+          console.error("Error fetching surge multiplier:", error);
+        }
         
         const driversWithTimes = await calculateDriverTimes({
           markers: newMarkers,
@@ -114,6 +159,8 @@ const Map = () => {
           userLongitude,
           destinationLatitude,
           destinationLongitude,
+          stops,
+          surgeMultiplier,
         });
 
         if (driversWithTimes) {
@@ -129,12 +176,43 @@ const Map = () => {
     };
 
     setupDrivers();
-  }, [userLatitude, userLongitude, destinationLatitude, destinationLongitude]);
+  }, [showsRide, userLatitude, userLongitude, destinationLatitude, destinationLongitude, stops]);
+
+  // Glide the tracked driver to each new position, and move the route's
+  // starting point along once they have gone far enough to matter
+  useEffect(() => {
+    if (driverLatitude === null || driverLongitude === null) return;
+
+    const coordinate = {
+      latitude: driverLatitude,
+      longitude: driverLongitude,
+      latitudeDelta: 0,
+      longitudeDelta: 0,
+    };
+
+    if (driverPlaced.current) {
+      // toValue is replaced per coordinate by AnimatedRegion
+      driverCoordinate.current
+        .timing({ ...coordinate, duration: DRIVER_ANIMATION_MS, useNativeDriver: false, toValue: 0 })
+        .start();
+    } else {
+      driverCoordinate.current.setValue(coordinate);
+      driverPlaced.current = true;
+    }
+
+    setRouteAnchor((anchor) =>
+      anchor &&
+      calculateDistance(anchor.latitude, anchor.longitude, driverLatitude, driverLongitude) <
+        ROUTE_REFRESH_DISTANCE_KM
+        ? anchor
+        : { latitude: driverLatitude, longitude: driverLongitude }
+    );
+  }, [driverLatitude, driverLongitude]);
 
   // Fetch Geoapify Directions with traffic data
   useEffect(() => {
     const fetchDirections = async () => {
-      if (!userLatitude || !userLongitude || !destinationLatitude || !destinationLongitude || !GEOAPIFY_API_KEY) {
+      if (!waypointsKey || !GEOAPIFY_API_KEY) {
         setRouteCoordinates([]);
         setRouteDistance('');
         setRouteDuration('');
@@ -144,21 +222,32 @@ const Map = () => {
       setIsLoadingRoute(true);
 
       try {
-        // Use Geoapify Routing API with traffic data
+        // Use Geoapify Routing API with traffic data, passing through every stop
         const response = await fetch(
-          `https://api.geoapify.com/v1/routing?waypoints=${userLatitude},${userLongitude}|${destinationLatitude},${destinationLongitude}&mode=drive&traffic=approximated&details=instruction_details&apiKey=${GEOAPIFY_API_KEY}`
+          `https://api.geoapify.com/v1/routing?waypoints=${waypointsKey}&mode=drive&traffic=approximated&details=instruction_details&apiKey=${GEOAPIFY_API_KEY}`
         );
 
         const data = await response.json();
 
         if (data.features && data.features.length > 0) {
           const route = data.features[0];
-          const coordinates = route.geometry.coordinates[0].map((coord: number[]) => ({
-            latitude: coord[1],
-            longitude: coord[0],
-          }));
+          // One line per leg, joined into a single polyline
+          const coordinates = route.geometry.coordinates
+            .flat()
+            .map((coord: number[]) => ({
+              latitude: coord[1],
+              longitude: coord[0],
+            }));
 
           setRouteCoordinates(coordinates);
+
+          // Keep what is left of a tracked ride in view as the driver moves
+          if (isTracking) {
+            mapRef.current?.fitToCoordinates(coordinates, {
+              edgePadding: { top: 70, right: 50, bottom: 50, left: 50 },
+              animated: true,
+            });
+          }
           
           // Format distance
           const distanceInKm = route.properties.distance / 1000;
@@ -189,12 +278,39 @@ const Map = () => {
     };
 
     fetchDirections();
-  }, [userLatitude, userLongitude, destinationLatitude, destinationLongitude]);
+  }, [isTracking, waypointsKey]);
+
+  // Show the whole replayed route, then move a marker along it from pickup
+  // to drop-off
+  useEffect(() => {
+    if (!mapReady || !replay || replay.route.length < 2) return;
+
+    mapRef.current?.fitToCoordinates(replay.route, {
+      edgePadding: { top: 70, right: 50, bottom: 50, left: 50 },
+      animated: true,
+    });
+
+    let step = 0;
+    setReplayIndex(0);
+
+    const interval = setInterval(() => {
+      step += 1;
+      if (step > REPLAY_STEPS) {
+        clearInterval(interval);
+        setReplayIndex(null);
+        return;
+      }
+      setReplayIndex(Math.round((step / REPLAY_STEPS) * (replay.route.length - 1)));
+    }, REPLAY_DURATION_MS / REPLAY_STEPS);
+
+    return () => clearInterval(interval);
+  }, [mapReady, replay, replayKey]);
 
   // Animate map to fit both origin and destination when destination is set
   useEffect(() => {
     if (
       mapRef.current &&
+      !showsRide &&
       userLatitude &&
       userLongitude &&
       destinationLatitude &&
@@ -205,6 +321,7 @@ const Map = () => {
         mapRef.current?.fitToCoordinates(
           [
             { latitude: userLatitude, longitude: userLongitude },
+            ...stops,
             { latitude: destinationLatitude, longitude: destinationLongitude },
           ],
           {
@@ -214,9 +331,9 @@ const Map = () => {
         );
       }, 500);
     }
-  }, [destinationLatitude, destinationLongitude]);
+  }, [showsRide, destinationLatitude, destinationLongitude, stops]);
 
-  if (!userLatitude || !userLongitude) {
+  if (!originLatitude || !originLongitude) {
     return (
       <View className="w-full h-full rounded-2xl bg-gray-100 items-center justify-center">
         <ActivityIndicator size="large" color="#000" />
@@ -248,19 +365,67 @@ const Map = () => {
               longitude: marker.longitude,
             }}
             title={marker.title}
-            description={`${marker.car_seats} seats - Rating: ${marker.rating}⭐`}
+            description={`${marker.car_seats} seats - Rating: ${marker.rating}⭐${
+              marker.is_stale
+                ? ` - Last seen ${formatLocationAge(marker.location_age_seconds)}`
+                : ""
+            }`}
+            opacity={marker.is_stale ? 0.5 : 1}
             image={
               selectedDriver === +marker.id ? icons.selectedMarker : icons.marker
             }
           />
         ))}
 
+        {/* Tracked Driver and Pickup Markers */}
+        {mapReady && tracking && driverLatitude !== null && (
+          <MarkerAnimated
+            coordinate={driverCoordinate.current}
+            title={`${tracking.driver?.first_name} ${tracking.driver?.last_name}`}
+            image={icons.selectedMarker}
+          />
+        )}
+
+        {ride && (
+          <Marker
+            coordinate={{
+              latitude: ride.origin_latitude,
+              longitude: ride.origin_longitude,
+            }}
+            title="Pickup"
+            description={ride.origin_address}
+            pinColor="green"
+          />
+        )}
+
+        {/* Replayed Ride Marker */}
+        {mapReady && replay && replayIndex !== null && (
+          <Marker
+            coordinate={replay.route[replayIndex]}
+            image={icons.selectedMarker}
+          />
+        )}
+
+        {/* Stop Markers */}
+        {routeStops.map((stop, index) => (
+          <Marker
+            key={`stop-${index}`}
+            coordinate={{
+              latitude: stop.latitude,
+              longitude: stop.longitude,
+            }}
+            title={`Stop ${index + 1}`}
+            description={stop.address}
+            pinColor="orange"
+          />
+        ))}
+
         {/* Destination Marker */}
-        {destinationLatitude && destinationLongitude && (
+        {routeDestinationLatitude && routeDestinationLongitude && (
           <Marker
             coordinate={{
-              latitude: destinationLatitude,
-              longitude: destinationLongitude,
+              latitude: routeDestinationLatitude,
+              longitude: routeDestinationLongitude,
             }}
             title="Destination"
             description="Your destination"
@@ -269,6 +434,16 @@ const Map = () => {
         )}
 
         {/* Route Polyline using Geoapify */}
+        {replay && (
+          <Polyline
+            coordinates={replay.route}
+            strokeColor="#0286FF"
+            strokeWidth={5}
+            lineCap="round"
+            lineJoin="round"
+          />
+        )}
+
         {routeCoordinates.length > 0 && (
           <Polyline
             coordinates={routeCoordinates}
@@ -317,7 +492,7 @@ const Map = () => {
                 </Text>
               </View>
               <Text style={{ fontSize: 12, color: '#999' }}>
-                with traffic
+                {tracking?.eta_target ? `to ${tracking.eta_target}` : "with traffic"}
               </Text>
             </>
           )}
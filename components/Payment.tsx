@@ -3,7 +3,6 @@ import React, { useState } from "react";
 import { Alert, Image, Text, View } from "react-native";
 import { ReactNativeModal } from "react-native-modal";
 import { useStripe } from "@stripe/stripe-react-native";
-import { useAuth } from "@clerk/clerk-expo";
 
 import CustomButton from "@/components/CustomButton";
 import { images } from "@/constants";
@@ -11,24 +10,13 @@ import { fetchAPI } from "@/lib/fetch";
 import { useLocationStore } from "@/store";
 import { PaymentProps } from "@/types/type";
 
-const Payment = ({
-  fullName,
-  email,
-  amount,
-  driverId,
-  rideTime,
-}: PaymentProps) => {
+const Payment = ({ amount, quoteId }: PaymentProps) => {
   const { initPaymentSheet, presentPaymentSheet } = useStripe();
   const {
     userAddress,
-    userLongitude,
-    userLatitude,
-    destinationLatitude,
     destinationAddress,
-    destinationLongitude,
   } = useLocationStore();
 
-  const { userId } = useAuth();
   const [success, setSuccess] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
 
@@ -62,7 +50,7 @@ const Payment = ({
             console.log("🔄 Starting payment confirmation...");
 
             // Step 1: Create payment intent and customer
-            const { paymentIntent, customer } = await fetchAPI(
+            const { paymentIntent } = await fetchAPI(
               "/(api)/(stripe)/create",
               {
                 method: "POST",
@@ -70,9 +58,11 @@ const Payment = ({
                   "Content-Type": "application/json",
                 },
                 body: JSON.stringify({
-                  name: fullName || email.split("@")[0],
-                  email: email,
-                  amount: amount,
+                  quote_id: quoteId,
+                  ride: {
+                    origin_address: userAddress,
+                    destination_address: destinationAddress,
+                  },
                   paymentMethodId: paymentMethod.id,
                 }),
               },
@@ -90,8 +80,6 @@ const Payment = ({
                 body: JSON.stringify({
                   payment_method_id: paymentMethod.id,
                   payment_intent_id: paymentIntent.id,
-                  customer_id: customer,
-                  client_secret: paymentIntent.client_secret,
                 }),
               });
 
@@ -107,15 +95,8 @@ const Payment = ({
                   body: JSON.stringify({
                     origin_address: userAddress,
                     destination_address: destinationAddress,
-                    origin_latitude: userLatitude,
-                    origin_longitude: userLongitude,
-                    destination_latitude: destinationLatitude,
-                    destination_longitude: destinationLongitude,
-                    ride_time: Math.round(rideTime), // Convert to integer
-                    fare_price: parseInt(amount) * 100,
-                    payment_status: "paid",
-                    driver_id: driverId,
-                    user_id: userId,
+                    quote_id: quoteId,
+                    payment_intent_id: paymentIntent.id,
                   }),
                 });
 
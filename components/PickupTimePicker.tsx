@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from "react";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+
+import { getPickupSlots, getSchedulableDays } from "@/lib/schedule";
+
+const formatDay = (day: Date, index: number) => {
+  if (index === 0 && day.toDateString() === new Date().toDateString()) {
+    return "Today";
+  }
+
+  return day.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const formatSlot = (slot: Date) =>
+  slot.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+const Chip = ({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`px-4 py-1.5 rounded-full mr-2 mb-2 ${
+      selected ? "bg-blue-600" : "bg-white border border-gray-200"
+    }`}
+  >
+    <Text
+      className={`text-xs font-semibold ${
+        selected ? "text-white" : "text-gray-700"
+      }`}
+    >
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+// Day and time slot chips for picking a scheduled pickup; only times the
+// server will accept are offered
+const PickupTimePicker = ({
+  value,
+  onChange,
+}: {
+  value: string | null;
+  onChange: (value: string) => void;
+}) => {
+  const days = useMemo(() => getSchedulableDays(), []);
+  const [dayIndex, setDayIndex] = useState(() => {
+    const index = value
+      ? days.findIndex(
+          (day) => day.toDateString() === new Date(value).toDateString(),
+        )
+      : -1;
+    return Math.max(index, 0);
+  });
+
+  const slots = useMemo(
+    () => (days[dayIndex] ? getPickupSlots(days[dayIndex]) : []),
+    [days, dayIndex],
+  );
+
+  return (
+    <View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="mb-2"
+      >
+        {days.map((day, index) => (
+          <Chip
+            key={day.toISOString()}
+            label={formatDay(day, index)}
+            selected={index === dayIndex}
+            onPress={() => setDayIndex(index)}
+          />
+        ))}
+      </ScrollView>
+
+      <View className="flex-row flex-wrap">
+        {slots.map((slot) => (
+          <Chip
+            key={slot.toISOString()}
+            label={formatSlot(slot)}
+            selected={value === slot.toISOString()}
+            onPress={() => onChange(slot.toISOString())}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+export default PickupTimePicker;
@@ -0,0 +1,67 @@
+import * as WebBrowser from "expo-web-browser";
+import { Alert } from "react-native";
+
+import CustomButton from "@/components/CustomButton";
+import { authFetch, getSessionToken } from "@/lib/fetch";
+
+// Offers a completed ride's receipt as a PDF or by email
+const ReceiptButton = ({
+  rideId,
+  className,
+}: {
+  rideId: number;
+  className?: string;
+}) => {
+  const receiptPath = `(api)/ride/${rideId}/receipt`;
+
+  const emailReceipt = async () => {
+    try {
+      const response = await authFetch(`/${receiptPath}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        Alert.alert("Receipt Not Sent", result.error || "Your receipt could not be sent.");
+        return;
+      }
+
+      Alert.alert("Receipt Sent", `We emailed your receipt to ${result.data.sent_to}.`);
+    } catch (error) {
+      console.error("Error emailing receipt:", error);
+      Alert.alert("Error", "Failed to send your receipt. Please try again.");
+    }
+  };
+
+  const handlePress = () => {
+    Alert.alert("Ride Receipt", "Open the PDF or have it emailed to you.", [
+      {
+        text: "View PDF",
+        // The browser can't send our Authorization header, so the
+        // session token goes in the link
+        onPress: async () =>
+          WebBrowser.openBrowserAsync(
+            `${process.env.EXPO_PUBLIC_SERVER_URL}${receiptPath}?format=pdf&token=${await getSessionToken()}`,
+          ),
+      },
+      { text: "Email Me", onPress: emailReceipt },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  return (
+    <CustomButton
+      title="Get Receipt"
+      onPress={handlePress}
+      bgVariant="outline"
+      textVariant="primary"
+      className={className}
+    />
+  );
+};
+
+export default ReceiptButton;
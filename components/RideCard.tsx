@@ -1,7 +1,16 @@
-import { Image, Text, View } from "react-native";
+import { router } from "expo-router";
+import { Image, Text, TouchableOpacity, View } from "react-native";
 
 import { Ride } from "@/types/type";
+import CustomButton from "@/components/CustomButton";
+import ReceiptButton from "@/components/ReceiptButton";
 import { icons } from "@/constants";
+import { formatCents } from "@/lib/fare";
+import {
+  RIDE_STATUS_LABELS,
+  getRideStatusColor,
+  isRideFinished,
+} from "@/lib/ride";
 import { formatDate, formatTime } from "@/lib/utils";
 
 type Props = {
@@ -10,7 +19,16 @@ type Props = {
 
 const RideCard = ({ ride }: Props) => {
   return (
-    <View className="flex flex-row items-center justify-center rounded-lg shadow-sm shadow-neutral-300 mb-3">
+    <TouchableOpacity
+      onPress={() =>
+        router.push({
+          pathname: "/(root)/ride/[id]",
+          params: { id: ride.ride_id },
+        })
+      }
+      activeOpacity={0.8}
+      className="flex flex-row items-center justify-center rounded-lg shadow-sm shadow-neutral-300 mb-3"
+    >
         <View className="flex flex-col items-center justify-center p-3">
             <View className="flex flex-row items-center justify-between ">
                 <Image
@@ -48,15 +66,57 @@ const RideCard = ({ ride }: Props) => {
               Driver
             </Text>
             <Text className="text-md font-JakartaBold">
-              {ride.driver.first_name} {ride.driver.last_name}
+              {ride.driver
+                ? `${ride.driver.first_name} ${ride.driver.last_name}`
+                : ride.status === "requested"
+                  ? "Finding a driver..."
+                  : "Not assigned"}
             </Text>
           </View>
+          {ride.stops?.length > 0 && (
+            <View className="flex flex-row items-center w-full justify-between mb-5">
+              <Text className="text-md font-JakartaMedium text-gray-500">
+                Stops
+              </Text>
+              <Text className="text-md font-JakartaBold" numberOfLines={1}>
+                {ride.stops.length}
+              </Text>
+            </View>
+          )}
           <View className="flex flex-row items-center w-full justify-between mb-5">
             <Text className="text-md font-JakartaMedium text-gray-500">
               Car Seats
             </Text>
             <Text className="text-md font-JakartaBold">
-              {ride.driver.car_seats}
+              {ride.driver?.car_seats ?? "-"}
+            </Text>
+          </View>
+          <View className="flex flex-row items-center w-full justify-between mb-5">
+            <Text className="text-md font-JakartaMedium text-gray-500">
+              Fare
+            </Text>
+            <Text className="text-md font-JakartaBold">
+              {formatCents(ride.fare_price)}
+            </Text>
+          </View>
+          {ride.tip_amount > 0 && (
+            <View className="flex flex-row items-center w-full justify-between mb-5">
+              <Text className="text-md font-JakartaMedium text-gray-500">
+                Tip
+              </Text>
+              <Text className="text-md font-JakartaBold">
+                {formatCents(ride.tip_amount)}
+              </Text>
+            </View>
+          )}
+          <View className="flex flex-row items-center w-full justify-between mb-5">
+            <Text className="text-md font-JakartaMedium text-gray-500">
+              Ride Status
+            </Text>
+            <Text
+              className={`text-md font-JakartaBold ${getRideStatusColor(ride.status)}`}
+            >
+              {RIDE_STATUS_LABELS[ride.status] ?? ride.status}
             </Text>
           </View>
           <View className="flex flex-row items-center w-full justify-between">
@@ -69,9 +129,75 @@ const RideCard = ({ ride }: Props) => {
               {ride.payment_status}
             </Text>
           </View>
+          {ride.status !== "scheduled" && !isRideFinished(ride.status) && (
+            <CustomButton
+              title="Track Ride"
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/track-ride",
+                  params: { rideId: ride.ride_id },
+                })
+              }
+              className="mt-5"
+            />
+          )}
+          {ride.booker_share_amount !== null && (
+            <CustomButton
+              title={
+                ride.payment_status === "partially_paid"
+                  ? "Manage Split Fare"
+                  : "View Split Fare"
+              }
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/split",
+                  params: { rideId: ride.ride_id },
+                })
+              }
+              bgVariant="outline"
+              textVariant="primary"
+              className="mt-5"
+            />
+          )}
+          {ride.status === "completed" && ride.driver && !ride.has_rated_driver && (
+            <CustomButton
+              title="Rate Driver"
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/rate",
+                  params: {
+                    rideId: ride.ride_id,
+                    role: "rider",
+                    name: ride.driver?.first_name,
+                  },
+                })
+              }
+              bgVariant="outline"
+              textVariant="primary"
+              className="mt-5"
+            />
+          )}
+          {ride.status === "completed" && (
+            <ReceiptButton
+              rideId={ride.ride_id}
+              className="mt-5"
+            />
+          )}
+          {ride.status === "completed" && !ride.tip_amount && (
+            <CustomButton
+              title="Add a Tip"
+              onPress={() =>
+                router.push({
+                  pathname: "/(root)/tip",
+                  params: { rideId: ride.ride_id, fare: ride.fare_price },
+                })
+              }
+              className="mt-5"
+            />
+          )}
             </View>
         </View> 
-    </View>
+    </TouchableOpacity>
   );
 };
 
@@ -7,14 +7,25 @@ import { useRef } from "react";
 import { Ionicons } from '@expo/vector-icons';
 
 import Map from "@/components/Map";
+import { RideDetail, RideTracking } from "@/types/type";
 
 interface RideLayoutProps {
   title: string;
   snapPoints?: string[];
   children: React.ReactNode;
+  tracking?: RideTracking | null;
+  replay?: RideDetail | null;
+  replayKey?: number;
 }
 
-const RideLayout = ({ title, snapPoints, children }: RideLayoutProps) => {
+const RideLayout = ({
+  title,
+  snapPoints,
+  children,
+  tracking,
+  replay,
+  replayKey,
+}: RideLayoutProps) => {
   const bottomSheetRef = useRef<BottomSheet>(null);
 
   return (
@@ -48,7 +59,7 @@ const RideLayout = ({ title, snapPoints, children }: RideLayoutProps) => {
 
           {/* Map Container */}
           <View className="flex-1">
-            <Map />
+            <Map tracking={tracking} replay={replay} replayKey={replayKey} />
           </View>
 
           {/* Bottom Sheet */}
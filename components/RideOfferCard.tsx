@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Text, View } from "react-native";
+
+import CustomButton from "@/components/CustomButton";
+import { formatCents } from "@/lib/fare";
+import { RideOffer } from "@/types/type";
+
+type Props = {
+  offer: RideOffer;
+  responding: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+};
+
+const RideOfferCard = ({ offer, responding, onAccept, onDecline }: Props) => {
+  // Counted down from the server's figure so a skewed phone clock does not
+  // matter
+  const [secondsLeft, setSecondsLeft] = useState(offer.seconds_left);
+
+  useEffect(() => {
+    setSecondsLeft(offer.seconds_left);
+    const timer = setInterval(() => {
+      setSecondsLeft((seconds) => Math.max(seconds - 1, 0));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [offer.id, offer.seconds_left]);
+
+  const expired = secondsLeft === 0;
+
+  return (
+    <View className="bg-white rounded-2xl p-4 mb-4 border-2 border-blue-500">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-lg font-JakartaBold">New ride request</Text>
+        <Text
+          className={`text-lg font-JakartaBold ${
+            secondsLeft <= 10 ? "text-red-500" : "text-blue-500"
+          }`}
+        >
+          {secondsLeft}s
+        </Text>
+      </View>
+
+      <View className="flex-row justify-between mb-3">
+        <View>
+          <Text className="text-xs text-gray-500 uppercase">Fare</Text>
+          <Text className="text-xl font-JakartaBold text-green-600">
+            {formatCents(offer.fare_amount)}
+          </Text>
+        </View>
+        <View className="items-end">
+          <Text className="text-xs text-gray-500 uppercase">To pickup</Text>
+          <Text className="text-xl font-JakartaBold">
+            {offer.pickup_distance_km === null
+              ? "—"
+              : `${offer.pickup_distance_km.toFixed(1)} km`}
+          </Text>
+        </View>
+      </View>
+
+      <Text className="text-xs text-gray-500 uppercase">Rider</Text>
+      <Text className="text-md font-JakartaMedium mb-2">
+        {offer.rider_rating === null
+          ? "New rider"
+          : `★ ${offer.rider_rating.toFixed(1)} (${offer.rider_rating_count} ${
+              offer.rider_rating_count === 1 ? "rating" : "ratings"
+            })`}
+      </Text>
+      <Text className="text-xs text-gray-500 uppercase">Pickup</Text>
+      <Text className="text-md font-JakartaMedium mb-2" numberOfLines={2}>
+        {offer.origin_address}
+      </Text>
+      <Text className="text-xs text-gray-500 uppercase">Drop-off</Text>
+      <Text className="text-md font-JakartaMedium mb-1" numberOfLines={2}>
+        {offer.destination_address}
+      </Text>
+      <Text className="text-xs text-gray-500">
+        About {offer.ride_time} min trip
+      </Text>
+
+      <View className="flex-row mt-4">
+        <CustomButton
+          title="Decline"
+          onPress={onDecline}
+          disabled={responding || expired}
+          bgVariant="outline"
+          textVariant="primary"
+          className="flex-1 w-auto mr-2"
+        />
+        <CustomButton
+          title={expired ? "Expired" : "Accept"}
+          onPress={onAccept}
+          disabled={responding || expired}
+          bgVariant="success"
+          className="flex-1 w-auto"
+        />
+      </View>
+    </View>
+  );
+};
+
+export default RideOfferCard;
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Alert, Text, View } from "react-native";
+import { ReactNativeModal } from "react-native-modal";
+
+import CustomButton from "@/components/CustomButton";
+import PickupTimePicker from "@/components/PickupTimePicker";
+import { formatCents } from "@/lib/fare";
+import { authFetch, fetchAPI } from "@/lib/fetch";
+import { formatPickupTime } from "@/lib/schedule";
+import { Ride } from "@/types/type";
+
+type Props = {
+  ride: Ride;
+  onChanged: () => void;
+};
+
+const ScheduledRideCard = ({ ride, onChanged }: Props) => {
+  const [editing, setEditing] = useState(false);
+  const [pickupAt, setPickupAt] = useState<string | null>(
+    ride.scheduled_pickup_at,
+  );
+  const [saving, setSaving] = useState(false);
+
+  // Uses fetch directly so the server's reason for refusing a time reaches
+  // the rider
+  const handleReschedule = async () => {
+    if (!pickupAt) return;
+    setSaving(true);
+
+    try {
+      const response = await authFetch(`/(api)/ride/${ride.ride_id}/schedule`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          scheduled_pickup_at: pickupAt,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        Alert.alert("Error", result.error || "Could not change the pickup time.");
+        return;
+      }
+
+      setEditing(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error rescheduling ride:", error);
+      Alert.alert("Error", "Could not change the pickup time. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelRide = async () => {
+    try {
+      const { data } = await fetchAPI(`/(api)/ride/${ride.ride_id}/cancel`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: "Scheduled ride cancelled" }),
+      });
+
+      Alert.alert(
+        "Ride Cancelled",
+        data.refund_amount > 0
+          ? `${formatCents(data.refund_amount)} will be refunded to your card.`
+          : "Your scheduled ride has been cancelled.",
+      );
+      onChanged();
+    } catch (error) {
+      console.error("Error cancelling scheduled ride:", error);
+      Alert.alert("Error", "Could not cancel the ride. Please try again.");
+    }
+  };
+
+  const handleCancel = () => {
+    Alert.alert(
+      "Cancel Ride?",
+      "Scheduled rides can be cancelled for free until dispatch starts.",
+      [
+        { text: "Keep Ride", style: "cancel" },
+        { text: "Cancel Ride", style: "destructive", onPress: cancelRide },
+      ],
+    );
+  };
+
+  return (
+    <View className="bg-orange-50 rounded-lg p-3 mb-3">
+      <Text className="text-md font-JakartaBold text-orange-600 mb-1">
+        {ride.scheduled_pickup_at
+          ? formatPickupTime(ride.scheduled_pickup_at)
+          : "Scheduled"}
+      </Text>
+      <Text className="text-md font-JakartaMedium text-gray-700" numberOfLines={1}>
+        {ride.origin_address}
+      </Text>
+      <Text className="text-md font-JakartaMedium text-gray-500" numberOfLines={1}>
+        to {ride.destination_address}
+      </Text>
+
+      <View className="flex flex-row mt-3">
+        <CustomButton
+          title="Change time"
+          onPress={() => setEditing(true)}
+          bgVariant="outline"
+          textVariant="primary"
+          className="flex-1 w-auto mr-2 p-2"
+        />
+        <CustomButton
+          title="Cancel"
+          onPress={handleCancel}
+          bgVariant="danger"
+          className="flex-1 w-auto p-2"
+        />
+      </View>
+
+      <ReactNativeModal
+        isVisible={editing}
+        onBackdropPress={() => setEditing(false)}
+      >
+        <View className="bg-white p-5 rounded-2xl">
+          <Text className="text-xl font-JakartaBold mb-3">
+            Change pickup time
+          </Text>
+          <PickupTimePicker value={pickupAt} onChange={setPickupAt} />
+          <CustomButton
+            title={saving ? "Saving..." : "Save"}
+            onPress={handleReschedule}
+            disabled={saving || !pickupAt}
+            className="mt-3"
+          />
+        </View>
+      </ReactNativeModal>
+    </View>
+  );
+};
+
+export default ScheduledRideCard;
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from "react";
+import { Text, TextInput, TouchableOpacity, View } from "react-native";
+
+import { formatCents } from "@/lib/fare";
+import {
+  MAX_SPLIT_PARTICIPANTS,
+  isValidEmail,
+  normalizeEmail,
+  splitEqually,
+} from "@/lib/split";
+import { SplitShare } from "@/types/type";
+
+type SplitMode = "equal" | "custom";
+
+const SplitFareEditor = ({
+  total,
+  onChange,
+}: {
+  total: number;
+  onChange: (shares: SplitShare[]) => void;
+}) => {
+  const [enabled, setEnabled] = useState(false);
+  const [mode, setMode] = useState<SplitMode>("equal");
+  const [emails, setEmails] = useState<string[]>([]);
+  const [emailInput, setEmailInput] = useState("");
+  const [customShares, setCustomShares] = useState<Record<string, string>>({});
+
+  const shares: SplitShare[] = enabled
+    ? emails.map((email) => ({
+        email,
+        share_amount:
+          mode === "equal"
+            ? splitEqually(total, emails.length)
+            : Math.round((parseFloat(customShares[email]) || 0) * 100),
+      }))
+    : [];
+  const bookerShare =
+    total - shares.reduce((sum, share) => sum + share.share_amount, 0);
+  const sharesKey = JSON.stringify(shares);
+
+  useEffect(() => {
+    onChange(JSON.parse(sharesKey));
+  }, [sharesKey, onChange]);
+
+  const handleAddEmail = () => {
+    const email = normalizeEmail(emailInput);
+    if (!isValidEmail(email) || emails.includes(email)) return;
+
+    setEmails([...emails, email]);
+    setEmailInput("");
+  };
+
+  const handleRemoveEmail = (email: string) => {
+    setEmails(emails.filter((item) => item !== email));
+  };
+
+  return (
+    <View
+      className="bg-gray-50 rounded-2xl p-4 mb-4"
+      style={{
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 4,
+        elevation: 2,
+      }}
+    >
+      <TouchableOpacity
+        onPress={() => setEnabled(!enabled)}
+        activeOpacity={0.7}
+        className="flex-row items-center justify-between"
+      >
+        <Text className="text-base font-bold text-gray-900">Split Fare</Text>
+        <Text className="text-sm font-semibold text-blue-600">
+          {enabled ? "Don't split" : "Split with friends"}
+        </Text>
+      </TouchableOpacity>
+
+      {enabled && (
+        <View className="mt-3">
+          {/* Share mode */}
+          <View className="flex-row mb-3">
+            {(["equal", "custom"] as SplitMode[]).map((value) => (
+              <TouchableOpacity
+                key={value}
+                onPress={() => setMode(value)}
+                className={`px-4 py-1.5 rounded-full mr-2 ${
+                  mode === value ? "bg-blue-600" : "bg-white border border-gray-200"
+                }`}
+              >
+                <Text
+                  className={`text-xs font-semibold capitalize ${
+                    mode === value ? "text-white" : "text-gray-700"
+                  }`}
+                >
+                  {value} shares
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Participants */}
+          {shares.map((share) => (
+            <View
+              key={share.email}
+              className="flex-row items-center bg-white rounded-xl px-3 py-2 mb-2"
+            >
+              <Text className="flex-1 text-sm text-gray-900" numberOfLines={1}>
+                {share.email}
+              </Text>
+              {mode === "equal" ? (
+                <Text className="text-sm font-semibold text-gray-900 mr-3">
+                  {formatCents(share.share_amount)}
+                </Text>
+              ) : (
+                <View className="flex-row items-center mr-3">
+                  <Text className="text-sm text-gray-500">$</Text>
+                  <TextInput
+                    value={customShares[share.email] ?? ""}
+                    onChangeText={(value) =>
+                      setCustomShares({ ...customShares, [share.email]: value })
+                    }
+                    placeholder="0.00"
+                    keyboardType="decimal-pad"
+                    className="w-16 text-sm text-gray-900 text-right"
+                  />
+                </View>
+              )}
+              <TouchableOpacity onPress={() => handleRemoveEmail(share.email)}>
+                <Text className="text-sm font-semibold text-red-500">Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {emails.length < MAX_SPLIT_PARTICIPANTS && (
+            <View className="flex-row items-center bg-white border border-gray-200 rounded-xl pl-3">
+              <TextInput
+                value={emailInput}
+                onChangeText={setEmailInput}
+                onSubmitEditing={handleAddEmail}
+                placeholder="Friend's email"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="email-address"
+                className="flex-1 py-2.5 text-sm text-gray-900"
+              />
+              <TouchableOpacity onPress={handleAddEmail} className="px-4 py-2.5">
+                <Text className="text-sm font-semibold text-blue-600">Invite</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {shares.length > 0 && (
+            <View className="flex-row justify-between items-center mt-3">
+              <Text className="text-sm text-gray-600">Your share</Text>
+              <Text
+                className={`text-base font-bold ${
+                  bookerShare > 0 ? "text-green-600" : "text-red-600"
+                }`}
+              >
+                {formatCents(bookerShare)}
+              </Text>
+            </View>
+          )}
+          <Text className="text-xs text-gray-500 mt-2">
+            Each friend approves and pays their own share. You can cover any
+            share that is not paid.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default SplitFareEditor;
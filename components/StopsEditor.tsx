@@ -0,0 +1,100 @@
+import { Image, Text, TouchableOpacity, View } from "react-native";
+
+import GoogleTextInput from "@/components/GoogleTextInput";
+import { icons } from "@/constants";
+import { MAX_RIDE_STOPS } from "@/lib/stops";
+import { useLocationStore } from "@/store";
+
+const StopButton = ({
+  icon,
+  onPress,
+  disabled,
+}: {
+  icon: any;
+  onPress: () => void;
+  disabled?: boolean;
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    disabled={disabled}
+    className={`w-8 h-8 rounded-full bg-gray-100 items-center justify-center ml-1 ${
+      disabled ? "opacity-30" : ""
+    }`}
+  >
+    <Image source={icon} className="w-3.5 h-3.5" resizeMode="contain" />
+  </TouchableOpacity>
+);
+
+// Pickup, the intermediate stops in visiting order, and the destination.
+// Changing the stops re-routes the map and re-prices every driver
+const StopsEditor = () => {
+  const {
+    userAddress,
+    destinationAddress,
+    stops,
+    addStop,
+    updateStop,
+    removeStop,
+    moveStop,
+  } = useLocationStore();
+
+  return (
+    <View>
+      <Text className="text-xs font-medium text-gray-500 uppercase mb-1">
+        From
+      </Text>
+      <Text className="text-sm text-gray-900 mb-3" numberOfLines={1}>
+        {userAddress || "Pickup location not set"}
+      </Text>
+
+      {stops.map((stop, index) => (
+        <View
+          key={`${index}-${stop.latitude}-${stop.longitude}`}
+          className="flex-row items-center mb-2"
+          style={{ zIndex: MAX_RIDE_STOPS - index + 1 }}
+        >
+          <GoogleTextInput
+            icon={icons.pin}
+            initialLocation={stop.address}
+            containerStyle="flex-1"
+            textInputBackgroundColor="#F3F4F6"
+            handlePress={(location) => updateStop(index, location)}
+          />
+          <StopButton
+            icon={icons.arrowUp}
+            onPress={() => moveStop(index, index - 1)}
+            disabled={index === 0}
+          />
+          <StopButton
+            icon={icons.arrowDown}
+            onPress={() => moveStop(index, index + 1)}
+            disabled={index === stops.length - 1}
+          />
+          <StopButton icon={icons.close} onPress={() => removeStop(index)} />
+        </View>
+      ))}
+
+      {stops.length < MAX_RIDE_STOPS && (
+        // Keyed on the count so the input clears once a stop is added
+        <View className="mb-2" style={{ zIndex: 1 }}>
+          <GoogleTextInput
+            key={`add-stop-${stops.length}`}
+            icon={icons.pin}
+            initialLocation={`Add a stop (${stops.length}/${MAX_RIDE_STOPS})`}
+            textInputBackgroundColor="#F3F4F6"
+            handlePress={addStop}
+          />
+        </View>
+      )}
+
+      <Text className="text-xs font-medium text-gray-500 uppercase mt-1 mb-1">
+        To
+      </Text>
+      <Text className="text-sm text-gray-900" numberOfLines={1}>
+        {destinationAddress || "Destination not set"}
+      </Text>
+    </View>
+  );
+};
+
+export default StopsEditor;
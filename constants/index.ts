@@ -31,6 +31,7 @@ import onboarding1 from "@/assets/images/onboarding1.png";
 import onboarding2 from "@/assets/images/onboarding2.png";
 import onboarding3 from "@/assets/images/onboarding3.png";
 import signUpCar from "@/assets/images/signup-car.png";
+import { FareClass, VehicleClass } from "@/types/type";
 
 export const images = {
   onboarding1,
@@ -95,6 +96,59 @@ export const onboarding = [
   },
 ];
 
+// Fare rates per vehicle class, in cents. Used for both the estimates on the
+// driver list and the server-side quote, so the two always agree
+export const fareClasses: Record<VehicleClass, FareClass> = {
+  economy: {
+    name: "Economy",
+    base_fare: 250,
+    per_km: 90,
+    per_minute: 20,
+    minimum_fare: 600,
+    booking_fee: 150,
+  },
+  comfort: {
+    name: "Comfort",
+    base_fare: 300,
+    per_km: 110,
+    per_minute: 25,
+    minimum_fare: 800,
+    booking_fee: 150,
+  },
+  premium: {
+    name: "Premium Sedan",
+    base_fare: 500,
+    per_km: 150,
+    per_minute: 35,
+    minimum_fare: 1200,
+    booking_fee: 200,
+  },
+  suv: {
+    name: "Luxury SUV",
+    base_fare: 700,
+    per_km: 180,
+    per_minute: 40,
+    minimum_fare: 1500,
+    booking_fee: 250,
+  },
+  electric: {
+    name: "Electric",
+    base_fare: 300,
+    per_km: 100,
+    per_minute: 22,
+    minimum_fare: 700,
+    booking_fee: 150,
+  },
+  van: {
+    name: "Family Van",
+    base_fare: 600,
+    per_km: 160,
+    per_minute: 35,
+    minimum_fare: 1400,
+    booking_fee: 250,
+  },
+};
+
 export const data = {
   onboarding,
 };
@@ -0,0 +1,201 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { RIDE_STATUSES, isRideFinished } from "@/lib/ride";
+import { anonymizeUser } from "@/lib/user";
+import { ZipEntry, buildZip } from "@/lib/zip";
+
+type Sql = NeonQueryFunction<false, false>;
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Rides still under way or waiting for pickup, which block deleting the
+// account until they are finished or cancelled
+const OPEN_RIDE_STATUSES = RIDE_STATUSES.filter(
+  (status) => !isRideFinished(status),
+);
+
+// Everything the app keeps about one user, for GET /(api)/me/export
+export const getAccountData = async (sql: Sql, userId: string) => {
+  const [[profile], rides, payments, ratings, messages] = await Promise.all([
+    sql`
+      SELECT id, name, email, clerk_id, role, created_at
+      FROM users
+      WHERE clerk_id = ${userId};
+    `,
+    sql`
+      SELECT
+        id,
+        status,
+        origin_address,
+        destination_address,
+        origin_latitude::float,
+        origin_longitude::float,
+        destination_latitude::float,
+        destination_longitude::float,
+        ride_time,
+        fare_price,
+        discount_amount,
+        tip_amount,
+        payment_status,
+        driver_id,
+        vehicle_class,
+        scheduled_pickup_at,
+        cancellation_reason,
+        cancellation_fee,
+        refund_amount,
+        created_at,
+        completed_at,
+        cancelled_at
+      FROM rides
+      WHERE user_id = ${userId}
+      ORDER BY created_at ASC;
+    `,
+    sql`
+      SELECT
+        id,
+        ride_id,
+        kind,
+        amount,
+        refunded_amount,
+        currency,
+        status,
+        stripe_payment_intent_id,
+        created_at
+      FROM payments
+      WHERE user_id = ${userId}
+      ORDER BY created_at ASC;
+    `,
+    sql`
+      SELECT id, ride_id, rater_role, driver_id, stars, tags, comment, created_at
+      FROM ratings
+      WHERE rider_id = ${userId}
+      ORDER BY created_at ASC;
+    `,
+    sql`
+      SELECT messages.id, messages.ride_id, messages.sender_role, messages.body, messages.created_at, messages.read_at
+      FROM messages
+      INNER JOIN rides ON rides.id = messages.ride_id
+      WHERE rides.user_id = ${userId} OR messages.sender_id = ${userId}
+      ORDER BY messages.created_at ASC;
+    `,
+  ]);
+
+  return { profile: profile ?? null, rides, payments, ratings, messages };
+};
+
+export type AccountData = Awaited<ReturnType<typeof getAccountData>>;
+
+const toCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: Record<string, unknown>[]) => {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+  return [
+    columns.join(","),
+    ...rows.map((row) => columns.map((column) => toCsvValue(row[column])).join(",")),
+  ].join("\r\n");
+};
+
+// One CSV file per kind of record, zipped together
+export const buildAccountCsvBundle = (data: AccountData) => {
+  const entries: ZipEntry[] = [
+    { name: "profile.csv", content: toCsv(data.profile ? [data.profile] : []) },
+    { name: "rides.csv", content: toCsv(data.rides) },
+    { name: "payments.csv", content: toCsv(data.payments) },
+    { name: "ratings.csv", content: toCsv(data.ratings) },
+    { name: "messages.csv", content: toCsv(data.messages) },
+  ];
+
+  return buildZip(entries);
+};
+
+export const hasOpenRides = async (sql: Sql, userId: string) => {
+  const [ride] = await sql`
+    SELECT id FROM rides
+    WHERE user_id = ${userId} AND status = ANY(${OPEN_RIDE_STATUSES})
+    LIMIT 1;
+  `;
+  return Boolean(ride);
+};
+
+// Strips what identifies the user from their rides and everything attached
+// to them. Fares, payments, refunds and driver earnings stay as they are,
+// since they are needed for accounting
+export const anonymizeAccountData = async (sql: Sql, userId: string) => {
+  const rides = await sql`
+    UPDATE rides
+    SET
+      origin_address = 'Deleted',
+      destination_address = 'Deleted',
+      origin_latitude = 0,
+      origin_longitude = 0,
+      destination_latitude = 0,
+      destination_longitude = 0,
+      route_polyline = NULL,
+      cancellation_reason = NULL,
+      updated_at = NOW()
+    WHERE user_id = ${userId}
+    RETURNING id;
+  `;
+  const rideIds = rides.map((ride) => ride.id);
+
+  await Promise.all([
+    sql`
+      UPDATE ride_stops
+      SET address = 'Deleted', latitude = 0, longitude = 0
+      WHERE ride_id = ANY(${rideIds});
+    `,
+    sql`
+      UPDATE messages
+      SET body = 'Message deleted'
+      WHERE sender_id = ${userId};
+    `,
+    sql`
+      UPDATE ratings
+      SET comment = NULL
+      WHERE rider_id = ${userId} AND rater_role = 'rider';
+    `,
+    sql`
+      UPDATE ride_issues
+      SET details = NULL
+      WHERE user_id = ${userId};
+    `,
+  ]);
+
+  await anonymizeUser(sql, userId);
+
+  return { rides: rideIds.length };
+};
+
+// Removes every saved card from the Stripe customers the user has paid as,
+// so none can be charged again. The customers and their payment history
+// are kept
+export const detachPaymentMethods = async (sql: Sql, userId: string) => {
+  const customers = await sql`
+    SELECT DISTINCT stripe_customer_id FROM payments WHERE user_id = ${userId};
+  `;
+
+  let detached = 0;
+  for (const { stripe_customer_id } of customers) {
+    for await (const paymentMethod of stripe.customers.listPaymentMethods(
+      stripe_customer_id,
+    )) {
+      await stripe.paymentMethods.detach(paymentMethod.id);
+      detached++;
+    }
+  }
+
+  return detached;
+};
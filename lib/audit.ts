@@ -0,0 +1,30 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+type Sql = NeonQueryFunction<false, false>;
+
+export type AuditAction =
+  | "account.exported"
+  | "account.deletion_requested"
+  | "account.deleted"
+  | "account.deletion_failed";
+
+// Appends to audit_log, which is never rewritten or anonymized, so a user's
+// exports and deletion can still be accounted for after the account is gone
+export const recordAudit = async (
+  sql: Sql,
+  request: Request,
+  userId: string,
+  action: AuditAction,
+  details: Record<string, unknown> = {},
+) => {
+  await sql`
+    INSERT INTO audit_log (user_id, action, details, ip_address, user_agent)
+    VALUES (
+      ${userId},
+      ${action},
+      ${JSON.stringify(details)},
+      ${request.headers.get("x-forwarded-for")?.split(",")[0].trim() ?? null},
+      ${request.headers.get("user-agent")}
+    );
+  `;
+};
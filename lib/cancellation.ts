@@ -0,0 +1,77 @@
+import { RideStatus } from "@/types/type";
+
+// Rider cancellation policy; each value can be overridden from the environment
+export const CANCELLATION_POLICY = {
+  // Cancelling this soon after booking is always free
+  freeWindowMinutes: Number(process.env.CANCELLATION_FREE_WINDOW_MINUTES ?? 2),
+  // Flat fee once a driver has accepted the ride, in cents
+  driverAssignedFee: Number(process.env.CANCELLATION_DRIVER_ASSIGNED_FEE ?? 500),
+};
+
+export type CancellationRule =
+  | "free_window"
+  | "no_driver_assigned"
+  | "driver_assigned"
+  | "driver_arrived"
+  | "driver_cancelled"
+  | "no_show";
+
+export interface CancellationOutcome {
+  rule: CancellationRule;
+  cancellation_fee: number;
+  refund_amount: number;
+}
+
+export const calculateCancellationFee = ({
+  status,
+  farePrice,
+  minutesSinceBooking,
+}: {
+  status: RideStatus;
+  farePrice: number;
+  minutesSinceBooking: number;
+}): CancellationOutcome => {
+  let rule: CancellationRule;
+  let fee: number;
+
+  if (status === "arrived") {
+    rule = "driver_arrived";
+    fee = farePrice;
+  } else if (minutesSinceBooking <= CANCELLATION_POLICY.freeWindowMinutes) {
+    rule = "free_window";
+    fee = 0;
+  } else if (status === "accepted" || status === "driver_arriving") {
+    rule = "driver_assigned";
+    fee = CANCELLATION_POLICY.driverAssignedFee;
+  } else {
+    rule = "no_driver_assigned";
+    fee = 0;
+  }
+
+  const cancellationFee = Math.min(fee, farePrice);
+
+  return {
+    rule,
+    cancellation_fee: cancellationFee,
+    refund_amount: farePrice - cancellationFee,
+  };
+};
+
+// When the driver ends the ride instead: a driver cancelling costs the rider
+// nothing, while a rider who never turns up pays as if they had cancelled
+// after the driver arrived
+export const calculateDriverCancellationFee = ({
+  status,
+  farePrice,
+}: {
+  status: "cancelled_by_driver" | "no_show";
+  farePrice: number;
+}): CancellationOutcome => {
+  const cancellationFee = status === "no_show" ? farePrice : 0;
+
+  return {
+    rule: status === "no_show" ? "no_show" : "driver_cancelled",
+    cancellation_fee: cancellationFee,
+    refund_amount: farePrice - cancellationFee,
+  };
+};
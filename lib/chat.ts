@@ -0,0 +1,74 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { UserRole } from "@/types/type";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// Threads stay open this long after the ride ends, for lost property and
+// the like, and are read-only after that
+export const CHAT_LOCK_HOURS = Number(process.env.CHAT_LOCK_HOURS ?? 3);
+export const CHAT_MAX_MESSAGE_LENGTH = 500;
+export const CHAT_PAGE_SIZE = 30;
+
+export const CHAT_QUICK_REPLIES: Record<UserRole, string[]> = {
+  rider: ["I'm here", "Running 2 min late", "On my way out", "Where are you?"],
+  driver: ["I'm here", "Running 2 min late", "Stuck in traffic", "Where are you?"],
+};
+
+// The caller's side of a ride's thread, or undefined if they are neither
+// its rider nor its assigned driver. There is no thread before a driver
+// accepts the ride; a rider-chosen driver is set on the ride from the start
+export const getChatAccess = async (
+  sql: Sql,
+  rideId: string,
+  userId: string,
+) => {
+  const [access] = await sql`
+    SELECT
+      rides.id AS ride_id,
+      rides.status,
+      CASE WHEN rides.user_id = ${userId} THEN 'rider' ELSE 'driver' END AS role,
+      COALESCE(
+        COALESCE(rides.completed_at, rides.cancelled_at, rides.no_show_at) <
+          NOW() - make_interval(hours => ${CHAT_LOCK_HOURS}),
+        false
+      ) AS locked
+    FROM rides
+    LEFT JOIN users ON users.clerk_id = ${userId} AND users.role = 'driver'
+    WHERE rides.id = ${rideId}
+      AND rides.driver_id IS NOT NULL
+      AND rides.accepted_at IS NOT NULL
+      AND (rides.user_id = ${userId} OR rides.driver_id = users.driver_id);
+  `;
+
+  return access as
+    | { ride_id: number; status: string; role: UserRole; locked: boolean }
+    | undefined;
+};
+
+// Messages the other side sent that the caller has not read, across every
+// thread they are part of
+export const countUnreadMessages = async (sql: Sql, userId: string) => {
+  const [result] = await sql`
+    SELECT COUNT(*)::int AS count
+    FROM messages
+    INNER JOIN rides ON rides.id = messages.ride_id
+    LEFT JOIN users ON users.clerk_id = ${userId} AND users.role = 'driver'
+    WHERE messages.read_at IS NULL
+      AND (
+        (rides.user_id = ${userId} AND messages.sender_role = 'driver')
+        OR (rides.driver_id = users.driver_id AND messages.sender_role = 'rider')
+      );
+  `;
+
+  return result.count as number;
+};
+
+// Time of day for today's messages, otherwise the date
+export const formatMessageTime = (value: string) => {
+  const date = new Date(value);
+
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
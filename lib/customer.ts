@@ -0,0 +1,40 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// The Stripe customer a signed-in user pays as: the one they last paid
+// with, or else one found or created for the email Clerk has for them.
+// Never taken from the request, since an ephemeral key for the customer
+// opens up its saved cards. Null if the user has no row yet
+export const getStripeCustomerId = async (sql: Sql, userId: string) => {
+  const [payment] = await sql`
+    SELECT stripe_customer_id
+    FROM payments
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC
+    LIMIT 1;
+  `;
+
+  if (payment) return payment.stripe_customer_id as string;
+
+  const [user] = await sql`
+    SELECT name, email FROM users
+    WHERE clerk_id = ${userId} AND deleted_at IS NULL;
+  `;
+
+  if (!user) return null;
+
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+  const existing = await stripe.customers.list({ email: user.email, limit: 1 });
+
+  if (existing.data.length > 0) return existing.data[0].id;
+
+  const customer = await stripe.customers.create({
+    name: user.name,
+    email: user.email,
+    metadata: { user_id: userId },
+  });
+
+  return customer.id;
+};
@@ -0,0 +1,252 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { DRIVER_ACTIVE_STATUSES } from "@/lib/driver";
+import { createRideOffer, expireStaleOffers } from "@/lib/offers";
+import { refundRidePayments } from "@/lib/refunds";
+import { SCHEDULE_DISPATCH_LEAD_MINUTES } from "@/lib/schedule";
+import { DispatchMode, VehicleClass } from "@/types/type";
+
+type Sql = NeonQueryFunction<false, false>;
+
+export const DISPATCH_MODES: DispatchMode[] = ["auto", "rider"];
+
+export const DISPATCH_CONFIG = {
+  // How long to keep looking for a driver before refunding the rider
+  giveUpMinutes: Number(process.env.DISPATCH_GIVE_UP_MINUTES ?? 5),
+  searchRadiusKm: Number(process.env.DISPATCH_SEARCH_RADIUS_KM ?? 10),
+  // Used to turn straight-line distance into a pickup ETA
+  averageSpeedKmh: Number(process.env.DISPATCH_AVERAGE_SPEED_KMH ?? 30),
+  // Drivers whose last report is older than this are not offered rides
+  maxLocationAgeSeconds: 120,
+  // Ranking trades these off against minutes of pickup ETA: a driver one
+  // star better is worth this many extra minutes of waiting, and so on
+  minutesPerRatingStar: 3,
+  minutesForFullAcceptance: 5,
+};
+
+// Offers considered when working out a driver's acceptance rate, and the
+// prior that keeps new drivers from being ranked on one or two answers
+const ACCEPTANCE_WINDOW = 50;
+const ACCEPTANCE_PRIOR = { accepted: 4, answered: 5 };
+
+const KM_PER_DEGREE = 111.32;
+
+// Drivers are only sent rides that have been paid for. A split ride is
+// dispatched once the booker has paid their share
+const DISPATCHABLE_PAYMENT_STATUSES = ["paid", "partially_paid"];
+
+export const isDispatchMode = (value: unknown): value is DispatchMode =>
+  typeof value === "string" && DISPATCH_MODES.includes(value as DispatchMode);
+
+// A requested ride as advanceDispatch reads it
+interface DispatchRide {
+  id: number;
+  driver_id: number | null;
+  dispatch_mode: DispatchMode;
+  vehicle_class: VehicleClass;
+  origin_latitude: number;
+  origin_longitude: number;
+  window_passed: boolean;
+  has_open_offer: boolean;
+  has_offers: boolean;
+}
+
+export interface DispatchCandidate {
+  id: number;
+  rating: number;
+  distance_km: number;
+  accepted_offers: number;
+  answered_offers: number;
+}
+
+export const getPickupEtaMinutes = (distanceKm: number) =>
+  (distanceKm / DISPATCH_CONFIG.averageSpeedKmh) * 60;
+
+export const getAcceptanceRate = (accepted: number, answered: number) =>
+  (accepted + ACCEPTANCE_PRIOR.accepted) / (answered + ACCEPTANCE_PRIOR.answered);
+
+// Lower is better: pickup ETA in minutes, less credit for rating and for
+// how reliably the driver takes the rides they are offered
+export const scoreCandidate = (candidate: DispatchCandidate) =>
+  getPickupEtaMinutes(candidate.distance_km) -
+  candidate.rating * DISPATCH_CONFIG.minutesPerRatingStar -
+  getAcceptanceRate(candidate.accepted_offers, candidate.answered_offers) *
+    DISPATCH_CONFIG.minutesForFullAcceptance;
+
+export const rankCandidates = (candidates: DispatchCandidate[]) =>
+  [...candidates].sort((a, b) => scoreCandidate(a) - scoreCandidate(b));
+
+// Online drivers of the right class near the pickup who are free and have
+// not been offered this ride yet
+const findCandidates = async (
+  sql: Sql,
+  ride: DispatchRide,
+): Promise<DispatchCandidate[]> => {
+  const lat = ride.origin_latitude;
+  const lng = ride.origin_longitude;
+  const radiusKm = DISPATCH_CONFIG.searchRadiusKm;
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const lngDelta =
+    radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+
+  const candidates = await sql`
+    SELECT * FROM (
+      SELECT
+        drivers.id,
+        drivers.rating::float AS rating,
+        6371 * acos(
+          least(1, greatest(-1,
+            cos(radians(${lat})) * cos(radians(drivers.latitude)) *
+            cos(radians(drivers.longitude) - radians(${lng})) +
+            sin(radians(${lat})) * sin(radians(drivers.latitude))
+          ))
+        ) AS distance_km,
+        stats.accepted_offers,
+        stats.answered_offers
+      FROM drivers
+      CROSS JOIN LATERAL (
+        SELECT
+          COUNT(*) FILTER (WHERE status = 'accepted')::int AS accepted_offers,
+          COUNT(*)::int AS answered_offers
+        FROM (
+          SELECT status FROM ride_offers
+          WHERE driver_id = drivers.id
+            AND status IN ('accepted', 'declined', 'expired')
+          ORDER BY offered_at DESC
+          LIMIT ${ACCEPTANCE_WINDOW}
+        ) AS recent
+      ) AS stats
+      WHERE
+        drivers.is_online = true
+        AND drivers.vehicle_class = ${ride.vehicle_class}
+        AND drivers.location_updated_at > NOW() - make_interval(secs => ${DISPATCH_CONFIG.maxLocationAgeSeconds})
+        AND drivers.latitude BETWEEN ${lat - latDelta} AND ${lat + latDelta}
+        AND drivers.longitude BETWEEN ${lng - lngDelta} AND ${lng + lngDelta}
+        AND NOT EXISTS (
+          SELECT 1 FROM ride_offers
+          WHERE ride_offers.driver_id = drivers.id
+            AND (ride_offers.ride_id = ${ride.id} OR ride_offers.status = 'pending')
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM rides
+          WHERE rides.driver_id = drivers.id
+            AND rides.status = ANY(${DRIVER_ACTIVE_STATUSES})
+        )
+    ) AS nearby
+    WHERE distance_km <= ${radiusKm};
+  `;
+
+  return candidates as DispatchCandidate[];
+};
+
+// Ends the search and refunds everything paid towards the ride
+const giveUp = async (sql: Sql, rideId: number) => {
+  const [ride] = await sql`
+    UPDATE rides
+    SET status = 'no_driver_found', cancelled_at = NOW(), updated_at = NOW()
+    WHERE id = ${rideId} AND status = 'requested'
+    RETURNING id;
+  `;
+
+  // Somebody else already moved the ride on
+  if (!ride) return;
+
+  const { paymentStatus } = await refundRidePayments(
+    sql,
+    rideId,
+    "no_driver_found",
+  );
+
+  if (paymentStatus) {
+    await sql`
+      UPDATE rides
+      SET payment_status = ${paymentStatus}, updated_at = NOW()
+      WHERE id = ${rideId};
+    `;
+  }
+};
+
+// Moves a requested, paid ride's search along one step: waits on an open
+// offer, offers the ride to the next driver, or gives up once the window
+// has passed
+export const advanceDispatch = async (sql: Sql, rideId: number) => {
+  const [ride] = (await sql`
+    SELECT
+      id,
+      driver_id,
+      dispatch_mode,
+      vehicle_class,
+      origin_latitude::float AS origin_latitude,
+      origin_longitude::float AS origin_longitude,
+      COALESCE(dispatch_started_at, requested_at, created_at) <
+        NOW() - make_interval(mins => ${DISPATCH_CONFIG.giveUpMinutes}) AS window_passed,
+      EXISTS (
+        SELECT 1 FROM ride_offers
+        WHERE ride_id = rides.id AND status = 'pending' AND expires_at > NOW()
+      ) AS has_open_offer,
+      EXISTS (SELECT 1 FROM ride_offers WHERE ride_id = rides.id) AS has_offers
+    FROM rides
+    WHERE id = ${rideId}
+      AND status = 'requested'
+      AND payment_status = ANY(${DISPATCHABLE_PAYMENT_STATUSES});
+  `) as DispatchRide[];
+
+  if (!ride || ride.has_open_offer) return;
+
+  if (ride.window_passed) {
+    await giveUp(sql, ride.id);
+    return;
+  }
+
+  // The rider asked for one particular driver, who gets the only offer
+  if (ride.dispatch_mode === "rider") {
+    if (ride.has_offers || ride.driver_id === null) await giveUp(sql, ride.id);
+    else await createRideOffer(sql, ride.id, ride.driver_id);
+    return;
+  }
+
+  // Nobody suitable right now; keep trying until the window passes
+  const [best] = rankCandidates(await findCandidates(sql, ride));
+  if (best) await createRideOffer(sql, ride.id, best.id);
+};
+
+// Run on a timer so lapsed offers move on to the next driver
+export const runDispatch = async (sql: Sql) => {
+  await expireStaleOffers(sql);
+
+  const rides = await sql`
+    SELECT id FROM rides
+    WHERE status = 'requested'
+      AND payment_status = ANY(${DISPATCHABLE_PAYMENT_STATUSES})
+    ORDER BY requested_at ASC;
+  `;
+
+  for (const ride of rides) {
+    await advanceDispatch(sql, ride.id);
+  }
+
+  return rides.length;
+};
+
+// Moves scheduled rides whose pickup is within the lead time into the
+// normal request flow. Safe to run from several places at once, since each
+// ride only moves out of scheduled once
+export const dispatchDueScheduledRides = async (sql: Sql) => {
+  const rides = await sql`
+    UPDATE rides
+    SET
+      status = 'requested',
+      requested_at = NOW(),
+      dispatch_started_at = NOW(),
+      updated_at = NOW()
+    WHERE status = 'scheduled'
+      AND scheduled_pickup_at <= NOW() + make_interval(mins => ${SCHEDULE_DISPATCH_LEAD_MINUTES})
+    RETURNING id, scheduled_pickup_at;
+  `;
+
+  for (const ride of rides) {
+    await advanceDispatch(sql, ride.id);
+  }
+
+  return rides;
+};
@@ -0,0 +1,48 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { RideStatus } from "@/types/type";
+
+// Rides a driver is currently working on, from accepting to dropping off
+export const DRIVER_ACTIVE_STATUSES: RideStatus[] = [
+  "accepted",
+  "driver_arriving",
+  "arrived",
+  "in_progress",
+];
+
+// The single step forward a driver can take from each active state
+export const DRIVER_NEXT_STATUS: Partial<Record<RideStatus, RideStatus>> = {
+  accepted: "driver_arriving",
+  driver_arriving: "arrived",
+  arrived: "in_progress",
+  in_progress: "completed",
+};
+
+export const DRIVER_ACTION_LABELS: Partial<Record<RideStatus, string>> = {
+  accepted: "Head to pickup",
+  driver_arriving: "Arrived at pickup",
+  arrived: "Start ride",
+  in_progress: "Complete ride",
+};
+
+// The drivers row linked to a user, or undefined if the user does not drive
+export const getDriverForUser = async (
+  sql: NeonQueryFunction<false, false>,
+  userId: string,
+) => {
+  const [driver] = await sql`
+    SELECT
+      drivers.id,
+      drivers.first_name,
+      drivers.last_name,
+      drivers.vehicle_class,
+      drivers.is_online,
+      drivers.latitude::float AS latitude,
+      drivers.longitude::float AS longitude
+    FROM users
+    INNER JOIN drivers ON drivers.id = users.driver_id
+    WHERE users.clerk_id = ${userId} AND users.role = 'driver';
+  `;
+
+  return driver;
+};
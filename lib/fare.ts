@@ -0,0 +1,46 @@
+import { fareClasses } from "@/constants";
+import { FareBreakdown, VehicleClass } from "@/types/type";
+
+export const getFareClass = (vehicleClass?: string) =>
+  fareClasses[vehicleClass as VehicleClass] ?? fareClasses.economy;
+
+// Prices the trip itself, from pickup to destination; the driver's approach
+// is not charged to the rider. Surge applies to the fare but not the booking fee
+export const calculateFare = ({
+  vehicleClass,
+  distanceKm,
+  durationMinutes,
+  surgeMultiplier = 1,
+}: {
+  vehicleClass: VehicleClass;
+  distanceKm: number;
+  durationMinutes: number;
+  surgeMultiplier?: number;
+}): FareBreakdown => {
+  const rates = getFareClass(vehicleClass);
+
+  const baseFare = rates.base_fare;
+  const distanceFare = Math.round(distanceKm * rates.per_km);
+  const timeFare = Math.round(durationMinutes * rates.per_minute);
+  const subtotal = baseFare + distanceFare + timeFare;
+  const minimumFareAdjustment = Math.max(rates.minimum_fare - subtotal, 0);
+  const surgeAmount = Math.round(
+    (subtotal + minimumFareAdjustment) * (surgeMultiplier - 1),
+  );
+
+  return {
+    vehicle_class: vehicleClass in fareClasses ? vehicleClass : "economy",
+    distance_km: Math.round(distanceKm * 10) / 10,
+    duration_minutes: Math.round(durationMinutes),
+    base_fare: baseFare,
+    distance_fare: distanceFare,
+    time_fare: timeFare,
+    minimum_fare_adjustment: minimumFareAdjustment,
+    surge_multiplier: surgeMultiplier,
+    surge_amount: surgeAmount,
+    booking_fee: rates.booking_fee,
+    total: subtotal + minimumFareAdjustment + surgeAmount + rates.booking_fee,
+  };
+};
+
+export const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
@@ -1,8 +1,23 @@
+import { getClerkInstance } from "@clerk/clerk-expo";
 import { useState, useEffect, useCallback } from "react";
 
+// The signed-in user's Clerk session token, which every API route expects.
+// Clerk caches it and refreshes it shortly before it expires
+export const getSessionToken = async () =>
+  (await getClerkInstance().session?.getToken()) ?? null;
+
+// fetch with the session token attached as a Bearer Authorization header
+export const authFetch = async (url: string, options?: RequestInit) => {
+  const token = await getSessionToken();
+  const headers = new Headers(options?.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  return fetch(url, { ...options, headers });
+};
+
 export const fetchAPI = async (url: string, options?: RequestInit) => {
   try {
-    const response = await fetch(url, options);
+    const response = await authFetch(url, options);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
@@ -0,0 +1,146 @@
+import { mkdir, writeFile } from "fs/promises";
+import { createConnection } from "net";
+import path from "path";
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+// Anything that can deliver a message. Pick one with MAILER; add a
+// provider by implementing this and returning it from getMailer
+export interface Mailer {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM ?? "MyRide <receipts@myride.app>";
+
+// Base64 wrapped at 76 characters, as MIME requires
+const encodeBase64 = (content: Uint8Array | string) =>
+  Buffer.from(content)
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n")
+    .trimEnd();
+
+// A complete multipart message, ready to write to disk or hand to SMTP
+export const buildMimeMessage = (message: MailMessage) => {
+  const boundary = `myride-${Date.now().toString(36)}`;
+  const alternative = `${boundary}-alt`;
+
+  const lines = [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    "",
+    `--${alternative}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBase64(message.text),
+    `--${alternative}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBase64(message.html),
+    `--${alternative}--`,
+    ...(message.attachments ?? []).flatMap((attachment) => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      "",
+      encodeBase64(attachment.content),
+    ]),
+    `--${boundary}--`,
+    "",
+  ];
+
+  return lines.join("\r\n");
+};
+
+// Writes each message to an .eml file, which any mail client can open
+export const createFileMailer = (directory: string): Mailer => ({
+  send: async (message) => {
+    await mkdir(directory, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, "_")}.eml`;
+    await writeFile(path.join(directory, filename), buildMimeMessage(message));
+    console.log(`📧 Wrote "${message.subject}" for ${message.to} to ${directory}`);
+  },
+});
+
+// Plain SMTP with no TLS or auth, for a local catcher such as MailHog or
+// Mailpit. Not meant for a real mail server
+export const createSmtpMailer = ({
+  host,
+  port,
+}: {
+  host: string;
+  port: number;
+}): Mailer => ({
+  send: (message) =>
+    new Promise<void>((resolve, reject) => {
+      const sender = MAIL_FROM.match(/<(.+)>/)?.[1] ?? MAIL_FROM;
+      // Dot-stuffing keeps a line starting with "." from ending the data
+      const data = buildMimeMessage(message).replace(/^\./gm, "..");
+      const commands = [
+        "EHLO myride.local",
+        `MAIL FROM:<${sender}>`,
+        `RCPT TO:<${message.to}>`,
+        "DATA",
+        `${data}\r\n.`,
+        "QUIT",
+      ];
+
+      const socket = createConnection({ host, port });
+      let buffer = "";
+
+      socket.setEncoding("utf8");
+      socket.setTimeout(10000, () => socket.destroy(new Error("SMTP timed out")));
+      socket.on("error", reject);
+      socket.on("close", () =>
+        commands.length === 0
+          ? resolve()
+          : reject(new Error("SMTP connection closed early")),
+      );
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+
+        // Wait until the server has finished its (possibly multi-line) reply
+        const lines = buffer.split("\r\n").filter(Boolean);
+        const last = lines[lines.length - 1];
+        if (!buffer.endsWith("\r\n") || !last || last[3] === "-") return;
+        buffer = "";
+
+        if (Number(last.slice(0, 3)) >= 400) {
+          socket.destroy(new Error(`SMTP error: ${last}`));
+          return;
+        }
+
+        const command = commands.shift();
+        if (command) socket.write(`${command}\r\n`);
+      });
+    }),
+});
+
+export const getMailer = (): Mailer =>
+  process.env.MAILER === "smtp"
+    ? createSmtpMailer({
+        host: process.env.SMTP_HOST ?? "localhost",
+        port: Number(process.env.SMTP_PORT ?? 1025),
+      })
+    : createFileMailer(process.env.MAILER_OUTBOX_DIR ?? "outbox");
@@ -1,27 +1,30 @@
-import { Driver, MarkerData } from "@/types/type";
+import { calculateFare } from "@/lib/fare";
+import { Driver, MarkerData, RideStop } from "@/types/type";
 
 const geoapifyAPI = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
 
+// Reports older than this are shown as approximate positions
+const STALE_LOCATION_SECONDS = 120;
+// Reports older than this are too old to place the driver on the map at all
+const MAX_LOCATION_AGE_SECONDS = 900;
+
 export const generateMarkersFromData = ({
   data,
-  userLatitude,
-  userLongitude,
 }: {
   data: Driver[];
-  userLatitude: number;
-  userLongitude: number;
 }): MarkerData[] => {
-  return data.map((driver) => {
-    const latOffset = (Math.random() - 0.5) * 0.01; // Random offset between -0.005 and 0.005
-    const lngOffset = (Math.random() - 0.5) * 0.01; // Random offset between -0.005 and 0.005
-
-    return {
-      latitude: userLatitude + latOffset,
-      longitude: userLongitude + lngOffset,
-      title: `${driver.first_name} ${driver.last_name}`,
+  return data
+    .filter((driver) => driver.location_age_seconds <= MAX_LOCATION_AGE_SECONDS)
+    .map((driver) => ({
       ...driver,
-    };
-  });
+      title: `${driver.first_name} ${driver.last_name}`,
+      is_stale: driver.location_age_seconds > STALE_LOCATION_SECONDS,
+    }));
+};
+
+export const formatLocationAge = (seconds?: number) => {
+  if (seconds === undefined || seconds < 60) return "just now";
+  return `${Math.floor(seconds / 60)} min ago`;
 };
 
 export const calculateRegion = ({
@@ -29,11 +32,13 @@ export const calculateRegion = ({
   userLongitude,
   destinationLatitude,
   destinationLongitude,
+  stops = [],
 }: {
   userLatitude: number | null;
   userLongitude: number | null;
   destinationLatitude?: number | null;
   destinationLongitude?: number | null;
+  stops?: RideStop[];
 }) => {
   if (!userLatitude || !userLongitude) {
     return {
@@ -53,16 +58,27 @@ export const calculateRegion = ({
     };
   }
 
-  const minLat = Math.min(userLatitude, destinationLatitude);
-  const maxLat = Math.max(userLatitude, destinationLatitude);
-  const minLng = Math.min(userLongitude, destinationLongitude);
-  const maxLng = Math.max(userLongitude, destinationLongitude);
+  const latitudes = [
+    userLatitude,
+    destinationLatitude,
+    ...stops.map((stop) => stop.latitude),
+  ];
+  const longitudes = [
+    userLongitude,
+    destinationLongitude,
+    ...stops.map((stop) => stop.longitude),
+  ];
+
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
 
   const latitudeDelta = (maxLat - minLat) * 1.3; // Adding some padding
   const longitudeDelta = (maxLng - minLng) * 1.3; // Adding some padding
 
-  const latitude = (userLatitude + destinationLatitude) / 2;
-  const longitude = (userLongitude + destinationLongitude) / 2;
+  const latitude = (minLat + maxLat) / 2;
+  const longitude = (minLng + maxLng) / 2;
 
   return {
     latitude,
@@ -78,12 +94,16 @@ export const calculateDriverTimes = async ({
   userLongitude,
   destinationLatitude,
   destinationLongitude,
+  stops = [],
+  surgeMultiplier = 1,
 }: {
   markers: MarkerData[];
   userLatitude: number | null;
   userLongitude: number | null;
   destinationLatitude: number | null;
   destinationLongitude: number | null;
+  stops?: RideStop[];
+  surgeMultiplier?: number;
 }) => {
   if (
     !userLatitude ||
@@ -98,116 +118,114 @@ export const calculateDriverTimes = async ({
     return;
   }
 
+  console.log("Calculating times with Geoapify API...");
+
+  const origin = { latitude: userLatitude, longitude: userLongitude };
+
+  // The trip through every stop is the same for every driver, only the
+  // pickup leg differs
+  const trip = await fetchRouteSummary(origin, ...stops, {
+    latitude: destinationLatitude,
+    longitude: destinationLongitude,
+  });
+
+  const results = await Promise.all(
+    markers.map(async (marker) => {
+      const pickup = await fetchRouteSummary(marker, origin);
+      const fare = calculateFare({
+        vehicleClass: marker.vehicle_class,
+        distanceKm: trip.distance / 1000,
+        durationMinutes: trip.time / 60,
+        surgeMultiplier,
+      });
+      const totalTime = (pickup.time + trip.time) / 60; // Total time in minutes
+      const price = (fare.total / 100).toFixed(2);
+
+      console.log(`Driver ${marker.id}: ${totalTime.toFixed(1)} min, $${price}`);
+
+      return { ...marker, time: totalTime, price, fare };
+    }),
+  );
+
+  console.log("All driver times calculated successfully!");
+  return results;
+};
+
+// Driving time (seconds) and distance (meters) through the waypoints in
+// order, falling back to straight lines at 40 km/h when Geoapify has no route
+export const fetchRouteSummary = async (
+  ...waypoints: { latitude: number; longitude: number }[]
+): Promise<{ time: number; distance: number }> => {
+  const distanceKm = waypoints.slice(1).reduce(
+    (total, to, index) =>
+      total +
+      calculateDistance(
+        waypoints[index].latitude,
+        waypoints[index].longitude,
+        to.latitude,
+        to.longitude
+      ),
+    0
+  );
+  const fallback = { time: (distanceKm / 40) * 3600, distance: distanceKm * 1000 };
+
+  if (!geoapifyAPI) return fallback;
+
+  try {
+    const response = await fetch(
+      `https://api.geoapify.com/v1/routing?waypoints=${formatWaypoints(waypoints)}&mode=drive&apiKey=${geoapifyAPI}`
+    );
+    const data = await response.json();
+    const properties = data.features?.[0]?.properties;
+
+    if (!properties) {
+      console.error("Geoapify API error (route summary):", data);
+      return fallback;
+    }
+
+    return { time: properties.time, distance: properties.distance };
+  } catch (error) {
+    console.error("Error fetching route summary:", error);
+    return fallback;
+  }
+};
+
+// The driving route through the waypoints in order, or null when Geoapify
+// has none
+export const fetchRouteGeometry = async (
+  ...waypoints: { latitude: number; longitude: number }[]
+): Promise<{ latitude: number; longitude: number }[] | null> => {
+  if (!geoapifyAPI) return null;
+
   try {
-    console.log("Calculating times with Geoapify API...");
-
-    const timesPromises = markers.map(async (marker) => {
-      try {
-        // Get time from driver to user using Geoapify
-        const responseToUser = await fetch(
-          `https://api.geoapify.com/v1/routing?waypoints=${marker.latitude},${marker.longitude}|${userLatitude},${userLongitude}&mode=drive&apiKey=${geoapifyAPI}`
-        );
-        const dataToUser = await responseToUser.json();
-
-        // Check if API returned valid data
-        if (!dataToUser.features || dataToUser.features.length === 0) {
-          console.error("Geoapify API error (driver to user):", dataToUser);
-          // Use fallback calculation
-          const distanceToUser = calculateDistance(
-            marker.latitude,
-            marker.longitude,
-            userLatitude,
-            userLongitude
-          );
-          const timeToUser = (distanceToUser / 40) * 3600; // 40 km/h average
-          
-          const responseToDestination = await fetch(
-            `https://api.geoapify.com/v1/routing?waypoints=${userLatitude},${userLongitude}|${destinationLatitude},${destinationLongitude}&mode=drive&apiKey=${geoapifyAPI}`
-          );
-          const dataToDestination = await responseToDestination.json();
-          
-          const timeToDestination = dataToDestination.features?.[0]?.properties?.time || 
-            (calculateDistance(userLatitude, userLongitude, destinationLatitude, destinationLongitude) / 40) * 3600;
-          
-          const totalTime = (timeToUser + timeToDestination) / 60;
-          const price = (totalTime * 0.5).toFixed(2);
-          
-          return { ...marker, time: totalTime, price };
-        }
-
-        // Time in seconds from Geoapify
-        const timeToUser = dataToUser.features[0].properties.time;
-
-        // Get time from user to destination
-        const responseToDestination = await fetch(
-          `https://api.geoapify.com/v1/routing?waypoints=${userLatitude},${userLongitude}|${destinationLatitude},${destinationLongitude}&mode=drive&apiKey=${geoapifyAPI}`
-        );
-        const dataToDestination = await responseToDestination.json();
-
-        // Check if API returned valid data
-        if (!dataToDestination.features || dataToDestination.features.length === 0) {
-          console.error("Geoapify API error (user to destination):", dataToDestination);
-          // Use fallback
-          const distanceToDestination = calculateDistance(
-            userLatitude,
-            userLongitude,
-            destinationLatitude,
-            destinationLongitude
-          );
-          const timeToDestination = (distanceToDestination / 40) * 3600;
-          const totalTime = (timeToUser + timeToDestination) / 60;
-          const price = (totalTime * 0.5).toFixed(2);
-          
-          return { ...marker, time: totalTime, price };
-        }
-
-        // Time in seconds from Geoapify
-        const timeToDestination = dataToDestination.features[0].properties.time;
-
-        const totalTime = (timeToUser + timeToDestination) / 60; // Total time in minutes
-        const price = (totalTime * 0.5).toFixed(2); // $0.50 per minute
-
-        console.log(`Driver ${marker.id}: ${totalTime.toFixed(1)} min, $${price}`);
-
-        return { ...marker, time: totalTime, price };
-      } catch (error) {
-        console.error(`Error calculating time for driver ${marker.id}:`, error);
-        // Return marker with estimated price based on distance
-        const distance = calculateDistance(
-          userLatitude,
-          userLongitude,
-          destinationLatitude,
-          destinationLongitude
-        );
-        const estimatedTime = (distance / 40) * 60; // 40 km/h average speed
-        const estimatedPrice = (estimatedTime * 0.5).toFixed(2);
-        
-        return { ...marker, time: estimatedTime, price: estimatedPrice };
-      }
-    });
-
-    const results = await Promise.all(timesPromises);
-    console.log("All driver times calculated successfully!");
-    return results;
+    const response = await fetch(
+      `https://api.geoapify.com/v1/routing?waypoints=${formatWaypoints(waypoints)}&mode=drive&apiKey=${geoapifyAPI}`
+    );
+    const data = await response.json();
+    const geometry = data.features?.[0]?.geometry;
+
+    if (!geometry) {
+      console.error("Geoapify API error (route geometry):", data);
+      return null;
+    }
+
+    // One line per leg, joined into a single polyline
+    return geometry.coordinates.flat().map((coord: number[]) => ({
+      latitude: coord[1],
+      longitude: coord[0],
+    }));
   } catch (error) {
-    console.error("Error calculating driver times:", error);
-    // Return markers with estimated prices as fallback
-    return markers.map(marker => {
-      const distance = calculateDistance(
-        userLatitude,
-        userLongitude,
-        destinationLatitude,
-        destinationLongitude
-      );
-      const estimatedTime = (distance / 40) * 60;
-      const estimatedPrice = (estimatedTime * 0.5).toFixed(2);
-      return { ...marker, time: estimatedTime, price: estimatedPrice };
-    });
+    console.error("Error fetching route geometry:", error);
+    return null;
   }
 };
 
+export const formatWaypoints = (
+  waypoints: { latitude: number; longitude: number }[],
+) => waypoints.map((point) => `${point.latitude},${point.longitude}`).join("|");
+
 // Helper function to calculate distance between two coordinates (Haversine formula)
-function calculateDistance(
+export function calculateDistance(
   lat1: number,
   lon1: number,
   lat2: number,
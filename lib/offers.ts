@@ -0,0 +1,53 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// How long a driver has to accept an offer before it lapses
+export const RIDE_OFFER_TIMEOUT_SECONDS = Number(
+  process.env.RIDE_OFFER_TIMEOUT_SECONDS ?? 30,
+);
+
+// Offers a waiting ride to one driver. A ride only ever has one open offer,
+// and is offered to each driver at most once
+export const createRideOffer = async (
+  sql: Sql,
+  rideId: number,
+  driverId: number,
+) => {
+  const [offer] = await sql`
+    INSERT INTO ride_offers (ride_id, driver_id, pickup_distance_km, fare_amount, expires_at)
+    SELECT
+      rides.id,
+      drivers.id,
+      6371 * acos(
+        least(1, greatest(-1,
+          cos(radians(rides.origin_latitude)) * cos(radians(drivers.latitude)) *
+          cos(radians(drivers.longitude) - radians(rides.origin_longitude)) +
+          sin(radians(rides.origin_latitude)) * sin(radians(drivers.latitude))
+        ))
+      ),
+      rides.fare_price,
+      NOW() + make_interval(secs => ${RIDE_OFFER_TIMEOUT_SECONDS})
+    FROM rides
+    INNER JOIN drivers ON drivers.id = ${driverId}
+    WHERE rides.id = ${rideId}
+      AND rides.status = 'requested'
+      AND NOT EXISTS (
+        SELECT 1 FROM ride_offers
+        WHERE ride_id = rides.id AND status = 'pending' AND expires_at > NOW()
+      )
+    ON CONFLICT (ride_id, driver_id) DO NOTHING
+    RETURNING *;
+  `;
+
+  return offer ?? null;
+};
+
+// Offers are expired lazily, whenever somebody looks at them
+export const expireStaleOffers = async (sql: Sql) => {
+  await sql`
+    UPDATE ride_offers
+    SET status = 'expired', responded_at = NOW()
+    WHERE status = 'pending' AND expires_at <= NOW();
+  `;
+};
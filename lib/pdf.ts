@@ -0,0 +1,138 @@
+// A small single-page PDF writer: enough for text, rules and one JPEG,
+// which is all a receipt needs
+
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+export interface PdfText {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  bold?: boolean;
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfImage {
+  // Baseline JPEG bytes and their pixel size
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+  // Where to draw it on the page, in points from the bottom left
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+// The standard fonts use WinAnsiEncoding, which matches Latin-1 closely
+// enough; anything outside it is shown as "?"
+const toLatin1 = (value: string) =>
+  Uint8Array.from(value, (char) => {
+    const code = char.charCodeAt(0);
+    return code <= 0xff ? code : 0x3f;
+  });
+
+const escapeText = (value: string) =>
+  value.replace(/[\\()]/g, (char) => `\\${char}`).replace(/[\r\n]+/g, " ");
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+export const buildPdf = ({
+  texts,
+  rules = [],
+  image,
+}: {
+  texts: PdfText[];
+  rules?: PdfRule[];
+  image?: PdfImage | null;
+}) => {
+  const content = [
+    ...(image
+      ? [
+          `q ${image.drawWidth} 0 0 ${image.drawHeight} ${image.x} ${image.y} cm /Im1 Do Q`,
+        ]
+      : []),
+    "0.85 G 0.5 w",
+    ...rules.map((rule) => `${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`),
+    ...texts.map(
+      (item) =>
+        `BT /${item.bold ? "F2" : "F1"} ${item.size} Tf ${item.x} ${item.y} Td (${escapeText(item.text)}) Tj ET`,
+    ),
+  ].join("\n");
+  const contentBytes = toLatin1(content);
+
+  const objects: Uint8Array[][] = [
+    [toLatin1("<< /Type /Catalog /Pages 2 0 R >>")],
+    [toLatin1("<< /Type /Pages /Kids [3 0 R] /Count 1 >>")],
+    [
+      toLatin1(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 5 0 R /F2 6 0 R >>${image ? " /XObject << /Im1 7 0 R >>" : ""} >> ` +
+          "/Contents 4 0 R >>",
+      ),
+    ],
+    [
+      toLatin1(`<< /Length ${contentBytes.length} >>\nstream\n`),
+      contentBytes,
+      toLatin1("\nendstream"),
+    ],
+    [toLatin1("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")],
+    [toLatin1("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")],
+  ];
+
+  if (image) {
+    objects.push([
+      toLatin1(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+      ),
+      image.jpeg,
+      toLatin1("\nendstream"),
+    ]);
+  }
+
+  const parts: Uint8Array[] = [toLatin1("%PDF-1.4\n")];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+
+  objects.forEach((body, index) => {
+    const object = concat([
+      toLatin1(`${index + 1} 0 obj\n`),
+      ...body,
+      toLatin1("\nendobj\n"),
+    ]);
+    offsets.push(length);
+    parts.push(object);
+    length += object.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+  parts.push(toLatin1(`${xref}\n`));
+
+  return concat(parts);
+};
@@ -0,0 +1,174 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { AppliedPromotion, FareQuote, Promotion } from "@/types/type";
+
+// Stripe will not charge less than this, so discounts stop here
+const MINIMUM_CHARGE = 50;
+
+// Rides that count as a use of their promo code: those paid for and not
+// refunded in full
+const USED_PAYMENT_STATUSES = ["paid", "partially_paid", "partially_refunded"];
+
+const PROMOTION_USED_UP_REASON = "Promo code already used";
+
+export const calculateDiscount = (promotion: Promotion, total: number) => {
+  const discount =
+    promotion.discount_type === "percentage"
+      ? Math.round((total * promotion.discount_value) / 100)
+      : promotion.discount_value;
+  const capped =
+    promotion.max_discount !== null
+      ? Math.min(discount, promotion.max_discount)
+      : discount;
+
+  return Math.max(Math.min(capped, total - MINIMUM_CHARGE), 0);
+};
+
+// Checks a code against the quote it would be applied to and the rider's
+// earlier uses
+export const validatePromotion = async (
+  sql: NeonQueryFunction<false, false>,
+  { code, userId, quote }: { code: string; userId: string; quote: FareQuote },
+): Promise<{ promotion: AppliedPromotion } | { error: string }> => {
+  const [promotion] = (await sql`
+    SELECT
+      id,
+      code,
+      discount_type,
+      discount_value,
+      max_discount,
+      usage_limit_per_user,
+      vehicle_classes,
+      starts_at,
+      ends_at
+    FROM promotions
+    WHERE UPPER(code) = UPPER(${code.trim()}) AND is_active = true;
+  `) as Promotion[];
+
+  if (!promotion) return { error: "This promo code does not exist" };
+
+  const now = Date.now();
+  if (promotion.starts_at && new Date(promotion.starts_at).getTime() > now) {
+    return { error: "This promo code is not active yet" };
+  }
+  if (promotion.ends_at && new Date(promotion.ends_at).getTime() < now) {
+    return { error: "This promo code has expired" };
+  }
+
+  if (
+    promotion.vehicle_classes?.length &&
+    !promotion.vehicle_classes.includes(quote.breakdown.vehicle_class)
+  ) {
+    return { error: "This promo code is not valid for this vehicle" };
+  }
+
+  if (promotion.usage_limit_per_user !== null) {
+    const [{ uses }] = await sql`
+      SELECT COUNT(*)::int AS uses
+      FROM rides
+      WHERE promotion_id = ${promotion.id}
+        AND user_id = ${userId}
+        AND payment_status = ANY(${USED_PAYMENT_STATUSES});
+    `;
+
+    if (uses >= promotion.usage_limit_per_user) {
+      return { error: "You have already used this promo code" };
+    }
+  }
+
+  const discountAmount = calculateDiscount(promotion, quote.breakdown.total);
+  if (discountAmount <= 0) {
+    return { error: "This promo code does not lower the fare" };
+  }
+
+  return {
+    promotion: {
+      id: promotion.id,
+      code: promotion.code,
+      discount_amount: discountAmount,
+    },
+  };
+};
+
+// Two bookings paid for at once can both pass validatePromotion, so each
+// ride is checked again once it exists. Rides booked earlier that are paid
+// or still being paid for take precedence; if they have used up the code,
+// this ride is closed and its payment refunded or cancelled. Returns
+// whether the ride was turned down
+export const rejectOverusedPromotion = async (
+  sql: NeonQueryFunction<false, false>,
+  rideId: number | string,
+) => {
+  const [ride] = await sql`
+    SELECT
+      rides.payment_intent_id,
+      rides.status,
+      rides.cancellation_reason,
+      promotions.usage_limit_per_user,
+      (
+        SELECT COUNT(*)::int FROM rides AS earlier
+        WHERE earlier.promotion_id = rides.promotion_id
+          AND earlier.user_id = rides.user_id
+          AND earlier.id < rides.id
+          AND earlier.payment_status = ANY(${[...USED_PAYMENT_STATUSES, "pending"]})
+      ) AS earlier_uses
+    FROM rides
+    INNER JOIN promotions ON promotions.id = rides.promotion_id
+    WHERE rides.id = ${rideId};
+  `;
+
+  if (
+    !ride ||
+    ride.usage_limit_per_user === null ||
+    ride.earlier_uses < ride.usage_limit_per_user
+  ) {
+    return false;
+  }
+
+  // Already turned down by an earlier call
+  if (ride.cancellation_reason === PROMOTION_USED_UP_REASON) return true;
+
+  const [closed] = await sql`
+    UPDATE rides
+    SET
+      status = 'cancelled_by_rider',
+      cancelled_at = NOW(),
+      cancellation_reason = ${PROMOTION_USED_UP_REASON},
+      updated_at = NOW()
+    WHERE id = ${rideId} AND status IN ('scheduled', 'requested')
+    RETURNING id;
+  `;
+
+  // The ride got under way first, so it keeps its discount
+  if (!closed) return false;
+
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+  const paymentIntent = await stripe.paymentIntents.retrieve(
+    ride.payment_intent_id,
+  );
+
+  if (paymentIntent.status === "succeeded") {
+    await stripe.refunds.create(
+      {
+        payment_intent: paymentIntent.id,
+        reason: "requested_by_customer",
+        metadata: { ride_id: String(rideId), rule: "promotion_used_up" },
+      },
+      { idempotencyKey: `ride-${rideId}-promotion-used-up-refund` },
+    );
+  } else if (paymentIntent.status !== "canceled") {
+    await stripe.paymentIntents.cancel(paymentIntent.id);
+  }
+
+  await sql`
+    UPDATE rides
+    SET
+      payment_status = ${paymentIntent.status === "succeeded" ? "refunded" : "failed"},
+      refund_amount = ${paymentIntent.amount_received},
+      updated_at = NOW()
+    WHERE id = ${rideId};
+  `;
+
+  return true;
+};
@@ -0,0 +1,56 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+import { FareQuote } from "@/types/type";
+
+// How long a rider has to pay before the quoted price has to be refreshed
+export const QUOTE_TTL_SECONDS = Number(process.env.QUOTE_TTL_SECONDS ?? 300);
+
+const sign = (payload: string) => {
+  const secret = process.env.QUOTE_SIGNING_SECRET;
+  if (!secret) throw new Error("QUOTE_SIGNING_SECRET is not set");
+
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+};
+
+// Quote IDs are the quote itself plus an HMAC, so the server can trust the
+// price later without having stored anything
+export const signQuote = (
+  details: Omit<FareQuote, "nonce" | "expires_at">,
+): { quote_id: string; quote: FareQuote } => {
+  const quote: FareQuote = {
+    ...details,
+    nonce: randomUUID(),
+    expires_at: new Date(Date.now() + QUOTE_TTL_SECONDS * 1000).toISOString(),
+  };
+  const payload = Buffer.from(JSON.stringify(quote)).toString("base64url");
+
+  return { quote_id: `${payload}.${sign(payload)}`, quote };
+};
+
+// ignoreExpiry is for callers that hold other proof the price was locked in
+// in time, such as a PaymentIntent created for this quote
+export const verifyQuote = (
+  quoteId: unknown,
+  { ignoreExpiry = false }: { ignoreExpiry?: boolean } = {},
+): { quote: FareQuote } | { error: string } => {
+  if (typeof quoteId !== "string") return { error: "Missing quote" };
+
+  const [payload, signature] = quoteId.split(".");
+  if (!payload || !signature) return { error: "Malformed quote" };
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: "Invalid quote" };
+  }
+
+  const quote: FareQuote = JSON.parse(
+    Buffer.from(payload, "base64url").toString("utf8"),
+  );
+
+  if (!ignoreExpiry && new Date(quote.expires_at).getTime() < Date.now()) {
+    return { error: "Quote has expired" };
+  }
+
+  return { quote };
+};
@@ -0,0 +1,45 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { UserRole } from "@/types/type";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// Averages only count this many of the most recent ratings, so a driver
+// who improves is not held back by their first weeks
+export const RATING_WINDOW = Number(process.env.RATING_WINDOW ?? 100);
+export const MAX_RATING_COMMENT_LENGTH = 500;
+
+// Tags on offer, by who is doing the rating
+export const RATING_TAGS: Record<UserRole, string[]> = {
+  rider: [
+    "Clean car",
+    "Safe driving",
+    "Friendly",
+    "Knew the route",
+    "On time",
+    "Good music",
+  ],
+  driver: ["Polite", "On time", "Respectful", "Left the car clean"],
+};
+
+export const isValidStars = (stars: unknown): stars is number =>
+  Number.isInteger(stars) && (stars as number) >= 1 && (stars as number) <= 5;
+
+// Keeps drivers.rating as the average of riders' most recent ratings. The
+// seeded value stands until a driver has been rated at all
+export const recomputeDriverRating = async (sql: Sql, driverId: number) => {
+  await sql`
+    UPDATE drivers
+    SET rating = recent.average
+    FROM (
+      SELECT ROUND(AVG(stars), 1) AS average
+      FROM (
+        SELECT stars FROM ratings
+        WHERE driver_id = ${driverId} AND rater_role = 'rider'
+        ORDER BY created_at DESC
+        LIMIT ${RATING_WINDOW}
+      ) AS windowed
+    ) AS recent
+    WHERE drivers.id = ${driverId} AND recent.average IS NOT NULL;
+  `;
+};
@@ -0,0 +1,410 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { formatCents, getFareClass } from "@/lib/fare";
+import { fetchRouteSummary } from "@/lib/map";
+import { PDF_PAGE_HEIGHT, PdfRule, PdfText, buildPdf } from "@/lib/pdf";
+import { formatDate, formatTime } from "@/lib/utils";
+import { FareBreakdown, RideStop } from "@/types/type";
+
+type Sql = NeonQueryFunction<false, false>;
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+const geoapifyAPI = process.env.EXPO_PUBLIC_GEOAPIFY_API_KEY;
+
+// The map is fetched at this size and drawn at half of it in the PDF
+const MAP_WIDTH = 600;
+const MAP_HEIGHT = 400;
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+}
+
+export interface Receipt {
+  ride_id: number;
+  completed_at: string;
+  origin_address: string;
+  destination_address: string;
+  stops: RideStop[];
+  driver_name: string;
+  vehicle_name: string;
+  duration_minutes: number;
+  distance_km: number;
+  fare_lines: ReceiptLine[];
+  fare_price: number;
+  tip_amount: number;
+  // On a split fare, what the other riders paid towards it
+  paid_by_others: number;
+  refunded_amount: number;
+  // What this rider was charged, net of refunds
+  total: number;
+  card_brand: string | null;
+  card_last4: string | null;
+  map_url: string | null;
+}
+
+// Base fare, distance, time and so on as priced at booking. Rides booked
+// before the breakdown was stored show a single fare line
+const getFareLines = (
+  breakdown: FareBreakdown | null,
+  farePrice: number,
+  discountAmount: number,
+): ReceiptLine[] => {
+  if (!breakdown) return [{ label: "Ride fare", amount: farePrice }];
+
+  return [
+    { label: "Base fare", amount: breakdown.base_fare },
+    { label: `Distance (${breakdown.distance_km} km)`, amount: breakdown.distance_fare },
+    { label: `Time (${breakdown.duration_minutes} min)`, amount: breakdown.time_fare },
+    { label: "Minimum fare adjustment", amount: breakdown.minimum_fare_adjustment },
+    { label: `Surge (${breakdown.surge_multiplier}x)`, amount: breakdown.surge_amount },
+    { label: "Booking fee", amount: breakdown.booking_fee },
+    { label: "Promotion", amount: -discountAmount },
+  ].filter((line) => line.amount !== 0 || line.label === "Base fare");
+};
+
+const getCard = async (paymentIntentId: string | null) => {
+  if (!paymentIntentId) return { brand: null, last4: null };
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.retrieve(
+      paymentIntentId,
+      { expand: ["latest_charge"] },
+    );
+    const charge =
+      typeof paymentIntent.latest_charge === "object"
+        ? paymentIntent.latest_charge
+        : null;
+
+    return {
+      brand: charge?.payment_method_details?.card?.brand ?? null,
+      last4: charge?.payment_method_details?.card?.last4 ?? null,
+    };
+  } catch (error) {
+    console.error(`Error retrieving PaymentIntent ${paymentIntentId}:`, error);
+    return { brand: null, last4: null };
+  }
+};
+
+// Pickup, stops and drop-off joined in order; with no center or zoom
+// Geoapify fits the map to what is drawn on it
+const getMapUrl = (waypoints: { latitude: number; longitude: number }[]) => {
+  if (!geoapifyAPI) return null;
+
+  const line = waypoints
+    .map((point) => `${point.longitude},${point.latitude}`)
+    .join(",");
+  const markers = waypoints
+    .map((point, index) => {
+      const color =
+        index === 0
+          ? "%2322c55e"
+          : index === waypoints.length - 1
+            ? "%230286ff"
+            : "%23f59e0b";
+      return `lonlat:${point.longitude},${point.latitude};color:${color};size:medium`;
+    })
+    .join("|");
+
+  return (
+    `https://maps.geoapify.com/v1/staticmap?style=osm-bright&width=${MAP_WIDTH}&height=${MAP_HEIGHT}` +
+    `&scaleFactor=1&format=jpeg&geometry=polyline:${line};linecolor:%230286ff;linewidth:4` +
+    `&marker=${markers}&apiKey=${geoapifyAPI}`
+  );
+};
+
+// Everything on the receipt for the rider's own completed ride
+export const getReceipt = async (
+  sql: Sql,
+  rideId: string,
+  userId: string,
+): Promise<Receipt | { error: string; status: number }> => {
+  const [ride] = await sql`
+    SELECT
+      rides.id,
+      rides.status,
+      rides.origin_address,
+      rides.destination_address,
+      rides.origin_latitude::float,
+      rides.origin_longitude::float,
+      rides.destination_latitude::float,
+      rides.destination_longitude::float,
+      rides.ride_time,
+      rides.fare_price,
+      rides.discount_amount,
+      rides.tip_amount,
+      rides.vehicle_class,
+      rides.fare_breakdown,
+      rides.payment_intent_id,
+      rides.booker_share_amount,
+      rides.started_at,
+      rides.completed_at,
+      drivers.first_name AS driver_first_name,
+      drivers.last_name AS driver_last_name,
+      COALESCE(
+        (
+          SELECT json_agg(
+            json_build_object(
+              'address', ride_stops.address,
+              'latitude', ride_stops.latitude::float,
+              'longitude', ride_stops.longitude::float
+            )
+            ORDER BY ride_stops.stop_order
+          )
+          FROM ride_stops
+          WHERE ride_stops.ride_id = rides.id
+        ),
+        '[]'::json
+      ) AS stops
+    FROM rides
+    LEFT JOIN drivers ON drivers.id = rides.driver_id
+    WHERE rides.id = ${rideId} AND rides.user_id = ${userId};
+  `;
+
+  if (!ride) return { error: "Ride not found", status: 404 };
+  if (ride.status !== "completed") {
+    return { error: "Receipts are available once a ride is completed", status: 409 };
+  }
+
+  const waypoints = [
+    { latitude: ride.origin_latitude, longitude: ride.origin_longitude },
+    ...ride.stops,
+    { latitude: ride.destination_latitude, longitude: ride.destination_longitude },
+  ];
+  const breakdown: FareBreakdown | null = ride.fare_breakdown;
+
+  // Time actually spent on board when we have it, otherwise the estimate
+  const durationMinutes =
+    ride.started_at && ride.completed_at
+      ? Math.max(
+          Math.round(
+            (new Date(ride.completed_at).getTime() -
+              new Date(ride.started_at).getTime()) /
+              60000,
+          ),
+          1,
+        )
+      : ride.ride_time;
+  const distanceKm =
+    breakdown?.distance_km ??
+    Math.round((await fetchRouteSummary(...waypoints)).distance / 100) / 10;
+  const card = await getCard(ride.payment_intent_id);
+
+  // Only the charges this rider made; other riders pay their own shares
+  const [payments] = await sql`
+    SELECT
+      COUNT(*)::int AS count,
+      COALESCE(SUM(amount), 0)::int AS charged,
+      COALESCE(SUM(amount) FILTER (WHERE kind IN ('fare', 'split_cover')), 0)::int AS fare_charged,
+      COALESCE(SUM(refunded_amount), 0)::int AS refunded
+    FROM payments
+    WHERE ride_id = ${ride.id}
+      AND user_id = ${userId}
+      AND status IN ('succeeded', 'partially_refunded', 'refunded');
+  `;
+  // Rides paid for before payments were recorded were charged in full
+  const paidByOthers =
+    payments.count > 0 && ride.booker_share_amount !== null
+      ? Math.max(ride.fare_price - payments.fare_charged, 0)
+      : 0;
+  const total =
+    payments.count > 0
+      ? payments.charged - payments.refunded
+      : ride.fare_price + ride.tip_amount;
+
+  return {
+    ride_id: ride.id,
+    completed_at: ride.completed_at,
+    origin_address: ride.origin_address,
+    destination_address: ride.destination_address,
+    stops: ride.stops,
+    driver_name: ride.driver_first_name
+      ? `${ride.driver_first_name} ${ride.driver_last_name}`
+      : "Your driver",
+    vehicle_name: getFareClass(ride.vehicle_class).name,
+    duration_minutes: durationMinutes,
+    distance_km: distanceKm,
+    fare_lines: getFareLines(breakdown, ride.fare_price, ride.discount_amount),
+    fare_price: ride.fare_price,
+    tip_amount: ride.tip_amount,
+    paid_by_others: paidByOthers,
+    refunded_amount: payments.count > 0 ? payments.refunded : 0,
+    total,
+    card_brand: card.brand,
+    card_last4: card.last4,
+    map_url: getMapUrl(waypoints),
+  };
+};
+
+const formatCard = (receipt: Receipt) =>
+  receipt.card_last4
+    ? `${receipt.card_brand ? receipt.card_brand.toUpperCase() : "Card"} ending in ${receipt.card_last4}`
+    : "Card";
+
+// Every line of the receipt in display order, shared by all three formats
+const getReceiptRows = (receipt: Receipt) => ({
+  trip: [
+    { label: "Date", value: formatDate(receipt.completed_at) },
+    { label: "Driver", value: `${receipt.driver_name} (${receipt.vehicle_name})` },
+    { label: "Pickup", value: receipt.origin_address },
+    ...receipt.stops.map((stop, index) => ({
+      label: `Stop ${index + 1}`,
+      value: stop.address,
+    })),
+    { label: "Drop-off", value: receipt.destination_address },
+    { label: "Duration", value: formatTime(receipt.duration_minutes) },
+    { label: "Distance", value: `${receipt.distance_km} km` },
+  ],
+  charges: [
+    ...receipt.fare_lines.map((line) => ({
+      label: line.label,
+      value: formatCents(line.amount),
+    })),
+    ...(receipt.fare_lines.length > 1
+      ? [{ label: "Ride fare", value: formatCents(receipt.fare_price) }]
+      : []),
+    ...(receipt.paid_by_others > 0
+      ? [{ label: "Paid by other riders", value: formatCents(-receipt.paid_by_others) }]
+      : []),
+    ...(receipt.tip_amount > 0
+      ? [{ label: "Tip", value: formatCents(receipt.tip_amount) }]
+      : []),
+    ...(receipt.refunded_amount > 0
+      ? [{ label: "Refunded", value: formatCents(-receipt.refunded_amount) }]
+      : []),
+  ],
+  total: { label: "Total charged", value: formatCents(receipt.total) },
+  payment: { label: "Paid with", value: formatCard(receipt) },
+});
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!,
+  );
+
+export const renderReceiptHtml = (receipt: Receipt) => {
+  const rows = getReceiptRows(receipt);
+  const row = ({ label, value }: { label: string; value: string }, bold = false) =>
+    `<tr><td style="padding:6px 0;color:#6b7280">${escapeHtml(label)}</td>` +
+    `<td style="padding:6px 0;text-align:right${bold ? ";font-weight:bold" : ""}">${escapeHtml(value)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>MyRide receipt #${receipt.ride_id}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Helvetica,Arial,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#fff;border-radius:16px;padding:24px">
+<h1 style="margin:0 0 4px;font-size:22px">Thanks for riding with MyRide</h1>
+<p style="margin:0 0 16px;color:#6b7280">Receipt for ride #${receipt.ride_id}</p>
+${receipt.map_url ? `<img src="${escapeHtml(receipt.map_url)}" alt="Route map" width="100%" style="border-radius:12px;margin-bottom:16px">` : ""}
+<table style="width:100%;border-collapse:collapse;font-size:14px">
+${rows.trip.map((item) => row(item)).join("\n")}
+</table>
+<hr style="border:none;border-top:1px solid #e5e7eb;margin:16px 0">
+<table style="width:100%;border-collapse:collapse;font-size:14px">
+${rows.charges.map((item) => row(item)).join("\n")}
+${row(rows.total, true)}
+${row(rows.payment)}
+</table>
+</div>
+</body>
+</html>`;
+};
+
+export const renderReceiptText = (receipt: Receipt) => {
+  const rows = getReceiptRows(receipt);
+  const line = ({ label, value }: { label: string; value: string }) =>
+    `${label}: ${value}`;
+
+  return [
+    `MyRide receipt for ride #${receipt.ride_id}`,
+    "",
+    ...rows.trip.map(line),
+    "",
+    ...rows.charges.map(line),
+    line(rows.total),
+    line(rows.payment),
+  ].join("\n");
+};
+
+// The JPEG as Geoapify sent it, or null so the PDF goes out without a map
+const fetchMapImage = async (url: string | null) => {
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error("Geoapify API error (static map):", response.status);
+      return null;
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.error("Error fetching receipt map:", error);
+    return null;
+  }
+};
+
+export const renderReceiptPdf = async (receipt: Receipt) => {
+  const rows = getReceiptRows(receipt);
+  const left = 56;
+  const right = 556;
+  const texts: PdfText[] = [];
+  const rules: PdfRule[] = [];
+  let y = PDF_PAGE_HEIGHT - 72;
+
+  texts.push({ text: "MyRide", x: left, y, size: 22, bold: true });
+  y -= 22;
+  texts.push({ text: `Receipt for ride #${receipt.ride_id}`, x: left, y, size: 11 });
+  y -= 16;
+
+  const jpeg = await fetchMapImage(receipt.map_url);
+  const drawHeight = MAP_HEIGHT / 2;
+  if (jpeg) y -= drawHeight;
+  const image = jpeg
+    ? {
+        jpeg,
+        width: MAP_WIDTH,
+        height: MAP_HEIGHT,
+        x: left,
+        y,
+        drawWidth: MAP_WIDTH / 2,
+        drawHeight,
+      }
+    : null;
+  y -= 28;
+
+  // Helvetica averages about half its size per character; long addresses
+  // are cut rather than wrapped
+  const addRow = (
+    { label, value }: { label: string; value: string },
+    bold = false,
+  ) => {
+    const maxLength = 62;
+    const text = value.length > maxLength ? `${value.slice(0, maxLength - 3)}...` : value;
+    texts.push({ text: label, x: left, y, size: 11 });
+    texts.push({
+      text,
+      x: right - text.length * 5.6,
+      y,
+      size: 11,
+      bold,
+    });
+    y -= 20;
+  };
+
+  rows.trip.forEach((item) => addRow(item));
+  y += 6;
+  rules.push({ x1: left, y1: y, x2: right, y2: y });
+  y -= 20;
+  rows.charges.forEach((item) => addRow(item));
+  addRow(rows.total, true);
+  addRow(rows.payment);
+
+  return buildPdf({ texts, rules, image });
+};
@@ -0,0 +1,136 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+import { Stripe } from "stripe";
+
+import { CancellationOutcome } from "@/lib/cancellation";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// What capOutcomeToPayments needs to know about a ride
+export interface PaidRide {
+  id: number;
+  payment_status: string | null;
+}
+
+// Payments that went towards the fare, in the order a partial refund uses
+// them up: participants' shares first, so whatever is kept comes out of
+// what the booker paid
+const FARE_PAYMENT_KINDS = ["split_share", "split_cover", "fare"];
+
+// What is still held on each payment towards a ride's fare. Tips are left
+// alone, they have their own refunds
+export const getRefundablePayments = async (sql: Sql, rideId: number | string) => {
+  const payments = await sql`
+    SELECT
+      stripe_payment_intent_id,
+      kind,
+      amount - refunded_amount AS refundable
+    FROM payments
+    WHERE ride_id = ${rideId}
+      AND status IN ('succeeded', 'partially_refunded')
+      AND kind = ANY(${FARE_PAYMENT_KINDS})
+      AND amount > refunded_amount
+    ORDER BY created_at ASC;
+  `;
+
+  return payments
+    .map((payment) => ({
+      stripe_payment_intent_id: payment.stripe_payment_intent_id as string,
+      kind: payment.kind as string,
+      refundable: Number(payment.refundable),
+    }))
+    .sort(
+      (a, b) =>
+        FARE_PAYMENT_KINDS.indexOf(a.kind) - FARE_PAYMENT_KINDS.indexOf(b.kind),
+    );
+};
+
+export const getRefundableAmount = (
+  payments: Awaited<ReturnType<typeof getRefundablePayments>>,
+) => payments.reduce((total, payment) => total + payment.refundable, 0);
+
+// The fee is kept out of everything paid towards the fare, which on a split
+// ride is spread over the booker's and the participants' payments. Nothing
+// was charged unless the ride is paid, so there is nothing to keep or refund
+export const capOutcomeToPayments = async (
+  sql: Sql,
+  ride: PaidRide,
+  outcome: CancellationOutcome,
+): Promise<CancellationOutcome> => {
+  const paid = ["paid", "partially_paid"].includes(ride.payment_status ?? "")
+    ? getRefundableAmount(await getRefundablePayments(sql, ride.id))
+    : 0;
+  const cancellationFee = Math.min(outcome.cancellation_fee, paid);
+
+  return {
+    ...outcome,
+    cancellation_fee: cancellationFee,
+    refund_amount: paid - cancellationFee,
+  };
+};
+
+// Refunds up to amount across every payment towards the ride's fare, or all
+// of it when no amount is given. Returns the ride's payment_status
+// afterwards, or null when nothing had been paid, along with the refund on
+// the booking payment
+export const refundRidePayments = async (
+  sql: Sql,
+  rideId: number | string,
+  rule: string,
+  amount = Infinity,
+) => {
+  const payments = await getRefundablePayments(sql, rideId);
+  const paid = getRefundableAmount(payments);
+
+  if (paid === 0) return { paymentStatus: null, refundId: null };
+
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+  let remaining = Math.min(amount, paid);
+  let refundId: string | null = null;
+  let failed = false;
+
+  for (const payment of payments) {
+    if (remaining <= 0) break;
+
+    const refundAmount = Math.min(remaining, payment.refundable);
+    remaining -= refundAmount;
+
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: payment.stripe_payment_intent_id,
+          amount: refundAmount,
+          reason: "requested_by_customer",
+          metadata: { ride_id: String(rideId), rule },
+        },
+        {
+          idempotencyKey: `ride-${rideId}-${rule}-refund-${payment.stripe_payment_intent_id}`,
+        },
+      );
+
+      if (payment.kind === "fare") refundId = refund.id;
+
+      await sql`
+        UPDATE payments
+        SET
+          status = CASE
+            WHEN refunded_amount + ${refundAmount} >= amount THEN 'refunded'
+            ELSE 'partially_refunded'
+          END,
+          refunded_amount = refunded_amount + ${refundAmount},
+          updated_at = NOW()
+        WHERE stripe_payment_intent_id = ${payment.stripe_payment_intent_id};
+      `;
+    } catch (error) {
+      console.error(`Error refunding ride ${rideId} (${rule}):`, error);
+      failed = true;
+    }
+  }
+
+  const paymentStatus = failed
+    ? "refund_failed"
+    : amount >= paid
+      ? "refunded"
+      : "partially_refunded";
+
+  return { paymentStatus, refundId };
+};
@@ -0,0 +1,156 @@
+import { RideDetail, RideIssueCategory, RideStatus } from "@/types/type";
+
+export const RIDE_STATUSES: RideStatus[] = [
+  "scheduled",
+  "requested",
+  "accepted",
+  "driver_arriving",
+  "arrived",
+  "in_progress",
+  "completed",
+  "cancelled_by_rider",
+  "cancelled_by_driver",
+  "no_show",
+  "no_driver_found",
+];
+
+// States a ride is allowed to move to from each state
+export const RIDE_STATUS_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+  scheduled: ["requested", "cancelled_by_rider"],
+  requested: ["accepted", "cancelled_by_rider", "no_driver_found"],
+  accepted: ["driver_arriving", "cancelled_by_rider", "cancelled_by_driver"],
+  driver_arriving: ["arrived", "cancelled_by_rider", "cancelled_by_driver"],
+  arrived: [
+    "in_progress",
+    "cancelled_by_rider",
+    "cancelled_by_driver",
+    "no_show",
+  ],
+  in_progress: ["completed"],
+  completed: [],
+  cancelled_by_rider: [],
+  cancelled_by_driver: [],
+  no_show: [],
+  no_driver_found: [],
+};
+
+// Column on the rides table stamped when a ride enters each state. Rides
+// are only ever created as scheduled, never moved into it
+export const RIDE_STATUS_TIMESTAMP_COLUMNS: Record<RideStatus, string> = {
+  scheduled: "created_at",
+  requested: "requested_at",
+  accepted: "accepted_at",
+  driver_arriving: "driver_arriving_at",
+  arrived: "arrived_at",
+  in_progress: "started_at",
+  completed: "completed_at",
+  cancelled_by_rider: "cancelled_at",
+  cancelled_by_driver: "cancelled_at",
+  no_show: "no_show_at",
+  no_driver_found: "cancelled_at",
+};
+
+export const RIDE_STATUS_LABELS: Record<RideStatus, string> = {
+  scheduled: "Scheduled",
+  requested: "Requested",
+  accepted: "Driver assigned",
+  driver_arriving: "Driver on the way",
+  arrived: "Driver arrived",
+  in_progress: "In progress",
+  completed: "Completed",
+  cancelled_by_rider: "Cancelled by you",
+  cancelled_by_driver: "Cancelled by driver",
+  no_show: "No show",
+  no_driver_found: "No driver found",
+};
+
+export const isRideStatus = (value: unknown): value is RideStatus =>
+  typeof value === "string" && RIDE_STATUSES.includes(value as RideStatus);
+
+export const canTransitionRide = (from: RideStatus, to: RideStatus) =>
+  RIDE_STATUS_TRANSITIONS[from].includes(to);
+
+export const isRideFinished = (status: RideStatus) =>
+  RIDE_STATUS_TRANSITIONS[status].length === 0;
+
+export const getRideStatusColor = (status: RideStatus) => {
+  switch (status) {
+    case "scheduled":
+      return "text-orange-500";
+    case "completed":
+      return "text-green-500";
+    case "cancelled_by_rider":
+    case "cancelled_by_driver":
+    case "no_show":
+    case "no_driver_found":
+      return "text-red-500";
+    default:
+      return "text-blue-500";
+  }
+};
+
+export const RIDE_HISTORY_PAGE_SIZE = 20;
+export const MAX_RIDE_HISTORY_PAGE_SIZE = 50;
+
+// Status chips on the ride history. Scheduled rides are listed separately
+export const RIDE_HISTORY_STATUS_FILTERS: {
+  label: string;
+  statuses: RideStatus[];
+}[] = [
+  {
+    label: "All",
+    statuses: RIDE_STATUSES.filter((status) => status !== "scheduled"),
+  },
+  {
+    label: "Active",
+    statuses: RIDE_STATUSES.filter(
+      (status) => status !== "scheduled" && !isRideFinished(status),
+    ),
+  },
+  { label: "Completed", statuses: ["completed"] },
+  {
+    label: "Cancelled",
+    statuses: RIDE_STATUSES.filter(
+      (status) => isRideFinished(status) && status !== "completed",
+    ),
+  },
+];
+
+export const MAX_RIDE_ISSUE_DETAILS_LENGTH = 1000;
+
+export const RIDE_ISSUE_CATEGORIES: Record<RideIssueCategory, string> = {
+  lost_item: "I lost an item",
+  fare: "I was charged the wrong fare",
+  route: "The driver took a poor route",
+  driver: "Driver behaviour",
+  safety: "Safety concern",
+  other: "Something else",
+};
+
+export const isRideIssueCategory = (
+  value: unknown,
+): value is RideIssueCategory =>
+  typeof value === "string" && value in RIDE_ISSUE_CATEGORIES;
+
+// When the ride entered each state it has been through, oldest first. Only
+// scheduled rides are requested after booking, and the shared cancelled_at
+// column is labelled with the ride's own status
+export const getRideTimeline = (ride: RideDetail) => {
+  const timestamps = ride as unknown as Record<string, string | null>;
+  const entries = [{ label: "Booked", at: ride.created_at }];
+
+  for (const status of RIDE_STATUSES) {
+    const column = RIDE_STATUS_TIMESTAMP_COLUMNS[status];
+    const at = timestamps[column];
+
+    if (status === "scheduled" || !at) continue;
+    if (status === "requested" && !ride.scheduled_pickup_at) continue;
+    if (column === "cancelled_at" && status !== ride.status) continue;
+
+    entries.push({ label: RIDE_STATUS_LABELS[status], at });
+  }
+
+  return entries.sort(
+    (a, b) => new Date(a.at).getTime() - new Date(b.at).getTime(),
+  );
+};
@@ -0,0 +1,67 @@
+// Dispatch starts this long before a scheduled pickup
+export const SCHEDULE_DISPATCH_LEAD_MINUTES = Number(
+  process.env.SCHEDULE_DISPATCH_LEAD_MINUTES ?? 15,
+);
+export const SCHEDULE_MAX_DAYS_AHEAD = 30;
+// Anything sooner is booked as a normal ride
+export const SCHEDULE_MIN_MINUTES_AHEAD = 30;
+export const SCHEDULE_SLOT_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+export const validatePickupTime = (
+  value: unknown,
+  now = Date.now(),
+): { pickupAt: Date } | { error: string } => {
+  const pickupAt = new Date(String(value));
+
+  if (Number.isNaN(pickupAt.getTime())) {
+    return { error: "Invalid pickup time" };
+  }
+  if (pickupAt.getTime() < now + SCHEDULE_MIN_MINUTES_AHEAD * MINUTE_MS) {
+    return {
+      error: `Scheduled pickups must be at least ${SCHEDULE_MIN_MINUTES_AHEAD} minutes away`,
+    };
+  }
+  if (pickupAt.getTime() > now + SCHEDULE_MAX_DAYS_AHEAD * 24 * 60 * MINUTE_MS) {
+    return {
+      error: `Pickups can be scheduled at most ${SCHEDULE_MAX_DAYS_AHEAD} days ahead`,
+    };
+  }
+
+  return { pickupAt };
+};
+
+// Pickup times offered by the picker for one day, on slot boundaries and
+// inside the bookable window
+export const getPickupSlots = (day: Date, now = Date.now()) => {
+  const slots: Date[] = [];
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+
+  for (let minutes = 0; minutes < 24 * 60; minutes += SCHEDULE_SLOT_MINUTES) {
+    const slot = new Date(start.getTime() + minutes * MINUTE_MS);
+    if ("pickupAt" in validatePickupTime(slot.toISOString(), now)) {
+      slots.push(slot);
+    }
+  }
+
+  return slots;
+};
+
+export const getSchedulableDays = (now = Date.now()) =>
+  Array.from({ length: SCHEDULE_MAX_DAYS_AHEAD + 1 }, (_, index) => {
+    const day = new Date(now);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + index);
+    return day;
+  }).filter((day) => getPickupSlots(day, now).length > 0);
+
+export const formatPickupTime = (value: string | Date) =>
+  new Date(value).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
@@ -0,0 +1,150 @@
+import { KeyObject, createPublicKey, verify } from "crypto";
+
+// Server-side check of the Clerk session token each app request carries.
+// Clerk signs these with RS256; CLERK_JWT_KEY (the PEM public key from the
+// Clerk dashboard) verifies them without a network call, otherwise the
+// signing keys are fetched from the instance's JWKS endpoint
+const CLERK_JWT_KEY = process.env.CLERK_JWT_KEY;
+// When set, only tokens minted for these origins (comma separated) are accepted
+const AUTHORIZED_PARTIES = (process.env.CLERK_AUTHORIZED_PARTIES ?? "")
+  .split(",")
+  .map((party) => party.trim())
+  .filter(Boolean);
+// Allowance for clocks that disagree about exp and nbf
+const CLOCK_SKEW_SECONDS = 5;
+// Don't ask Clerk for new keys more often than this when a kid is unknown
+const JWKS_REFRESH_SECONDS = 60;
+
+export interface Session {
+  userId: string;
+  sessionId: string;
+}
+
+let jwks: Record<string, KeyObject> = {};
+let jwksFetchedAt = 0;
+
+// The publishable key is "pk_<env>_" plus the base64 of "<frontend api>$"
+const getJwksUrl = () => {
+  if (process.env.CLERK_JWKS_URL) return process.env.CLERK_JWKS_URL;
+
+  const publishableKey = process.env.EXPO_PUBLIC_CLERK_PUBLISHABLE_KEY;
+  if (!publishableKey) {
+    throw new Error("Set CLERK_JWT_KEY, CLERK_JWKS_URL or EXPO_PUBLIC_CLERK_PUBLISHABLE_KEY");
+  }
+
+  const frontendApi = Buffer.from(publishableKey.split("_")[2] ?? "", "base64")
+    .toString("utf8")
+    .replace(/\$$/, "");
+  return `https://${frontendApi}/.well-known/jwks.json`;
+};
+
+const getSigningKey = async (kid: string | undefined) => {
+  if (CLERK_JWT_KEY) return createPublicKey(CLERK_JWT_KEY.replace(/\\n/g, "\n"));
+  if (!kid) return null;
+
+  if (!jwks[kid] && Date.now() - jwksFetchedAt > JWKS_REFRESH_SECONDS * 1000) {
+    jwksFetchedAt = Date.now();
+
+    const response = await fetch(getJwksUrl());
+    const { keys = [] } = await response.json();
+    jwks = Object.fromEntries(
+      keys.map((key: JsonWebKey & { kid: string }) => [
+        key.kid,
+        createPublicKey({ key, format: "jwk" }),
+      ]),
+    );
+  }
+
+  return jwks[kid] ?? null;
+};
+
+const decodeSegment = (segment: string) =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+// The signed-in user behind a session token, or null if it is not a valid,
+// current Clerk session token
+export const verifySessionToken = async (
+  token: string,
+): Promise<Session | null> => {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const { alg, kid } = decodeSegment(header);
+    if (alg !== "RS256") return null;
+
+    const key = await getSigningKey(kid);
+    if (
+      !key ||
+      !verify(
+        "RSA-SHA256",
+        Buffer.from(`${header}.${payload}`),
+        key,
+        Buffer.from(signature, "base64url"),
+      )
+    ) {
+      return null;
+    }
+
+    const claims = decodeSegment(payload);
+    const now = Date.now() / 1000;
+
+    if (
+      typeof claims.sub !== "string" ||
+      typeof claims.exp !== "number" ||
+      claims.exp + CLOCK_SKEW_SECONDS < now ||
+      (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now)
+    ) {
+      return null;
+    }
+
+    if (
+      AUTHORIZED_PARTIES.length > 0 &&
+      claims.azp &&
+      !AUTHORIZED_PARTIES.includes(claims.azp)
+    ) {
+      return null;
+    }
+
+    return { userId: claims.sub, sessionId: claims.sid };
+  } catch (error) {
+    console.error("Error verifying session token:", error);
+    return null;
+  }
+};
+
+// Browsers can't add headers to a link or an EventSource, so routes opened
+// that way may also take the token as ?token=
+const getSessionToken = (request: Request, allowQueryToken: boolean) => {
+  const header = request.headers.get("authorization");
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length);
+
+  return allowQueryToken ? new URL(request.url).searchParams.get("token") : null;
+};
+
+type AuthenticatedHandler<P> = (
+  request: Request,
+  params: P,
+  session: Session,
+) => Promise<Response>;
+
+// Wraps an API route so it only runs for a signed-in user, and hands it the
+// user's Clerk ID taken from the verified token rather than from the request
+export const withAuth =
+  <P = Record<string, string>>(
+    handler: AuthenticatedHandler<P>,
+    { allowQueryToken = false }: { allowQueryToken?: boolean } = {},
+  ) =>
+  async (request: Request, params: P) => {
+    const token = getSessionToken(request, allowQueryToken);
+    const session = token ? await verifySessionToken(token) : null;
+
+    if (!session) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return handler(request, params, session);
+  };
+
+export const forbidden = () =>
+  Response.json({ error: "Forbidden" }, { status: 403 });
@@ -0,0 +1,159 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { RIDE_STATUSES, isRideFinished } from "@/lib/ride";
+import { RideStatus, SplitShare } from "@/types/type";
+
+type Sql = NeonQueryFunction<false, false>;
+
+export const MAX_SPLIT_PARTICIPANTS = 4;
+// Stripe will not charge less than this, for any one share
+export const MINIMUM_SHARE = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+// Shares can still be settled after the trip, but not once it was called off
+export const isSplitOpen = (status: RideStatus) =>
+  !isRideFinished(status) || status === "completed";
+
+const SPLIT_OPEN_STATUSES = RIDE_STATUSES.filter(isSplitOpen);
+
+// Each invitee's equal share; the booker's share absorbs the leftover cents
+export const splitEqually = (total: number, participantCount: number) =>
+  Math.floor(total / (participantCount + 1));
+
+export const validateSplit = (
+  total: number,
+  shares: SplitShare[],
+  bookerEmail?: string,
+): { bookerShare: number } | { error: string } => {
+  if (shares.length > MAX_SPLIT_PARTICIPANTS) {
+    return { error: `A fare can be split with at most ${MAX_SPLIT_PARTICIPANTS} people` };
+  }
+
+  const emails = shares.map((share) => normalizeEmail(String(share.email ?? "")));
+  if (emails.some((email) => !isValidEmail(email))) {
+    return { error: "Every participant needs a valid email" };
+  }
+  if (new Set(emails).size !== emails.length) {
+    return { error: "Each participant can only be invited once" };
+  }
+  if (bookerEmail && emails.includes(normalizeEmail(bookerEmail))) {
+    return { error: "You cannot invite yourself" };
+  }
+
+  if (
+    shares.some(
+      (share) =>
+        !Number.isInteger(share.share_amount) || share.share_amount < MINIMUM_SHARE,
+    )
+  ) {
+    return { error: "Each share must be at least $0.50" };
+  }
+
+  const bookerShare =
+    total - shares.reduce((sum, share) => sum + share.share_amount, 0);
+  if (bookerShare < MINIMUM_SHARE) {
+    return { error: "Your own share must be at least $0.50" };
+  }
+
+  return { bookerShare };
+};
+
+// Invitations are addressed by email, so a signed-in user sees the ones
+// sent to the address on their account. Null if they never finished sign up
+export const getUserEmail = async (sql: Sql, userId: string) => {
+  const [user] = await sql`
+    SELECT email FROM users WHERE clerk_id = ${userId};
+  `;
+  return user ? normalizeEmail(user.email) : null;
+};
+
+// Participants are recorded when the booker's PaymentIntent is created,
+// before the ride exists, and attached to it here
+export const linkSplitParticipants = async (
+  sql: Sql,
+  rideId: number,
+  bookingPaymentIntentId: string,
+) => {
+  await sql`
+    UPDATE ride_participants
+    SET ride_id = ${rideId}, updated_at = NOW()
+    WHERE booking_payment_intent_id = ${bookingPaymentIntentId}
+      AND ride_id IS NULL;
+  `;
+};
+
+// What is still owed on a split ride: the fare less the booker's payment
+// and the shares participants have paid
+export const getSplitRemaining = async (sql: Sql, rideId: number | string) => {
+  const [ride] = await sql`
+    SELECT
+      rides.fare_price - rides.booker_share_amount - COALESCE(
+        (SELECT SUM(share_amount) FROM ride_participants
+         WHERE ride_id = rides.id AND status = 'paid'),
+        0
+      ) AS remaining
+    FROM rides
+    WHERE id = ${rideId} AND booker_share_amount IS NOT NULL;
+  `;
+
+  return ride ? Number(ride.remaining) : 0;
+};
+
+// A split ride only counts as paid once nothing is left owing. Refunds and
+// disputes take precedence, so only paid and partially_paid rides move
+export const syncSplitPaymentStatus = async (sql: Sql, rideId: number | string) => {
+  const remaining = await getSplitRemaining(sql, rideId);
+
+  await sql`
+    UPDATE rides
+    SET
+      payment_status = ${remaining > 0 ? "partially_paid" : "paid"},
+      updated_at = NOW()
+    WHERE id = ${rideId}
+      AND booker_share_amount IS NOT NULL
+      AND payment_status IN ('paid', 'partially_paid');
+  `;
+};
+
+// Marks a share paid unless the booker covered it first or the ride was
+// called off while the participant was paying. Returns false when the
+// payment was not needed and should be refunded
+export const recordSharePayment = async (
+  sql: Sql,
+  participantId: number | string,
+  paymentIntentId: string,
+) => {
+  const [participant] = await sql`
+    UPDATE ride_participants
+    SET
+      status = 'paid',
+      payment_intent_id = ${paymentIntentId},
+      paid_at = COALESCE(paid_at, NOW()),
+      updated_at = NOW()
+    WHERE id = ${participantId}
+      AND (
+        (
+          status = 'accepted'
+          AND EXISTS (
+            SELECT 1 FROM rides
+            WHERE rides.id = ride_participants.ride_id
+              AND rides.status = ANY(${SPLIT_OPEN_STATUSES})
+          )
+        )
+        OR (status = 'paid' AND payment_intent_id = ${paymentIntentId})
+      )
+    RETURNING ride_id;
+  `;
+
+  if (!participant) return false;
+
+  if (participant.ride_id) {
+    await syncSplitPaymentStatus(sql, participant.ride_id);
+  }
+  return true;
+};
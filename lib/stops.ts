@@ -0,0 +1,73 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { RideStop } from "@/types/type";
+
+export const MAX_RIDE_STOPS = 3;
+
+const MAX_ADDRESS_LENGTH = 255;
+
+const isCoordinate = (value: unknown, limit: number) =>
+  typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+
+export const parseStops = (
+  value: unknown,
+): { stops: RideStop[] } | { error: string } => {
+  if (value === undefined || value === null) return { stops: [] };
+
+  if (!Array.isArray(value)) return { error: "Stops must be a list" };
+  if (value.length > MAX_RIDE_STOPS) {
+    return { error: `A ride can have at most ${MAX_RIDE_STOPS} stops` };
+  }
+
+  const stops: RideStop[] = [];
+  for (const stop of value) {
+    if (
+      !stop ||
+      !isCoordinate(stop.latitude, 90) ||
+      !isCoordinate(stop.longitude, 180)
+    ) {
+      return { error: "Each stop needs a valid latitude and longitude" };
+    }
+
+    stops.push({
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      address: String(stop.address ?? "Unknown").slice(0, MAX_ADDRESS_LENGTH),
+    });
+  }
+
+  return { stops };
+};
+
+// Stripe metadata values are capped at 500 characters, so each stop gets a
+// key of its own
+export const stopsToMetadata = (stops: RideStop[]) =>
+  Object.fromEntries(
+    stops.map((stop, index) => [`stop_${index + 1}`, JSON.stringify(stop)]),
+  );
+
+export const stopsFromMetadata = (metadata: Record<string, string>) => {
+  const stops: RideStop[] = [];
+  for (let index = 1; index <= MAX_RIDE_STOPS; index++) {
+    const value = metadata[`stop_${index}`];
+    if (value) stops.push(JSON.parse(value));
+  }
+
+  return stops;
+};
+
+// Both the app and the webhook may save the same ride, so existing stops
+// are left alone
+export const saveRideStops = async (
+  sql: NeonQueryFunction<false, false>,
+  rideId: number,
+  stops: RideStop[],
+) => {
+  for (const [index, stop] of stops.entries()) {
+    await sql`
+      INSERT INTO ride_stops (ride_id, stop_order, address, latitude, longitude)
+      VALUES (${rideId}, ${index + 1}, ${stop.address}, ${stop.latitude}, ${stop.longitude})
+      ON CONFLICT (ride_id, stop_order) DO NOTHING;
+    `;
+  }
+};
@@ -0,0 +1,167 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { SurgeCell } from "@/types/type";
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Precision 6 cells are roughly 1.2 km x 0.6 km
+const GEOHASH_PRECISION = Number(process.env.SURGE_GEOHASH_PRECISION ?? 6);
+export const SURGE_MAX_MULTIPLIER = Number(process.env.SURGE_MAX_MULTIPLIER ?? 3);
+// How far each new reading moves the multiplier from the previous one
+const SURGE_SMOOTHING = Number(process.env.SURGE_SMOOTHING ?? 0.5);
+// Requests older than this no longer count as demand, and a stored
+// multiplier older than this is neither used for smoothing nor charged
+const SURGE_WINDOW_MINUTES = Number(process.env.SURGE_WINDOW_MINUTES ?? 10);
+// Extra multiplier per open request beyond one per available driver
+const SURGE_SENSITIVITY = 0.5;
+// Matches the cutoff used for placing drivers on the map
+const MAX_LOCATION_AGE_SECONDS = 900;
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+// Standard geohash, narrowing the cell's bounds one bit at a time
+const encodeGeohash = (latitude: number, longitude: number, precision: number) => {
+  const bounds = { minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 };
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (bounds.minLng + bounds.maxLng) / 2;
+      if (longitude >= mid) {
+        value = value * 2 + 1;
+        bounds.minLng = mid;
+      } else {
+        value *= 2;
+        bounds.maxLng = mid;
+      }
+    } else {
+      const mid = (bounds.minLat + bounds.maxLat) / 2;
+      if (latitude >= mid) {
+        value = value * 2 + 1;
+        bounds.minLat = mid;
+      } else {
+        value *= 2;
+        bounds.maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+const rawMultiplier = (demand: number, supply: number) => {
+  const ratio = demand / Math.max(supply, 1);
+  if (ratio <= 1) return 1;
+  return 1 + (ratio - 1) * SURGE_SENSITIVITY;
+};
+
+const clampMultiplier = (multiplier: number) =>
+  Math.min(Math.max(Math.round(multiplier * 10) / 10, 1), SURGE_MAX_MULTIPLIER);
+
+// Recomputes every cell with open ride requests, and every cell still
+// surging so it can settle back down, from requests and online drivers.
+// Each value is smoothed against the last so prices do not jump between
+// runs. Run on the scheduler tick, so the multiplier moves at the same
+// pace however often it is read. Returns the cells written
+export const recomputeSurgeCells = async (
+  sql: NeonQueryFunction<false, false>,
+) => {
+  const [requests, drivers, previousCells] = await Promise.all([
+    sql`
+      SELECT origin_latitude::float AS latitude, origin_longitude::float AS longitude
+      FROM rides
+      WHERE status = 'requested'
+        AND requested_at > NOW() - make_interval(mins => ${SURGE_WINDOW_MINUTES});
+    `,
+    sql`
+      SELECT latitude::float AS latitude, longitude::float AS longitude
+      FROM drivers
+      WHERE is_online = true
+        AND location_updated_at > NOW() - make_interval(secs => ${MAX_LOCATION_AGE_SECONDS});
+    `,
+    sql`
+      SELECT geohash, multiplier::float AS multiplier
+      FROM surge_cells
+      WHERE multiplier > 1
+        AND updated_at > NOW() - make_interval(mins => ${SURGE_WINDOW_MINUTES});
+    `,
+  ]);
+
+  const countByCell = (points: Point[]) => {
+    const counts = new Map<string, number>();
+    for (const { latitude, longitude } of points) {
+      const hash = encodeGeohash(latitude, longitude, GEOHASH_PRECISION);
+      counts.set(hash, (counts.get(hash) ?? 0) + 1);
+    }
+    return counts;
+  };
+
+  const demandByCell = countByCell(requests as Point[]);
+  const supplyByCell = countByCell(drivers as Point[]);
+  const previousByCell = new Map<string, number>(
+    previousCells.map((cell) => [cell.geohash, cell.multiplier]),
+  );
+
+  const cells: SurgeCell[] = [];
+
+  for (const hash of new Set([...demandByCell.keys(), ...previousByCell.keys()])) {
+    const demand = demandByCell.get(hash) ?? 0;
+    const supply = supplyByCell.get(hash) ?? 0;
+    const previous = previousByCell.get(hash);
+    const raw = rawMultiplier(demand, supply);
+    const multiplier = clampMultiplier(
+      previous !== undefined ? previous + (raw - previous) * SURGE_SMOOTHING : raw,
+    );
+
+    await sql`
+      INSERT INTO surge_cells (geohash, multiplier, demand, supply, updated_at)
+      VALUES (${hash}, ${multiplier}, ${demand}, ${supply}, NOW())
+      ON CONFLICT (geohash) DO UPDATE SET
+        multiplier = EXCLUDED.multiplier,
+        demand = EXCLUDED.demand,
+        supply = EXCLUDED.supply,
+        updated_at = NOW();
+    `;
+
+    cells.push({ geohash: hash, multiplier, demand, supply });
+  }
+
+  return cells;
+};
+
+// The multiplier last computed for the cell containing the point. A cell
+// that has not been computed lately has no surge
+export const getSurge = async (
+  sql: NeonQueryFunction<false, false>,
+  latitude: number,
+  longitude: number,
+): Promise<SurgeCell> => {
+  const hash = encodeGeohash(latitude, longitude, GEOHASH_PRECISION);
+
+  const [cell] = await sql`
+    SELECT multiplier::float AS multiplier, demand, supply
+    FROM surge_cells
+    WHERE geohash = ${hash}
+      AND updated_at > NOW() - make_interval(mins => ${SURGE_WINDOW_MINUTES});
+  `;
+
+  return {
+    geohash: hash,
+    multiplier: cell?.multiplier ?? 1,
+    demand: cell?.demand ?? 0,
+    supply: cell?.supply ?? 0,
+  };
+};
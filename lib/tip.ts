@@ -0,0 +1,10 @@
+export const TIP_PERCENTAGES = [10, 15, 20];
+// Stripe will not charge less than this
+export const MINIMUM_TIP = 50;
+export const MAXIMUM_TIP = 20000;
+
+export const calculatePercentageTip = (farePrice: number, percentage: number) =>
+  Math.max(Math.round((farePrice * percentage) / 100), MINIMUM_TIP);
+
+export const isValidTipAmount = (amount: number) =>
+  Number.isInteger(amount) && amount >= MINIMUM_TIP && amount <= MAXIMUM_TIP;
@@ -0,0 +1,143 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+import { DRIVER_ACTIVE_STATUSES } from "@/lib/driver";
+import { fetchRouteSummary } from "@/lib/map";
+import { isRideFinished } from "@/lib/ride";
+import { RideStatus, RideTracking, TrackingTarget } from "@/types/type";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// How often a waiting stream checks the ride for changes
+export const TRACKING_POLL_INTERVAL_MS = 1000;
+// A long-poll request answers after this long even if nothing changed
+export const TRACKING_LONG_POLL_TIMEOUT_MS = 25 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getTrackingTarget = (status: RideStatus): TrackingTarget | null => {
+  switch (status) {
+    case "accepted":
+    case "driver_arriving":
+      return "pickup";
+    case "in_progress":
+      return "destination";
+    default:
+      return null;
+  }
+};
+
+// The ride as its rider sees it while tracking, without the ETA
+const getTrackingSnapshot = async (
+  sql: Sql,
+  rideId: string,
+  userId: string,
+) => {
+  const [ride] = await sql`
+    SELECT
+      rides.id AS ride_id,
+      rides.status,
+      rides.status || ':' || COALESCE(
+        EXTRACT(EPOCH FROM drivers.location_updated_at)::text, ''
+      ) AS version,
+      rides.origin_address,
+      rides.destination_address,
+      rides.origin_latitude::float AS origin_latitude,
+      rides.origin_longitude::float AS origin_longitude,
+      rides.destination_latitude::float AS destination_latitude,
+      rides.destination_longitude::float AS destination_longitude,
+      COALESCE(
+        (
+          SELECT json_agg(
+            json_build_object(
+              'address', ride_stops.address,
+              'latitude', ride_stops.latitude::float,
+              'longitude', ride_stops.longitude::float
+            )
+            ORDER BY ride_stops.stop_order
+          )
+          FROM ride_stops
+          WHERE ride_stops.ride_id = rides.id
+        ),
+        '[]'::json
+      ) AS stops,
+      CASE WHEN drivers.id IS NULL THEN NULL ELSE json_build_object(
+        'id', drivers.id,
+        'first_name', drivers.first_name,
+        'last_name', drivers.last_name,
+        'profile_image_url', drivers.profile_image_url,
+        'car_image_url', drivers.car_image_url,
+        'rating', drivers.rating::float,
+        'latitude', CASE WHEN rides.status = ANY(${DRIVER_ACTIVE_STATUSES})
+          THEN drivers.latitude::float END,
+        'longitude', CASE WHEN rides.status = ANY(${DRIVER_ACTIVE_STATUSES})
+          THEN drivers.longitude::float END,
+        'heading', CASE WHEN rides.status = ANY(${DRIVER_ACTIVE_STATUSES})
+          THEN drivers.heading::float END
+      ) END AS driver
+    FROM rides
+    LEFT JOIN drivers ON drivers.id = rides.driver_id
+    WHERE rides.id = ${rideId} AND rides.user_id = ${userId};
+  `;
+
+  return ride as Omit<RideTracking, "eta_target" | "eta_minutes"> | undefined;
+};
+
+// Adds the driver's drive time to wherever they are heading next
+const withEta = async (
+  snapshot: Omit<RideTracking, "eta_target" | "eta_minutes">,
+): Promise<RideTracking> => {
+  const target = getTrackingTarget(snapshot.status);
+  const driver = snapshot.driver;
+
+  if (!target || driver?.latitude == null || driver.longitude == null) {
+    return { ...snapshot, eta_target: target, eta_minutes: null };
+  }
+
+  const origin = {
+    latitude: snapshot.origin_latitude,
+    longitude: snapshot.origin_longitude,
+  };
+  const destination = {
+    latitude: snapshot.destination_latitude,
+    longitude: snapshot.destination_longitude,
+  };
+  const { time } = await fetchRouteSummary(
+    { latitude: driver.latitude, longitude: driver.longitude },
+    ...(target === "pickup" ? [origin] : [...snapshot.stops, destination]),
+  );
+
+  return {
+    ...snapshot,
+    eta_target: target,
+    eta_minutes: Math.max(1, Math.round(time / 60)),
+  };
+};
+
+// Resolves once the ride differs from the version the caller already has,
+// the ride is over or the timeout passes. Undefined if the rider has no
+// such ride
+export const waitForTrackingChange = async (
+  sql: Sql,
+  rideId: string,
+  userId: string,
+  since: string | null,
+  signal?: AbortSignal,
+) => {
+  const deadline = Date.now() + TRACKING_LONG_POLL_TIMEOUT_MS;
+
+  while (true) {
+    const snapshot = await getTrackingSnapshot(sql, rideId, userId);
+
+    if (
+      !snapshot ||
+      snapshot.version !== since ||
+      isRideFinished(snapshot.status) ||
+      Date.now() >= deadline ||
+      signal?.aborted
+    ) {
+      return snapshot && withEta(snapshot);
+    }
+
+    await sleep(TRACKING_POLL_INTERVAL_MS);
+  }
+};
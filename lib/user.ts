@@ -0,0 +1,161 @@
+import { NeonQueryFunction } from "@neondatabase/serverless";
+
+type Sql = NeonQueryFunction<false, false>;
+
+// The parts of a Clerk user object, as sent in webhooks and returned by the
+// Backend API, that the users table keeps
+export interface ClerkUser {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  username: string | null;
+  primary_email_address_id: string | null;
+  email_addresses: { id: string; email_address: string }[];
+  // Milliseconds since the epoch
+  updated_at: number;
+}
+
+export const getClerkUserEmail = (user: ClerkUser) =>
+  (
+    user.email_addresses.find(
+      (address) => address.id === user.primary_email_address_id,
+    ) ?? user.email_addresses[0]
+  )?.email_address ?? null;
+
+// Falls back the same way the app does when someone never gave a name
+export const getClerkUserName = (user: ClerkUser) =>
+  [user.first_name, user.last_name].filter(Boolean).join(" ") ||
+  user.username ||
+  getClerkUserEmail(user)?.split("@")[0] ||
+  "Rider";
+
+// Clerk lets an address move from one account to another, but the users
+// table keeps email unique. Any other row still holding the address is out
+// of date, so it gets a placeholder until its own update arrives
+const releaseEmail = async (sql: Sql, email: string, clerkId: string) => {
+  await sql`
+    UPDATE users
+    SET email = 'released-' || id || '@users.myride.invalid', updated_at = NOW()
+    WHERE LOWER(email) = LOWER(${email}) AND clerk_id <> ${clerkId};
+  `;
+};
+
+// Creates or refreshes a user's row. Clerk can deliver webhooks out of
+// order, so an update older than the one already stored is ignored, as is
+// anything for a user who has since been deleted. Returns the row as it
+// now stands
+export const upsertUser = async (
+  sql: Sql,
+  {
+    clerkId,
+    name,
+    email,
+    clerkUpdatedAt = null,
+  }: {
+    clerkId: string;
+    name: string;
+    email: string;
+    clerkUpdatedAt?: Date | null;
+  },
+) => {
+  const [current] = await sql`
+    SELECT * FROM users WHERE clerk_id = ${clerkId};
+  `;
+
+  const isStale =
+    current &&
+    (current.deleted_at !== null ||
+      (current.clerk_updated_at !== null &&
+        (!clerkUpdatedAt || new Date(current.clerk_updated_at) > clerkUpdatedAt)));
+
+  if (isStale) return current;
+
+  await releaseEmail(sql, email, clerkId);
+
+  const [user] = await sql`
+    INSERT INTO users (name, email, clerk_id, clerk_updated_at)
+    VALUES (${name}, ${email}, ${clerkId}, ${clerkUpdatedAt?.toISOString() ?? null})
+    ON CONFLICT (clerk_id) DO UPDATE
+    SET
+      name = EXCLUDED.name,
+      email = EXCLUDED.email,
+      clerk_updated_at = EXCLUDED.clerk_updated_at,
+      updated_at = NOW()
+    WHERE users.deleted_at IS NULL
+      AND (
+        users.clerk_updated_at IS NULL OR
+        users.clerk_updated_at <= EXCLUDED.clerk_updated_at
+      )
+    RETURNING *;
+  `;
+
+  return user ?? current;
+};
+
+export const upsertClerkUser = async (sql: Sql, user: ClerkUser) => {
+  const email = getClerkUserEmail(user);
+  // Phone-only sign ups have no address to key the row on
+  if (!email) return null;
+
+  return upsertUser(sql, {
+    clerkId: user.id,
+    name: getClerkUserName(user),
+    email,
+    clerkUpdatedAt: new Date(user.updated_at),
+  });
+};
+
+// The user as Clerk has them, or null if Clerk has no such user. Anything
+// about who a user is comes from here or the webhook, never from the app
+export const getClerkUser = async (clerkId: string) => {
+  const response = await fetch(`https://api.clerk.com/v1/users/${clerkId}`, {
+    headers: { Authorization: `Bearer ${process.env.CLERK_SECRET_KEY}` },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Clerk returned ${response.status}: ${await response.text()}`);
+  }
+
+  return (await response.json()) as ClerkUser;
+};
+
+// Rides, payments and ratings point at the Clerk ID, so the row is kept for
+// them and only what identifies the person is removed
+export const anonymizeUser = async (sql: Sql, clerkId: string) => {
+  const [user] = await sql`
+    UPDATE users
+    SET
+      name = 'Deleted user',
+      email = 'deleted-' || id || '@users.myride.invalid',
+      deleted_at = NOW(),
+      updated_at = NOW()
+    WHERE clerk_id = ${clerkId} AND deleted_at IS NULL
+    RETURNING email;
+  `;
+
+  // Split fare invitations they answered carry their address too
+  if (user) {
+    await sql`
+      UPDATE ride_participants
+      SET email = ${user.email}, updated_at = NOW()
+      WHERE user_id = ${clerkId};
+    `;
+  }
+
+  return user ?? null;
+};
+
+// Deleting the Clerk user also ends all of their sessions. Clerk then sends
+// user.deleted, which finds the row already anonymized
+export const deleteClerkUser = async (clerkId: string) => {
+  const response = await fetch(`https://api.clerk.com/v1/users/${clerkId}`, {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${process.env.CLERK_SECRET_KEY}` },
+  });
+
+  // Already gone is as good as deleted
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Clerk returned ${response.status}: ${await response.text()}`);
+  }
+};
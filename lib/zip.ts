@@ -0,0 +1,80 @@
+import { crc32, deflateRawSync } from "zlib";
+
+// A small zip writer, enough to bundle a few generated files into one
+// download
+
+export interface ZipEntry {
+  name: string;
+  content: string | Uint8Array;
+}
+
+// Zip stores times in MS-DOS format, to the nearest two seconds
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+// Names are UTF-8, which general purpose flag bit 11 declares
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+
+export const buildZip = (entries: ZipEntry[], modifiedAt = new Date()) => {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const files: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const content = Buffer.from(entry.content);
+    const compressed = deflateRawSync(content);
+    const checksum = crc32(content);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(UTF8_FLAG, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(checksum, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4);
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(UTF8_FLAG, 8);
+    record.writeUInt16LE(DEFLATE, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(checksum, 16);
+    record.writeUInt32LE(compressed.length, 20);
+    record.writeUInt32LE(content.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+
+    files.push(header, name, compressed);
+    directory.push(record, name);
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...files, ...directory, end]));
+};
@@ -0,0 +1,100 @@
+// Load environment variables from .env file before the lib modules read them
+import "dotenv/config";
+
+import { neon } from "@neondatabase/serverless";
+
+import { ClerkUser, anonymizeUser, upsertClerkUser } from "@/lib/user";
+
+// Brings the users table in line with Clerk, for accounts created before
+// the Clerk webhook was set up or events it missed: every Clerk user gets
+// an up-to-date row, and rows for users no longer in Clerk are anonymized.
+// Pass --dry-run to only report what would change
+const sql = neon(process.env.DATABASE_URL!);
+const dryRun = process.argv.includes("--dry-run");
+
+// The most the Clerk Backend API returns per page
+const PAGE_SIZE = 500;
+
+async function fetchClerkUsers() {
+  if (!process.env.CLERK_SECRET_KEY) {
+    throw new Error("CLERK_SECRET_KEY is not set");
+  }
+
+  const users: ClerkUser[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const response = await fetch(
+      `https://api.clerk.com/v1/users?limit=${PAGE_SIZE}&offset=${offset}&order_by=%2Bcreated_at`,
+      { headers: { Authorization: `Bearer ${process.env.CLERK_SECRET_KEY}` } },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Clerk returned ${response.status}: ${await response.text()}`);
+    }
+
+    const page: ClerkUser[] = await response.json();
+    users.push(...page);
+
+    if (page.length < PAGE_SIZE) return users;
+  }
+}
+
+async function backfill() {
+  try {
+    console.log("👥 Fetching users from Clerk...");
+    const clerkUsers = await fetchClerkUsers();
+
+    // Most likely a key for the wrong Clerk instance; carrying on would
+    // anonymize everyone
+    if (clerkUsers.length === 0) {
+      throw new Error("Clerk returned no users, check CLERK_SECRET_KEY");
+    }
+
+    const clerkIds = new Set(clerkUsers.map((user) => user.id));
+
+    const rows = await sql`
+      SELECT clerk_id FROM users WHERE deleted_at IS NULL;
+    `;
+    const existing = new Set(rows.map((row) => row.clerk_id as string));
+
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    for (const user of clerkUsers) {
+      if (dryRun) {
+        if (existing.has(user.id)) updated++;
+        else created++;
+        continue;
+      }
+
+      const row = await upsertClerkUser(sql, user);
+      if (!row) {
+        console.log(`⚠️ Skipping ${user.id}, who has no email address`);
+        skipped++;
+      } else if (existing.has(user.id)) {
+        updated++;
+      } else {
+        created++;
+      }
+    }
+
+    const removed = rows.filter((row) => !clerkIds.has(row.clerk_id));
+    if (!dryRun) {
+      for (const row of removed) {
+        await anonymizeUser(sql, row.clerk_id);
+      }
+    }
+
+    console.log(
+      `${dryRun ? "🔍 Dry run: would have" : "✅ Done:"} created ${created}, ` +
+        `refreshed ${updated} and anonymized ${removed.length} users` +
+        (skipped ? `, skipped ${skipped}` : ""),
+    );
+  } catch (error) {
+    console.error("❌ Error backfilling users:", error);
+    process.exit(1);
+  }
+}
+
+backfill();
@@ -0,0 +1,53 @@
+// Load environment variables from .env file before the lib modules read them
+import "dotenv/config";
+
+import { neon } from "@neondatabase/serverless";
+
+import { dispatchDueScheduledRides, runDispatch } from "@/lib/dispatch";
+import { recomputeSurgeCells } from "@/lib/surge";
+
+const sql = neon(process.env.DATABASE_URL!);
+
+const POLL_INTERVAL_SECONDS = Number(
+  process.env.SCHEDULER_POLL_INTERVAL_SECONDS ?? 60,
+);
+// Much shorter than an offer's timeout, so lapsed offers move on promptly
+const DISPATCH_INTERVAL_SECONDS = Number(
+  process.env.DISPATCH_POLL_INTERVAL_SECONDS ?? 5,
+);
+
+async function tick() {
+  try {
+    const rides = await dispatchDueScheduledRides(sql);
+
+    for (const ride of rides) {
+      console.log(
+        `🚕 Dispatching ride ${ride.id} for pickup at ${ride.scheduled_pickup_at}`,
+      );
+    }
+  } catch (error) {
+    console.error("❌ Error dispatching scheduled rides:", error);
+  }
+
+  // Surge only moves here, so it changes at a steady pace
+  try {
+    await recomputeSurgeCells(sql);
+  } catch (error) {
+    console.error("❌ Error recomputing surge:", error);
+  }
+}
+
+async function dispatchTick() {
+  try {
+    await runDispatch(sql);
+  } catch (error) {
+    console.error("❌ Error running dispatch:", error);
+  }
+}
+
+console.log(
+  `⏰ Scheduler started, checking scheduled rides and surge every ${POLL_INTERVAL_SECONDS} seconds and offers every ${DISPATCH_INTERVAL_SECONDS} seconds...`,
+);
+tick();
+setInterval(tick, POLL_INTERVAL_SECONDS * 1000);
+setInterval(dispatchTick, DISPATCH_INTERVAL_SECONDS * 1000);
@@ -28,6 +28,35 @@ async function seed() {
       );
     `;
 
+    // Bring tables created by earlier versions of this script up to date
+    console.log("🔧 Applying drivers column migrations...");
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS is_online BOOLEAN NOT NULL DEFAULT false`;
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS latitude DECIMAL(10, 8)`;
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS longitude DECIMAL(11, 8)`;
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS heading DECIMAL(5, 2)`;
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS speed DECIMAL(6, 2)`;
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS location_updated_at TIMESTAMP`;
+    await sql`ALTER TABLE drivers ADD COLUMN IF NOT EXISTS vehicle_class VARCHAR(30) NOT NULL DEFAULT 'economy'`;
+
+    // Create users table; rows are added by /(api)/user on sign-up
+    console.log("📦 Creating users table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS users (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        email VARCHAR(100) NOT NULL UNIQUE,
+        clerk_id VARCHAR(50) NOT NULL UNIQUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    console.log("🔧 Applying users column migrations...");
+    await sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'rider'`;
+    await sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS driver_id INTEGER`;
+    await sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS clerk_updated_at TIMESTAMP`;
+    await sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP`;
+    await sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`;
+
     // Create rides table
     console.log("📦 Creating rides table...");
     await sql`
@@ -49,6 +78,48 @@ async function seed() {
       );
     `;
 
+    console.log("🔧 Applying rides column migrations...");
+    // Rides booked before statuses existed are finished trips, not open
+    // requests; a default on ADD COLUMN would hand them all to dispatch
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS status VARCHAR(30)`;
+    await sql`UPDATE rides SET status = 'completed' WHERE status IS NULL`;
+    await sql`ALTER TABLE rides ALTER COLUMN status SET DEFAULT 'requested'`;
+    await sql`ALTER TABLE rides ALTER COLUMN status SET NOT NULL`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS surge_multiplier DECIMAL(4, 2) NOT NULL DEFAULT 1`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS promotion_id INTEGER`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS discount_amount INTEGER NOT NULL DEFAULT 0`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS tip_amount INTEGER NOT NULL DEFAULT 0`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS tip_payment_intent_id VARCHAR(255)`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS tipped_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS tip_attempts INTEGER NOT NULL DEFAULT 0`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS booker_share_amount INTEGER`;
+    await sql`ALTER TABLE rides ALTER COLUMN driver_id DROP NOT NULL`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS dispatch_mode VARCHAR(10)`;
+    await sql`UPDATE rides SET dispatch_mode = 'rider' WHERE dispatch_mode IS NULL`;
+    await sql`ALTER TABLE rides ALTER COLUMN dispatch_mode SET DEFAULT 'rider'`;
+    await sql`ALTER TABLE rides ALTER COLUMN dispatch_mode SET NOT NULL`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS vehicle_class VARCHAR(30)`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS scheduled_pickup_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS dispatch_started_at TIMESTAMP`;
+    // Left empty on older rides, which were never sent out to drivers
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS requested_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ALTER COLUMN requested_at SET DEFAULT CURRENT_TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS driver_arriving_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS started_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP`;
+    await sql`UPDATE rides SET completed_at = created_at WHERE status = 'completed' AND completed_at IS NULL`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS payment_intent_id VARCHAR(255)`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS cancellation_reason TEXT`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS cancellation_fee INTEGER`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS refund_amount INTEGER`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS stripe_refund_id VARCHAR(255)`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS fare_breakdown JSONB`;
+    await sql`ALTER TABLE rides ADD COLUMN IF NOT EXISTS route_polyline JSONB`;
+
     // Create payments table
     console.log("📦 Creating payments table...");
     await sql`
@@ -67,67 +138,289 @@ async function seed() {
       );
     `;
 
+    console.log("🔧 Applying payments column migrations...");
+    await sql`ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount INTEGER NOT NULL DEFAULT 0`;
+    await sql`ALTER TABLE payments ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'fare'`;
+
+    // Create driver_earnings table
+    console.log("📦 Creating driver_earnings table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS driver_earnings (
+        id SERIAL PRIMARY KEY,
+        driver_id INTEGER NOT NULL,
+        ride_id INTEGER,
+        kind VARCHAR(20) NOT NULL,
+        amount INTEGER NOT NULL,
+        stripe_payment_intent_id VARCHAR(255) UNIQUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    console.log("🔧 Applying driver_earnings column migrations...");
+    await sql`ALTER TABLE driver_earnings ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'paid'`;
+    await sql`ALTER TABLE driver_earnings ADD COLUMN IF NOT EXISTS reversed_amount INTEGER NOT NULL DEFAULT 0`;
+    await sql`ALTER TABLE driver_earnings ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP`;
+
+    // Create stripe_events table
+    console.log("📦 Creating stripe_events table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS stripe_events (
+        id VARCHAR(255) PRIMARY KEY,
+        type VARCHAR(100) NOT NULL,
+        processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create surge_cells table
+    console.log("📦 Creating surge_cells table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS surge_cells (
+        geohash VARCHAR(12) PRIMARY KEY,
+        multiplier DECIMAL(4, 2) NOT NULL DEFAULT 1,
+        demand INTEGER NOT NULL DEFAULT 0,
+        supply INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create ride_participants table
+    console.log("📦 Creating ride_participants table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS ride_participants (
+        id SERIAL PRIMARY KEY,
+        ride_id INTEGER,
+        booking_payment_intent_id VARCHAR(255) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        user_id VARCHAR(255),
+        share_amount INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'invited',
+        payment_intent_id VARCHAR(255),
+        invited_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        responded_at TIMESTAMP,
+        paid_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create ride_stops table
+    console.log("📦 Creating ride_stops table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS ride_stops (
+        id SERIAL PRIMARY KEY,
+        ride_id INTEGER NOT NULL,
+        stop_order INTEGER NOT NULL,
+        address VARCHAR(255) NOT NULL,
+        latitude DECIMAL(10, 8) NOT NULL,
+        longitude DECIMAL(11, 8) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create ride_offers table
+    console.log("📦 Creating ride_offers table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS ride_offers (
+        id SERIAL PRIMARY KEY,
+        ride_id INTEGER NOT NULL,
+        driver_id INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        pickup_distance_km DECIMAL(8, 2),
+        fare_amount INTEGER NOT NULL,
+        offered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL,
+        responded_at TIMESTAMP
+      );
+    `;
+
+    // Create messages table; one thread per ride between rider and driver
+    console.log("📦 Creating messages table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS messages (
+        id SERIAL PRIMARY KEY,
+        ride_id INTEGER NOT NULL,
+        sender_id VARCHAR(100) NOT NULL,
+        sender_role VARCHAR(10) NOT NULL CHECK (sender_role IN ('rider', 'driver')),
+        body TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        read_at TIMESTAMP
+      );
+    `;
+
+    // Create ratings table; each side rates the other once per ride
+    console.log("📦 Creating ratings table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS ratings (
+        id SERIAL PRIMARY KEY,
+        ride_id INTEGER NOT NULL,
+        rater_role VARCHAR(10) NOT NULL CHECK (rater_role IN ('rider', 'driver')),
+        driver_id INTEGER NOT NULL,
+        rider_id VARCHAR(100) NOT NULL,
+        stars SMALLINT NOT NULL CHECK (stars BETWEEN 1 AND 5),
+        tags TEXT[] NOT NULL DEFAULT '{}',
+        comment TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create ride_issues table; problems riders report from a ride's details
+    console.log("📦 Creating ride_issues table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS ride_issues (
+        id SERIAL PRIMARY KEY,
+        ride_id INTEGER NOT NULL,
+        user_id VARCHAR(100) NOT NULL,
+        category VARCHAR(30) NOT NULL,
+        details TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'open',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create audit_log table; account exports and deletions, kept for good
+    console.log("📦 Creating audit_log table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id SERIAL PRIMARY KEY,
+        user_id VARCHAR(100) NOT NULL,
+        action VARCHAR(50) NOT NULL,
+        details JSONB NOT NULL DEFAULT '{}',
+        ip_address VARCHAR(64),
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // Create promotions table
+    console.log("📦 Creating promotions table...");
+    await sql`
+      CREATE TABLE IF NOT EXISTS promotions (
+        id SERIAL PRIMARY KEY,
+        code VARCHAR(50) NOT NULL UNIQUE,
+        discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+        discount_value INTEGER NOT NULL,
+        max_discount INTEGER,
+        usage_limit_per_user INTEGER,
+        vehicle_classes TEXT[],
+        starts_at TIMESTAMP,
+        ends_at TIMESTAMP,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
     // Create indexes
     console.log("🔗 Creating indexes...");
     await sql`CREATE INDEX IF NOT EXISTS idx_drivers_price ON drivers(price)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_drivers_rating ON drivers(rating)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_drivers_online_location ON drivers(is_online, latitude, longitude)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_rides_user_id ON rides(user_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_rides_driver_id ON rides(driver_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_rides_created_at ON rides(created_at)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_rides_status ON rides(status)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_rides_promotion_user ON rides(promotion_id, user_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_rides_status_scheduled_pickup ON rides(status, scheduled_pickup_at)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_driver_earnings_driver_id ON driver_earnings(driver_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ride_participants_ride_id ON ride_participants(ride_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ride_participants_booking ON ride_participants(booking_payment_intent_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ride_participants_email ON ride_participants(LOWER(email))`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_rides_payment_intent_id ON rides(payment_intent_id)`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_ride_stops_ride_order ON ride_stops(ride_id, stop_order)`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_ride_offers_ride_driver ON ride_offers(ride_id, driver_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ride_offers_driver_status ON ride_offers(driver_id, status)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_users_driver_id ON users(driver_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_messages_ride_id ON messages(ride_id, id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_messages_ride_created_at ON messages(ride_id, created_at, id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(ride_id, sender_role) WHERE read_at IS NULL`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_ratings_ride_rater ON ratings(ride_id, rater_role)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ratings_driver ON ratings(driver_id, rater_role, created_at)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ratings_rider ON ratings(rider_id, rater_role, created_at)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ride_issues_ride_id ON ride_issues(ride_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_payments_ride_id ON payments(ride_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id, created_at)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_messages_sender_id ON messages(sender_id)`;
 
     // Clear existing drivers
     console.log("🗑️  Clearing existing drivers...");
     await sql`DELETE FROM drivers`;
 
-    // Seed drivers with valid prices (≥ $0.50)
+    // Seed drivers; fares come from the vehicle class rates
     console.log("👥 Seeding drivers...");
     const drivers = await sql`
-      INSERT INTO drivers (first_name, last_name, title, profile_image_url, car_image_url, car_seats, rating, price, time)
+      INSERT INTO drivers (first_name, last_name, title, profile_image_url, car_image_url, car_seats, rating, price, time, vehicle_class, is_online, latitude, longitude)
       VALUES 
         ('James', 'Wilson', 'Economy Ride', 
          'https://randomuser.me/api/portraits/men/1.jpg',
          'https://images.unsplash.com/photo-1605559424843-9e4c228bf1c2?w=400',
-         4, 4.5, 5.00, 5),
+         4, 4.5, 5.00, 5, 'economy', true, 37.79025, -122.43040),
         
         ('Michael', 'Johnson', 'Comfort Ride',
          'https://randomuser.me/api/portraits/men/2.jpg',
          'https://images.unsplash.com/photo-1583121274602-3e2820c69888?w=400',
-         4, 4.8, 8.00, 8),
+         4, 4.8, 8.00, 8, 'comfort', true, 37.78510, -122.43620),
         
         ('Robert', 'Brown', 'Premium Sedan',
          'https://randomuser.me/api/portraits/men/3.jpg',
          'https://images.unsplash.com/photo-1617531653332-bd46c24f2068?w=400',
-         4, 4.9, 12.00, 10),
+         4, 4.9, 12.00, 10, 'premium', true, 37.79340, -122.42580),
         
         ('David', 'Martinez', 'Luxury SUV',
          'https://randomuser.me/api/portraits/men/4.jpg',
          'https://images.unsplash.com/photo-1519641471654-76ce0107ad1b?w=400',
-         6, 5.0, 15.00, 12),
+         6, 5.0, 15.00, 12, 'suv', true, 37.78190, -122.42910),
         
         ('Sarah', 'Anderson', 'Electric Ride',
          'https://randomuser.me/api/portraits/women/1.jpg',
          'https://images.unsplash.com/photo-1560958089-b8a1929cea89?w=400',
-         4, 4.7, 7.00, 7),
+         4, 4.7, 7.00, 7, 'electric', true, 37.78760, -122.44150),
         
         ('Emily', 'Davis', 'Family Van',
          'https://randomuser.me/api/portraits/women/2.jpg',
          'https://images.unsplash.com/photo-1552932522-5a35b76c0fb1?w=400',
-         7, 4.9, 10.00, 9)
+         7, 4.9, 10.00, 9, 'van', false, 37.77650, -122.41940)
       RETURNING *;
     `;
 
+    // Seeded positions count as a fresh report so the drivers show up straight away
+    await sql`UPDATE drivers SET location_updated_at = CURRENT_TIMESTAMP WHERE latitude IS NOT NULL`;
+
     console.log(`✅ Seeded ${drivers.length} drivers`);
 
     // Display seeded data
     console.log("\n📊 Seeded Drivers:");
     drivers.forEach((driver) => {
       console.log(
-        `   ${driver.id}. ${driver.title} - $${driver.price} (${driver.rating}⭐)`
+        `   ${driver.id}. ${driver.title} [${driver.vehicle_class}] (${driver.rating}⭐) ${driver.is_online ? "🟢 online" : "⚪ offline"}`
       );
     });
 
+    // Re-seeding replaces every driver, so relink the development driver
+    // account to the first one
+    if (process.env.SEED_DRIVER_EMAIL) {
+      const linked = await sql`
+        UPDATE users
+        SET role = 'driver', driver_id = ${drivers[0].id}
+        WHERE email = ${process.env.SEED_DRIVER_EMAIL}
+        RETURNING email;
+      `;
+      console.log(
+        linked.length > 0
+          ? `🚘 Linked ${process.env.SEED_DRIVER_EMAIL} to driver ${drivers[0].id}`
+          : `⚠️  No user with email ${process.env.SEED_DRIVER_EMAIL}, sign up first`
+      );
+    }
+
+    // Seed sample promo codes, keeping any that already exist
+    console.log("\n🎟️  Seeding promotions...");
+    await sql`
+      INSERT INTO promotions (code, discount_type, discount_value, max_discount, usage_limit_per_user, vehicle_classes)
+      VALUES
+        ('WELCOME10', 'percentage', 10, 500, 1, NULL),
+        ('GREEN5', 'fixed', 500, NULL, 3, ARRAY['electric', 'economy'])
+      ON CONFLICT (code) DO NOTHING;
+    `;
+    console.log("✅ Seeded promotions: WELCOME10, GREEN5");
+
     console.log("\n🎉 Database seeded successfully!");
   } catch (error) {
     console.error("❌ Error seeding database:", error);
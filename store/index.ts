@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import { MarkerData } from '@/types/type';
+import { MarkerData, RideStop } from '@/types/type';
+import { MAX_RIDE_STOPS } from '@/lib/stops';
 
 // Driver Interface (base data from database)
 export interface Driver {
@@ -36,6 +37,10 @@ interface LocationStore {
   destinationLatitude: number | null;
   destinationLongitude: number | null;
   destinationAddress: string | null;
+  // Intermediate stops between pickup and destination, in visiting order
+  stops: RideStop[];
+  // ISO time of a scheduled pickup, or null to ride now
+  scheduledPickupAt: string | null;
   setUserLocation: (location: {
     latitude: number;
     longitude: number;
@@ -46,9 +51,22 @@ interface LocationStore {
     longitude: number;
     address: string;
   }) => void;
+  addStop: (stop: RideStop) => void;
+  updateStop: (index: number, stop: RideStop) => void;
+  removeStop: (index: number) => void;
+  moveStop: (from: number, to: number) => void;
+  clearStops: () => void;
+  setScheduledPickupAt: (scheduledPickupAt: string | null) => void;
   clearLocations: () => void;
 }
 
+// Chat Store Interface
+interface ChatStore {
+  // Unread messages across every thread, for the chat tab badge
+  unreadCount: number;
+  setUnreadCount: (unreadCount: number) => void;
+}
+
 // Driver Store
 export const useDriverStore = create<DriverStore>((set) => ({
   drivers: [],
@@ -75,6 +93,8 @@ export const useLocationStore = create<LocationStore>((set) => ({
   destinationLatitude: null,
   destinationLongitude: null,
   destinationAddress: null,
+  stops: [],
+  scheduledPickupAt: null,
   
   setUserLocation: ({ latitude, longitude, address }) => {
     set({
@@ -92,6 +112,43 @@ export const useLocationStore = create<LocationStore>((set) => ({
     });
   },
   
+  addStop: (stop) => {
+    set((state) =>
+      state.stops.length < MAX_RIDE_STOPS
+        ? { stops: [...state.stops, stop] }
+        : state,
+    );
+  },
+
+  updateStop: (index, stop) => {
+    set((state) => ({
+      stops: state.stops.map((item, i) => (i === index ? stop : item)),
+    }));
+  },
+
+  removeStop: (index) => {
+    set((state) => ({ stops: state.stops.filter((_, i) => i !== index) }));
+  },
+
+  moveStop: (from, to) => {
+    set((state) => {
+      if (to < 0 || to >= state.stops.length) return state;
+
+      const stops = [...state.stops];
+      const [stop] = stops.splice(from, 1);
+      stops.splice(to, 0, stop);
+      return { stops };
+    });
+  },
+
+  clearStops: () => {
+    set({ stops: [] });
+  },
+  
+  setScheduledPickupAt: (scheduledPickupAt) => {
+    set({ scheduledPickupAt });
+  },
+  
   clearLocations: () => {
     set({
       userLatitude: null,
@@ -100,6 +157,17 @@ export const useLocationStore = create<LocationStore>((set) => ({
       destinationLatitude: null,
       destinationLongitude: null,
       destinationAddress: null,
+      stops: [],
+      scheduledPickupAt: null,
     });
   },
-}));
\ No newline at end of file
+}));
+
+// Chat Store
+export const useChatStore = create<ChatStore>((set) => ({
+  unreadCount: 0,
+
+  setUnreadCount: (unreadCount) => {
+    set({ unreadCount });
+  },
+}));
@@ -1,13 +1,61 @@
 import { TextInputProps, TouchableOpacityProps } from "react-native";
 
+declare type VehicleClass =
+  | "economy"
+  | "comfort"
+  | "premium"
+  | "suv"
+  | "electric"
+  | "van";
+
+// Rates for one vehicle class, all amounts in cents
+declare interface FareClass {
+  name: string;
+  base_fare: number;
+  per_km: number;
+  per_minute: number;
+  minimum_fare: number;
+  booking_fee: number;
+}
+
+declare interface FareBreakdown {
+  vehicle_class: VehicleClass;
+  distance_km: number;
+  duration_minutes: number;
+  base_fare: number;
+  distance_fare: number;
+  time_fare: number;
+  minimum_fare_adjustment: number;
+  surge_multiplier: number;
+  surge_amount: number;
+  booking_fee: number;
+  total: number;
+}
+
+declare interface SurgeCell {
+  geohash: string;
+  multiplier: number;
+  demand: number;
+  supply: number;
+}
+
 declare interface Driver {
   id: number;
   first_name: string;
   last_name: string;
+  title: string;
+  vehicle_class: VehicleClass;
   profile_image_url: string;
   car_image_url: string;
   car_seats: number;
   rating: number;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  speed: number | null;
+  location_updated_at: string;
+  location_age_seconds: number;
+  distance_km?: number;
 }
 
 declare interface MarkerData {
@@ -21,6 +69,13 @@ declare interface MarkerData {
   rating: number;
   first_name: string;
   last_name: string;
+  vehicle_class: VehicleClass;
+  fare?: FareBreakdown;
+  heading?: number | null;
+  speed?: number | null;
+  location_age_seconds?: number;
+  is_stale?: boolean;
+  distance_km?: number;
   time?: number;
   price?: string;
 }
@@ -33,7 +88,25 @@ declare interface MapProps {
   onMapReady?: () => void;
 }
 
+declare type RideStatus =
+  | "scheduled"
+  | "requested"
+  | "accepted"
+  | "driver_arriving"
+  | "arrived"
+  | "in_progress"
+  | "completed"
+  | "cancelled_by_rider"
+  | "cancelled_by_driver"
+  | "no_show"
+  | "no_driver_found";
+
+// auto offers the ride to the best nearby driver in turn; rider only ever
+// offers it to the driver the rider picked
+declare type DispatchMode = "auto" | "rider";
+
 declare interface Ride {
+  ride_id: number;
   origin_address: string;
   destination_address: string;
   origin_latitude: number;
@@ -42,15 +115,250 @@ declare interface Ride {
   destination_longitude: number;
   ride_time: number;
   fare_price: number;
+  tip_amount: number;
+  booker_share_amount: number | null;
   payment_status: string;
-  driver_id: number;
+  status: RideStatus;
+  dispatch_mode: DispatchMode;
+  driver_id: number | null;
   user_id: string;
+  scheduled_pickup_at: string | null;
+  stops: RideStop[];
+  has_rated_driver: boolean;
   created_at: string;
+  accepted_at: string | null;
+  driver_arriving_at: string | null;
+  arrived_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  no_show_at: string | null;
+  // Null until a driver accepts an automatically dispatched ride
   driver: {
+    driver_id: number;
     first_name: string;
     last_name: string;
     car_seats: number;
+  } | null;
+}
+
+// One ride with everything its details screen shows, for its owner
+declare interface RideDetail extends Ride {
+  requested_at: string | null;
+  vehicle_class: VehicleClass | null;
+  fare_breakdown: FareBreakdown | null;
+  discount_amount: number;
+  promotion_id: number | null;
+  promotion_code: string | null;
+  cancellation_reason: string | null;
+  cancellation_fee: number | null;
+  refund_amount: number | null;
+  // Driving route through every stop, or straight lines when none was found
+  route: { latitude: number; longitude: number }[];
+  driver: {
+    driver_id: number;
+    first_name: string;
+    last_name: string;
+    profile_image_url: string;
+    car_image_url: string;
+    car_seats: number;
+    rating: number;
+    vehicle_class: VehicleClass;
+  } | null;
+}
+
+declare type RideIssueCategory =
+  | "lost_item"
+  | "fare"
+  | "route"
+  | "driver"
+  | "safety"
+  | "other";
+
+// What a driver on a tracked ride is currently heading for
+declare type TrackingTarget = "pickup" | "destination";
+
+declare interface RideTracking {
+  ride_id: number;
+  status: RideStatus;
+  // Changes whenever the status or the driver's position does
+  version: string;
+  origin_address: string;
+  destination_address: string;
+  origin_latitude: number;
+  origin_longitude: number;
+  destination_latitude: number;
+  destination_longitude: number;
+  stops: RideStop[];
+  driver: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    profile_image_url: string;
+    car_image_url: string;
+    rating: number;
+    // Only shared while the driver is working on the ride
+    latitude: number | null;
+    longitude: number | null;
+    heading: number | null;
+  } | null;
+  eta_target: TrackingTarget | null;
+  eta_minutes: number | null;
+}
+
+declare type UserRole = "rider" | "driver";
+
+declare interface AppUser {
+  id: number;
+  name: string;
+  email: string;
+  clerk_id: string;
+  role: UserRole;
+  driver_id: number | null;
+}
+
+declare interface RideOffer {
+  id: number;
+  ride_id: number;
+  pickup_distance_km: number | null;
+  fare_amount: number;
+  expires_at: string;
+  seconds_left: number;
+  origin_address: string;
+  destination_address: string;
+  ride_time: number;
+  // Average of the stars drivers gave this rider, null until rated
+  rider_rating: number | null;
+  rider_rating_count: number;
+}
+
+declare interface DriverRide {
+  ride_id: number;
+  origin_address: string;
+  destination_address: string;
+  origin_latitude: number;
+  origin_longitude: number;
+  destination_latitude: number;
+  destination_longitude: number;
+  ride_time: number;
+  fare_price: number;
+  status: RideStatus;
+  accepted_at: string | null;
+  rider_name: string | null;
+}
+
+declare interface DriverSession {
+  driver: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    vehicle_class: VehicleClass;
+    is_online: boolean;
+    latitude: number | null;
+    longitude: number | null;
   };
+  ride: DriverRide | null;
+}
+
+declare interface ChatMessage {
+  id: number;
+  ride_id: number;
+  sender_role: UserRole;
+  body: string;
+  created_at: string;
+  // Set once the other side has seen the message
+  read_at: string | null;
+}
+
+declare interface ChatThread {
+  ride_id: number;
+  status: RideStatus;
+  origin_address: string;
+  destination_address: string;
+  // The caller's side of the conversation
+  role: UserRole;
+  counterpart_name: string;
+  locked: boolean;
+  last_message: string | null;
+  last_message_at: string | null;
+  unread_count: number;
+}
+
+declare type SplitParticipantStatus =
+  | "invited"
+  | "accepted"
+  | "declined"
+  | "paid"
+  | "covered";
+
+declare interface SplitShare {
+  email: string;
+  share_amount: number;
+}
+
+declare interface RideParticipant extends SplitShare {
+  id: number;
+  ride_id: number | null;
+  user_id: string | null;
+  status: SplitParticipantStatus;
+  payment_intent_id: string | null;
+  invited_at: string;
+  responded_at: string | null;
+  paid_at: string | null;
+}
+
+declare interface SplitInvitation extends RideParticipant {
+  origin_address: string;
+  destination_address: string;
+  fare_price: number;
+  created_at: string;
+}
+
+declare interface Promotion {
+  id: number;
+  code: string;
+  discount_type: "percentage" | "fixed";
+  // Percent off, or cents off for fixed discounts
+  discount_value: number;
+  max_discount: number | null;
+  usage_limit_per_user: number | null;
+  vehicle_classes: VehicleClass[] | null;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+declare interface AppliedPromotion {
+  id: number;
+  code: string;
+  discount_amount: number;
+}
+
+// An intermediate stop between pickup and destination, in visiting order
+declare interface RideStop {
+  latitude: number;
+  longitude: number;
+  address: string;
+}
+
+declare interface FareQuote {
+  nonce: string;
+  driver_id: number;
+  origin_latitude: number;
+  origin_longitude: number;
+  destination_latitude: number;
+  destination_longitude: number;
+  stops: RideStop[];
+  ride_time: number;
+  pickup_time: number;
+  breakdown: FareBreakdown;
+  promotion?: AppliedPromotion;
+  amount: number;
+  currency: string;
+  expires_at: string;
+}
+
+declare interface SignedFareQuote extends FareQuote {
+  quote_id: string;
 }
 
 declare interface ButtonProps extends TouchableOpacityProps {
@@ -93,6 +401,7 @@ declare interface PaymentProps {
   fullName: string;
   email: string;
   amount: string;
+  quoteId: string;
   driverId: number;
   rideTime: number;
 }